@@ -0,0 +1,7 @@
+CREATE TABLE `task_dependencies` (
+	`task_id` integer NOT NULL,
+	`depends_on_id` integer NOT NULL,
+	PRIMARY KEY(`task_id`, `depends_on_id`),
+	FOREIGN KEY (`task_id`) REFERENCES `tasks`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`depends_on_id`) REFERENCES `tasks`(`id`) ON UPDATE no action ON DELETE cascade
+);
@@ -0,0 +1 @@
+ALTER TABLE `tasks` ADD `parent_id` integer REFERENCES tasks(id) ON DELETE set null;
\ No newline at end of file
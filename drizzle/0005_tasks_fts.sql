@@ -0,0 +1,29 @@
+-- Custom SQL migration file, put your code below! --
+-- Full-text index over the searchable task fields, kept in sync with tasks by triggers
+CREATE VIRTUAL TABLE `tasks_fts` USING fts5(
+	`customId`,
+	`name`,
+	`description`,
+	content='tasks',
+	content_rowid='id',
+	tokenize='unicode61'
+);
+--> statement-breakpoint
+INSERT INTO `tasks_fts`(`tasks_fts`) VALUES('rebuild');
+--> statement-breakpoint
+CREATE TRIGGER `tasks_fts_insert` AFTER INSERT ON `tasks` BEGIN
+	INSERT INTO `tasks_fts`(`rowid`, `customId`, `name`, `description`)
+	VALUES (new.`id`, new.`customId`, new.`name`, new.`description`);
+END;
+--> statement-breakpoint
+CREATE TRIGGER `tasks_fts_delete` AFTER DELETE ON `tasks` BEGIN
+	INSERT INTO `tasks_fts`(`tasks_fts`, `rowid`, `customId`, `name`, `description`)
+	VALUES ('delete', old.`id`, old.`customId`, old.`name`, old.`description`);
+END;
+--> statement-breakpoint
+CREATE TRIGGER `tasks_fts_update` AFTER UPDATE OF `customId`, `name`, `description` ON `tasks` BEGIN
+	INSERT INTO `tasks_fts`(`tasks_fts`, `rowid`, `customId`, `name`, `description`)
+	VALUES ('delete', old.`id`, old.`customId`, old.`name`, old.`description`);
+	INSERT INTO `tasks_fts`(`rowid`, `customId`, `name`, `description`)
+	VALUES (new.`id`, new.`customId`, new.`name`, new.`description`);
+END;
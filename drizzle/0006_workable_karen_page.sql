@@ -0,0 +1 @@
+ALTER TABLE `tasks` ADD `priority` integer DEFAULT 2 NOT NULL;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `tasks` ADD `start_at` integer;--> statement-breakpoint
+ALTER TABLE `tasks` ADD `due_at` integer;
\ No newline at end of file
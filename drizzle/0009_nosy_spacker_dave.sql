@@ -0,0 +1,7 @@
+CREATE TABLE `time_entries` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`task_id` integer NOT NULL,
+	`started_at` integer NOT NULL,
+	`stopped_at` integer,
+	FOREIGN KEY (`task_id`) REFERENCES `tasks`(`id`) ON UPDATE no action ON DELETE cascade
+);
@@ -0,0 +1 @@
+ALTER TABLE `tasks` ADD `estimate` real;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `tasks` ADD `recurrence` text;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `tasks` ADD `archived_at` integer;
\ No newline at end of file
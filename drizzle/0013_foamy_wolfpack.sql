@@ -0,0 +1,7 @@
+CREATE TABLE `journal` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`command` text NOT NULL,
+	`changes` text NOT NULL,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL,
+	`undone_at` integer
+);
@@ -0,0 +1,8 @@
+CREATE TABLE `sync_states` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`path` text NOT NULL,
+	`tasks` text NOT NULL,
+	`synced_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `sync_states_path_unique` ON `sync_states` (`path`);
\ No newline at end of file
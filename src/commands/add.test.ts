@@ -1,12 +1,15 @@
-import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import { migrate } from "drizzle-orm/better-sqlite3/migrator";
 import { eq, and } from "drizzle-orm";
 import path from "node:path";
 import { fileURLToPath } from "node:url";
+import { Readable } from "node:stream";
 import { add } from "./add";
 import { getTestDb } from "../utils/db";
+import { withTags } from "../utils/tags";
 import { schema } from "../db";
 import type { DatabaseConnection } from "../utils/db";
+import type { Workflow } from "../utils/workflow";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -255,7 +258,7 @@ describe("add command", () => {
     });
 
     it("should throw error for malformed JSON array", async () => {
-      const notAnArray = '{"customId": "test"}'; // object instead of array
+      const notAnArray = '"test"'; // neither an array nor JSON Lines of tasks
 
       await expect(
         add(dbConnection, "test-category", notAnArray),
@@ -357,4 +360,898 @@ describe("add command", () => {
       expect(doneTask?.status).toBe("done");
     });
   });
+
+  describe("dependencies", () => {
+    const getDependencies = async (category: string) => {
+      const tasks = await dbConnection.db
+        .select()
+        .from(schema.tasks)
+        .where(eq(schema.tasks.category, category));
+      const customIds = new Map(tasks.map((t) => [t.id, t.customId]));
+      const rows = await dbConnection.db.select().from(schema.taskDependencies);
+
+      return rows
+        .filter((r) => customIds.has(r.taskId))
+        .map((r) => [customIds.get(r.taskId), customIds.get(r.dependsOnId)]);
+    };
+
+    it("should save dependencies on tasks in the same request", async () => {
+      const jsonArray = JSON.stringify([
+        { customId: "api-001", name: "Design API" },
+        { customId: "api-002", name: "Implement API", dependsOn: ["api-001"] },
+      ]);
+
+      await add(dbConnection, "backend", jsonArray);
+
+      expect(await getDependencies("backend")).toEqual([
+        ["api-002", "api-001"],
+      ]);
+    });
+
+    it("should save dependencies on existing tasks", async () => {
+      await add(dbConnection, "backend", JSON.stringify([{ customId: "a" }]));
+      await add(
+        dbConnection,
+        "backend",
+        JSON.stringify([{ customId: "b", dependsOn: ["a"] }]),
+      );
+
+      expect(await getDependencies("backend")).toEqual([["b", "a"]]);
+    });
+
+    it("should replace dependencies when dependsOn is provided", async () => {
+      await add(
+        dbConnection,
+        "backend",
+        JSON.stringify([
+          { customId: "a" },
+          { customId: "b" },
+          { customId: "c", dependsOn: ["a"] },
+        ]),
+      );
+      await add(
+        dbConnection,
+        "backend",
+        JSON.stringify([{ customId: "c", dependsOn: ["b"] }]),
+      );
+
+      expect(await getDependencies("backend")).toEqual([["c", "b"]]);
+    });
+
+    it("should keep dependencies when dependsOn is omitted", async () => {
+      await add(
+        dbConnection,
+        "backend",
+        JSON.stringify([
+          { customId: "a" },
+          { customId: "b", dependsOn: ["a"] },
+        ]),
+      );
+      await add(
+        dbConnection,
+        "backend",
+        JSON.stringify([{ customId: "b", name: "Renamed" }]),
+      );
+
+      expect(await getDependencies("backend")).toEqual([["b", "a"]]);
+    });
+
+    it("should reject unknown dependencies", async () => {
+      const jsonArray = JSON.stringify([
+        { customId: "a", dependsOn: ["missing"] },
+      ]);
+
+      await expect(add(dbConnection, "backend", jsonArray)).rejects.toThrow(
+        "Unknown dependency 'missing'",
+      );
+
+      const tasks = await dbConnection.db.select().from(schema.tasks);
+      expect(tasks).toHaveLength(0);
+    });
+
+    it("should not resolve dependencies across categories", async () => {
+      await add(dbConnection, "frontend", JSON.stringify([{ customId: "a" }]));
+
+      await expect(
+        add(
+          dbConnection,
+          "backend",
+          JSON.stringify([{ customId: "b", dependsOn: ["a"] }]),
+        ),
+      ).rejects.toThrow("Unknown dependency 'a'");
+    });
+
+    it("should reject self dependencies", async () => {
+      const jsonArray = JSON.stringify([{ customId: "a", dependsOn: ["a"] }]);
+
+      await expect(add(dbConnection, "backend", jsonArray)).rejects.toThrow(
+        "Dependency cycle detected: a -> a",
+      );
+    });
+
+    it("should reject cycles within a request", async () => {
+      const jsonArray = JSON.stringify([
+        { customId: "a", dependsOn: ["c"] },
+        { customId: "b", dependsOn: ["a"] },
+        { customId: "c", dependsOn: ["b"] },
+      ]);
+
+      await expect(add(dbConnection, "backend", jsonArray)).rejects.toThrow(
+        "Dependency cycle detected",
+      );
+
+      const tasks = await dbConnection.db.select().from(schema.tasks);
+      expect(tasks).toHaveLength(0);
+    });
+
+    it("should reject cycles with existing dependencies", async () => {
+      await add(
+        dbConnection,
+        "backend",
+        JSON.stringify([
+          { customId: "a" },
+          { customId: "b", dependsOn: ["a"] },
+        ]),
+      );
+
+      await expect(
+        add(
+          dbConnection,
+          "backend",
+          JSON.stringify([{ customId: "a", dependsOn: ["b"] }]),
+        ),
+      ).rejects.toThrow("Dependency cycle detected: b -> a -> b");
+
+      expect(await getDependencies("backend")).toEqual([["b", "a"]]);
+    });
+  });
+
+  describe("subtasks", () => {
+    const getTask = async (category: string, customId: string) => {
+      const [task] = await dbConnection.db
+        .select()
+        .from(schema.tasks)
+        .where(
+          and(
+            eq(schema.tasks.category, category),
+            eq(schema.tasks.customId, customId),
+          ),
+        );
+      return task;
+    };
+
+    it("should set the parent of tasks in the same request", async () => {
+      await add(
+        dbConnection,
+        "backend",
+        JSON.stringify([
+          { customId: "child", parent: "parent" },
+          { customId: "parent" },
+        ]),
+      );
+
+      const parent = await getTask("backend", "parent");
+      const child = await getTask("backend", "child");
+      expect(child.parentId).toBe(parent.id);
+      expect(parent.parentId).toBeNull();
+    });
+
+    it("should keep the parent when omitted and clear it when null", async () => {
+      await add(
+        dbConnection,
+        "backend",
+        JSON.stringify([
+          { customId: "parent" },
+          { customId: "child", parent: "parent" },
+        ]),
+      );
+
+      await add(
+        dbConnection,
+        "backend",
+        JSON.stringify([{ customId: "child" }]),
+      );
+      expect((await getTask("backend", "child")).parentId).not.toBeNull();
+
+      await add(
+        dbConnection,
+        "backend",
+        JSON.stringify([{ customId: "child", parent: null }]),
+      );
+      expect((await getTask("backend", "child")).parentId).toBeNull();
+    });
+
+    it("should reject unknown parents", async () => {
+      await expect(
+        add(
+          dbConnection,
+          "backend",
+          JSON.stringify([{ customId: "child", parent: "missing" }]),
+        ),
+      ).rejects.toThrow("Unknown parent 'missing'");
+    });
+
+    it("should reject parent cycles", async () => {
+      await add(
+        dbConnection,
+        "backend",
+        JSON.stringify([{ customId: "a" }, { customId: "b", parent: "a" }]),
+      );
+
+      await expect(
+        add(
+          dbConnection,
+          "backend",
+          JSON.stringify([{ customId: "a", parent: "b" }]),
+        ),
+      ).rejects.toThrow("Subtask cycle detected");
+      expect((await getTask("backend", "a")).parentId).toBeNull();
+    });
+
+    it("should reject a done parent with unfinished subtasks", async () => {
+      await expect(
+        add(
+          dbConnection,
+          "backend",
+          JSON.stringify([
+            { customId: "parent", status: "done" },
+            { customId: "child", parent: "parent" },
+          ]),
+        ),
+      ).rejects.toThrow(
+        "Task 'parent' cannot be done while subtask 'child' is not done",
+      );
+
+      const tasks = await dbConnection.db.select().from(schema.tasks);
+      expect(tasks).toHaveLength(0);
+    });
+
+    it("should accept a done parent with done subtasks", async () => {
+      await expect(
+        add(
+          dbConnection,
+          "backend",
+          JSON.stringify([
+            { customId: "parent", status: "done" },
+            { customId: "child", parent: "parent", status: "done" },
+          ]),
+        ),
+      ).resolves.not.toThrow();
+    });
+
+    it("should accept a done parent whose only unfinished subtask is archived", async () => {
+      await add(
+        dbConnection,
+        "backend",
+        JSON.stringify([
+          { customId: "parent" },
+          { customId: "child", parent: "parent" },
+        ]),
+      );
+      await dbConnection.db
+        .update(schema.tasks)
+        .set({ archivedAt: new Date() })
+        .where(eq(schema.tasks.customId, "child"));
+
+      await add(
+        dbConnection,
+        "backend",
+        JSON.stringify([{ customId: "parent", status: "done" }]),
+      );
+
+      expect((await getTask("backend", "parent")).status).toBe("done");
+    });
+  });
+
+  describe("custom workflow", () => {
+    const workflow: Workflow = {
+      statuses: ["todo", "wip", "done"],
+      initial: "todo",
+      done: ["done"],
+      actionable: ["todo", "wip"],
+      transitions: {},
+      labels: {},
+    };
+
+    it("should default status to the initial status", async () => {
+      await add(
+        dbConnection,
+        "backend",
+        JSON.stringify([{ customId: "a" }]),
+        workflow,
+      );
+
+      const tasks = await dbConnection.db.select().from(schema.tasks);
+      expect(tasks[0].status).toBe("todo");
+    });
+
+    it("should reject statuses outside the workflow", async () => {
+      await expect(
+        add(
+          dbConnection,
+          "backend",
+          JSON.stringify([{ customId: "a", status: "review" }]),
+          workflow,
+        ),
+      ).rejects.toThrow("Unknown status 'review'");
+    });
+  });
+
+  describe("priority", () => {
+    const priorities = async () =>
+      Object.fromEntries(
+        (await dbConnection.db.select().from(schema.tasks)).map((t) => [
+          t.customId,
+          t.priority,
+        ]),
+      );
+
+    it("should accept named and numeric priorities", async () => {
+      await add(
+        dbConnection,
+        "backend",
+        JSON.stringify([
+          { customId: "a", priority: "critical" },
+          { customId: "b", priority: "Low" },
+          { customId: "c", priority: 7 },
+          { customId: "d", priority: "10" },
+          { customId: "e" },
+        ]),
+      );
+
+      expect(await priorities()).toEqual({ a: 4, b: 1, c: 7, d: 10, e: 2 });
+    });
+
+    it("should keep the priority when an upsert omits it", async () => {
+      await add(
+        dbConnection,
+        "backend",
+        JSON.stringify([{ customId: "a", priority: "high" }]),
+      );
+      await add(
+        dbConnection,
+        "backend",
+        JSON.stringify([{ customId: "a", name: "Renamed" }]),
+      );
+
+      expect(await priorities()).toEqual({ a: 3 });
+    });
+
+    it("should reject unknown priorities before writing", async () => {
+      await expect(
+        add(
+          dbConnection,
+          "backend",
+          JSON.stringify([
+            { customId: "a" },
+            { customId: "b", priority: "urgent" },
+          ]),
+        ),
+      ).rejects.toThrow("Unknown priority 'urgent'");
+
+      expect(await priorities()).toEqual({});
+    });
+  });
+
+  describe("due and start dates", () => {
+    beforeEach(() => {
+      vi.useFakeTimers({ toFake: ["Date"] });
+      vi.setSystemTime(new Date(2025, 5, 11, 12, 0));
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    const getTask = async (customId: string) => {
+      const [task] = await dbConnection.db
+        .select()
+        .from(schema.tasks)
+        .where(eq(schema.tasks.customId, customId));
+      return task;
+    };
+
+    it("should accept ISO and relative dates", async () => {
+      await add(
+        dbConnection,
+        "backend",
+        JSON.stringify([
+          { customId: "a", startAt: "2025-06-01", dueAt: "+3d" },
+          { customId: "b", dueAt: "2025-06-20T15:30:00Z" },
+          { customId: "c", startAt: "tomorrow" },
+        ]),
+      );
+
+      const a = await getTask("a");
+      expect(a.startAt).toEqual(new Date(2025, 5, 1));
+      expect(a.dueAt).toEqual(new Date(2025, 5, 14, 12, 0));
+      expect((await getTask("b")).dueAt).toEqual(
+        new Date("2025-06-20T15:30:00Z"),
+      );
+      const c = await getTask("c");
+      expect(c.startAt).toEqual(new Date(2025, 5, 12));
+      expect(c.dueAt).toBeNull();
+    });
+
+    it("should keep dates when omitted and clear them with null", async () => {
+      await add(
+        dbConnection,
+        "backend",
+        JSON.stringify([{ customId: "a", startAt: "today", dueAt: "+1w" }]),
+      );
+      await add(
+        dbConnection,
+        "backend",
+        JSON.stringify([{ customId: "a", dueAt: null }]),
+      );
+
+      const task = await getTask("a");
+      expect(task.startAt).toEqual(new Date(2025, 5, 11));
+      expect(task.dueAt).toBeNull();
+    });
+
+    it("should reject invalid dates before writing", async () => {
+      await expect(
+        add(
+          dbConnection,
+          "backend",
+          JSON.stringify([
+            { customId: "a" },
+            { customId: "b", dueAt: "next tuesday" },
+          ]),
+        ),
+      ).rejects.toThrow("Invalid dueAt 'next tuesday' for task 'b'");
+
+      expect(await dbConnection.db.select().from(schema.tasks)).toEqual([]);
+    });
+  });
+
+  describe("tags", () => {
+    it("should store normalized tags", async () => {
+      await add(
+        dbConnection,
+        "backend",
+        JSON.stringify([
+          { customId: "a", tags: ["Security", "tech-debt", "security"] },
+          { customId: "b", tags: ["security"] },
+        ]),
+      );
+
+      const tasks = await withTags(
+        dbConnection,
+        await dbConnection.db.select().from(schema.tasks),
+      );
+      expect(tasks.map((task) => task.tags)).toEqual([
+        ["security", "tech-debt"],
+        ["security"],
+      ]);
+      expect(await dbConnection.db.select().from(schema.tags)).toHaveLength(2);
+    });
+
+    it("should replace tags when given and keep them when omitted", async () => {
+      await add(
+        dbConnection,
+        "backend",
+        JSON.stringify([{ customId: "a", tags: ["security", "api"] }]),
+      );
+      await add(
+        dbConnection,
+        "backend",
+        JSON.stringify([{ customId: "a", name: "Renamed" }]),
+      );
+      const [kept] = await withTags(
+        dbConnection,
+        await dbConnection.db.select().from(schema.tasks),
+      );
+      expect(kept.tags).toEqual(["api", "security"]);
+
+      await add(
+        dbConnection,
+        "backend",
+        JSON.stringify([{ customId: "a", tags: ["api"] }]),
+      );
+      const [replaced] = await withTags(
+        dbConnection,
+        await dbConnection.db.select().from(schema.tasks),
+      );
+      expect(replaced.tags).toEqual(["api"]);
+      // Tags no task uses anymore are dropped
+      expect(
+        (await dbConnection.db.select().from(schema.tags)).map((t) => t.name),
+      ).toEqual(["api"]);
+    });
+
+    it("should reject invalid tags before writing", async () => {
+      await expect(
+        add(
+          dbConnection,
+          "backend",
+          JSON.stringify([
+            { customId: "a" },
+            { customId: "b", tags: ["tech debt"] },
+          ]),
+        ),
+      ).rejects.toThrow("Invalid tag 'tech debt'");
+
+      expect(await dbConnection.db.select().from(schema.tasks)).toEqual([]);
+    });
+  });
+
+  describe("estimates", () => {
+    it("should store, keep and clear estimates", async () => {
+      await add(
+        dbConnection,
+        "backend",
+        JSON.stringify([
+          { customId: "a", estimate: 3 },
+          { customId: "b", estimate: 1.5 },
+        ]),
+      );
+      await add(
+        dbConnection,
+        "backend",
+        JSON.stringify([
+          { customId: "a", name: "Renamed" },
+          { customId: "b", estimate: null },
+        ]),
+      );
+
+      const tasks = await dbConnection.db.select().from(schema.tasks);
+      expect(tasks.map((task) => task.estimate)).toEqual([3, null]);
+    });
+
+    it("should reject negative estimates", async () => {
+      const consoleErrorSpy = vi
+        .spyOn(console, "error")
+        .mockImplementation(() => {});
+
+      await expect(
+        add(
+          dbConnection,
+          "backend",
+          JSON.stringify([{ customId: "a", estimate: -1 }]),
+        ),
+      ).rejects.toThrow();
+      expect(await dbConnection.db.select().from(schema.tasks)).toEqual([]);
+
+      consoleErrorSpy.mockRestore();
+    });
+  });
+
+  describe("recurrence", () => {
+    it("should store normalized recurrence rules", async () => {
+      await add(
+        dbConnection,
+        "chores",
+        JSON.stringify([
+          { customId: "a", recurrence: "Weekly" },
+          { customId: "b", recurrence: "every  2 Months" },
+        ]),
+      );
+
+      const tasks = await dbConnection.db.select().from(schema.tasks);
+      expect(tasks.map((task) => task.recurrence)).toEqual([
+        "weekly",
+        "every 2 months",
+      ]);
+    });
+
+    it("should reject unknown recurrence rules before writing", async () => {
+      await expect(
+        add(
+          dbConnection,
+          "chores",
+          JSON.stringify([
+            { customId: "a" },
+            { customId: "b", recurrence: "fortnightly" },
+          ]),
+        ),
+      ).rejects.toThrow("Invalid recurrence 'fortnightly' for task 'b'");
+
+      expect(await dbConnection.db.select().from(schema.tasks)).toEqual([]);
+    });
+  });
+
+  describe("archived tasks", () => {
+    it("should restore an archived task when it is upserted", async () => {
+      await dbConnection.db.insert(schema.tasks).values({
+        customId: "a",
+        category: "backend",
+        archivedAt: new Date(),
+      });
+
+      await add(
+        dbConnection,
+        "backend",
+        JSON.stringify([{ customId: "a", name: "Back again" }]),
+      );
+
+      const [task] = await dbConnection.db.select().from(schema.tasks);
+      expect(task.name).toBe("Back again");
+      expect(task.archivedAt).toBeNull();
+    });
+  });
+
+  describe("atomic batches", () => {
+    it("should write nothing when a task fails mid-batch", async () => {
+      await add(
+        dbConnection,
+        "backend",
+        JSON.stringify([{ customId: "a", name: "Original" }]),
+      );
+      dbConnection.sqlite.exec(`
+        CREATE TRIGGER reject_bad BEFORE INSERT ON tasks
+        WHEN NEW.customId = 'bad'
+        BEGIN SELECT RAISE(ABORT, 'rejected'); END
+      `);
+      const consoleErrorSpy = vi
+        .spyOn(console, "error")
+        .mockImplementation(() => {});
+
+      await expect(
+        add(
+          dbConnection,
+          "backend",
+          JSON.stringify([
+            { customId: "a", name: "Renamed", tags: ["x"] },
+            { customId: "b", name: "New" },
+            { customId: "bad" },
+          ]),
+        ),
+      ).rejects.toThrow("rejected");
+
+      const tasks = await dbConnection.db.select().from(schema.tasks);
+      expect(tasks.map((t) => [t.customId, t.name])).toEqual([
+        ["a", "Original"],
+      ]);
+      expect(await dbConnection.db.select().from(schema.taskTags)).toEqual([]);
+      expect(await dbConnection.db.select().from(schema.journal)).toHaveLength(
+        1,
+      );
+
+      consoleErrorSpy.mockRestore();
+    });
+  });
+
+  describe("summary and dry run", () => {
+    beforeEach(async () => {
+      await add(
+        dbConnection,
+        "backend",
+        JSON.stringify([
+          { customId: "a", name: "Alpha", tags: ["api"] },
+          { customId: "b", name: "Beta", priority: "high" },
+        ]),
+      );
+    });
+
+    it("should count created, updated and unchanged tasks", async () => {
+      const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+      await add(
+        dbConnection,
+        "backend",
+        JSON.stringify([
+          { customId: "a", name: "Alpha v2" },
+          { customId: "b", name: "Beta" },
+          { customId: "c", name: "Gamma" },
+        ]),
+      );
+
+      expect(consoleSpy).toHaveBeenCalledWith(
+        "Upserted 3 tasks to category 'backend': 1 created, 1 updated, 1 unchanged",
+      );
+
+      consoleSpy.mockRestore();
+    });
+
+    it("should print a field-level diff without writing", async () => {
+      const before = await dbConnection.db.select().from(schema.tasks);
+      const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+      await add(
+        dbConnection,
+        "backend",
+        JSON.stringify([
+          { customId: "a", name: "Alpha v2", tags: ["api", "urgent"] },
+          { customId: "b", priority: "high" },
+          { customId: "c", name: "Gamma", dependsOn: ["a"], parent: "b" },
+        ]),
+        undefined,
+        { dryRun: true },
+      );
+
+      expect(consoleSpy.mock.calls.map(([line]) => line)).toEqual([
+        "update a",
+        '  name: "Alpha" -> "Alpha v2"',
+        '  tags: ["api"] -> ["api","urgent"]',
+        "unchanged b",
+        "create c",
+        "Dry run for category 'backend': 1 to create, 1 to update, 1 unchanged (nothing was written)",
+      ]);
+      expect(await dbConnection.db.select().from(schema.tasks)).toEqual(before);
+      expect(await dbConnection.db.select().from(schema.taskTags)).toHaveLength(
+        1,
+      );
+      expect(await dbConnection.db.select().from(schema.journal)).toHaveLength(
+        1,
+      );
+
+      consoleSpy.mockRestore();
+    });
+
+    it("should still validate the batch in a dry run", async () => {
+      const consoleErrorSpy = vi
+        .spyOn(console, "error")
+        .mockImplementation(() => {});
+
+      await expect(
+        add(
+          dbConnection,
+          "backend",
+          JSON.stringify([{ customId: "c", dependsOn: ["missing"] }]),
+          undefined,
+          { dryRun: true },
+        ),
+      ).rejects.toThrow("Unknown dependency 'missing'");
+
+      consoleErrorSpy.mockRestore();
+    });
+  });
+
+  describe("merge mode", () => {
+    beforeEach(async () => {
+      await add(
+        dbConnection,
+        "backend",
+        JSON.stringify([
+          {
+            customId: "a",
+            name: "Alpha",
+            description: "First",
+            status: "done",
+            comment: "Shipped",
+          },
+        ]),
+      );
+    });
+
+    it("should reset an omitted status when replacing", async () => {
+      await add(
+        dbConnection,
+        "backend",
+        JSON.stringify([{ customId: "a", name: "Alpha v2" }]),
+      );
+
+      const [task] = await dbConnection.db.select().from(schema.tasks);
+      expect(task.status).toBe("wip");
+    });
+
+    it("should only change the given fields when merging", async () => {
+      await add(
+        dbConnection,
+        "backend",
+        JSON.stringify([
+          { customId: "a", name: "Alpha v2" },
+          { customId: "b", name: "Beta" },
+        ]),
+        undefined,
+        { mode: "merge" },
+      );
+
+      const tasks = await dbConnection.db.select().from(schema.tasks);
+      expect(
+        tasks.map((t) => [t.customId, t.name, t.description, t.status]),
+      ).toEqual([
+        ["a", "Alpha v2", "First", "done"],
+        ["b", "Beta", null, "wip"],
+      ]);
+      expect(tasks[0].comment).toBe("Shipped");
+    });
+
+    it("should keep archived tasks archived when merging", async () => {
+      await dbConnection.db
+        .update(schema.tasks)
+        .set({ archivedAt: new Date() });
+
+      await add(
+        dbConnection,
+        "backend",
+        JSON.stringify([{ customId: "a", priority: "high" }]),
+        undefined,
+        { mode: "merge" },
+      );
+
+      const [task] = await dbConnection.db.select().from(schema.tasks);
+      expect(task.priority).toBe(3);
+      expect(task.archivedAt).not.toBeNull();
+    });
+
+    it("should check subtasks against the kept status", async () => {
+      const consoleErrorSpy = vi
+        .spyOn(console, "error")
+        .mockImplementation(() => {});
+
+      await expect(
+        add(
+          dbConnection,
+          "backend",
+          JSON.stringify([{ customId: "a-1", parent: "a" }]),
+          undefined,
+          { mode: "merge" },
+        ),
+      ).rejects.toThrow(
+        "Task 'a' cannot be done while subtask 'a-1' is not done",
+      );
+
+      consoleErrorSpy.mockRestore();
+    });
+  });
+
+  describe("input formats", () => {
+    it("should read JSON Lines from a stream", async () => {
+      const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+      await add(
+        dbConnection,
+        "backend",
+        Readable.from([
+          '{"customId": "a", "name": "Al',
+          'pha"}\n{"customId": "b"}\n',
+        ]),
+      );
+
+      const tasks = await dbConnection.db.select().from(schema.tasks);
+      expect(tasks.map((t) => [t.customId, t.name])).toEqual([
+        ["a", "Alpha"],
+        ["b", null],
+      ]);
+      expect(consoleSpy).toHaveBeenCalledWith(
+        "Upserted 2 tasks to category 'backend': 2 created, 0 updated, 0 unchanged",
+      );
+
+      consoleSpy.mockRestore();
+    });
+
+    it("should point at the offending task", async () => {
+      const consoleErrorSpy = vi
+        .spyOn(console, "error")
+        .mockImplementation(() => {});
+
+      await expect(
+        add(
+          dbConnection,
+          "backend",
+          '{"customId": "a"}\n{"customId": "b", "priority": "urgent"}',
+        ),
+      ).rejects.toThrow("Unknown priority 'urgent'");
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        expect.stringMatching(/at index 1 \(line 2\)$/),
+      );
+      expect(await dbConnection.db.select().from(schema.tasks)).toEqual([]);
+
+      consoleErrorSpy.mockRestore();
+    });
+
+    it("should reject priorities named like object properties", async () => {
+      const consoleErrorSpy = vi
+        .spyOn(console, "error")
+        .mockImplementation(() => {});
+
+      for (const priority of ["constructor", "__proto__", "toString"]) {
+        await expect(
+          add(
+            dbConnection,
+            "backend",
+            JSON.stringify([{ customId: "p1", priority }]),
+          ),
+        ).rejects.toThrow(
+          `Unknown priority '${priority}' (expected an integer or one of: low, medium, high, critical) at index 0 (line 1)`,
+        );
+      }
+      expect(await dbConnection.db.select().from(schema.tasks)).toEqual([]);
+
+      consoleErrorSpy.mockRestore();
+    });
+  });
 });
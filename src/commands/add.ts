@@ -1,56 +1,62 @@
-import { z } from "zod/v4";
-import { schema } from "../db";
+import type { UpsertMode } from "../utils/config";
 import type { DatabaseConnection } from "../utils/db";
+import {
+  readTasks,
+  TaskInputError,
+  type TaskSource,
+} from "../utils/task-input";
+import {
+  convertTask,
+  countChanges,
+  describeChanges,
+  upsertTasks,
+} from "../utils/upsert";
+import { defaultWorkflow, type Workflow } from "../utils/workflow";
 
-const taskSchema = z.object({
-  customId: z.string(),
-  name: z.string().optional(),
-  description: z.string().optional(),
-  status: z.enum(["wip", "done"]).optional(),
-  comment: z.string().optional(),
-});
+export interface AddOptions {
+  /** How omitted fields of existing tasks are treated (default: replace) */
+  mode?: UpsertMode;
+  /** Report what would change without writing anything */
+  dryRun?: boolean;
+}
 
+/**
+ * Upsert tasks by customId from a JSON array or JSON Lines
+ * The whole input is written in one transaction, so a failing task leaves the database untouched
+ */
 export async function add(
   dbConnection: DatabaseConnection,
   category: string,
-  jsonArray: string,
+  input: TaskSource,
+  workflow: Workflow = defaultWorkflow,
+  options: AddOptions = {},
 ) {
-  const { db } = dbConnection;
-
   try {
-    const parsed = JSON.parse(jsonArray);
-    const tasks = z.array(taskSchema).parse(parsed);
+    const tasks = await readTasks(input, (task) => convertTask(task, workflow));
+
+    const changes = await upsertTasks(dbConnection, category, tasks, workflow, {
+      ...options,
+      command: `add ${category}`,
+    });
+
+    const counts = countChanges(changes);
 
-    for (const task of tasks) {
-      await db
-        .insert(schema.tasks)
-        .values({
-          customId: task.customId,
-          category,
-          name: task.name,
-          description: task.description,
-          status: task.status || "wip",
-          comment: task.comment,
-        })
-        .onConflictDoUpdate({
-          target: [schema.tasks.customId, schema.tasks.category],
-          set: {
-            name: task.name,
-            description: task.description,
-            status: task.status || "wip",
-            comment: task.comment,
-          },
-        });
+    if (options.dryRun) {
+      for (const line of describeChanges(changes)) {
+        console.log(line);
+      }
+      console.log(
+        `Dry run for category '${category}': ${counts.create} to create, ${counts.update} to update, ${counts.unchanged} unchanged (nothing was written)`,
+      );
+      return;
     }
 
     console.log(
-      `Successfully upserted ${tasks.length} tasks to category '${category}'`,
+      `Upserted ${changes.length} tasks to category '${category}': ${counts.create} created, ${counts.update} updated, ${counts.unchanged} unchanged`,
     );
   } catch (error) {
-    if (error instanceof z.ZodError) {
-      console.error("Invalid JSON format:", error.issues);
-    } else if (error instanceof SyntaxError) {
-      console.error("Invalid JSON:", error.message);
+    if (error instanceof TaskInputError) {
+      console.error(error.message);
     } else {
       console.error("Failed to add tasks:", error);
     }
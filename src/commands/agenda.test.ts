@@ -0,0 +1,172 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { migrate } from "drizzle-orm/better-sqlite3/migrator";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { agenda } from "./agenda";
+import { getTestDb } from "../utils/db";
+import { schema } from "../db";
+import type { DatabaseConnection } from "../utils/db";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+describe("agenda command", () => {
+  let dbConnection: DatabaseConnection;
+
+  beforeEach(async () => {
+    // Wednesday noon, local time
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date(2025, 5, 11, 12, 0));
+
+    dbConnection = getTestDb();
+    const migrationsFolder = path.join(__dirname, "../db/../../drizzle");
+    migrate(dbConnection.db, { migrationsFolder });
+
+    await dbConnection.db.insert(schema.tasks).values([
+      {
+        customId: "yesterday",
+        category: "backend",
+        status: "wip",
+        dueAt: new Date(2025, 5, 10),
+      },
+      {
+        customId: "today",
+        category: "backend",
+        status: "wip",
+        dueAt: new Date(2025, 5, 11),
+      },
+      {
+        customId: "this-morning",
+        category: "backend",
+        status: "wip",
+        dueAt: new Date(2025, 5, 11, 9, 0),
+      },
+      {
+        customId: "started",
+        category: "backend",
+        status: "wip",
+        startAt: new Date(2025, 5, 1),
+      },
+      {
+        customId: "saturday",
+        category: "backend",
+        status: "wip",
+        dueAt: new Date(2025, 5, 14),
+      },
+      {
+        customId: "next-week",
+        category: "backend",
+        status: "wip",
+        dueAt: new Date(2025, 5, 20),
+      },
+      { customId: "undated", category: "backend", status: "wip" },
+      {
+        customId: "finished",
+        category: "backend",
+        status: "done",
+        dueAt: new Date(2025, 5, 10),
+      },
+      {
+        customId: "ui",
+        category: "frontend",
+        status: "wip",
+        dueAt: new Date(2025, 5, 12),
+      },
+    ]);
+  });
+
+  afterEach(() => {
+    dbConnection.sqlite.close();
+    vi.useRealTimers();
+  });
+
+  /** Map section titles to the customIds listed under them */
+  const sectionsOf = (consoleSpy: ReturnType<typeof vi.spyOn>) => {
+    const sections: Record<string, string[]> = {};
+    let current: string[] = [];
+    for (const [line] of consoleSpy.mock.calls as [string][]) {
+      const cells = line.split(" | ").map((cell) => cell.trim());
+      if (cells.length === 1 && line !== "" && !line.includes("-+-")) {
+        current = [];
+        sections[line] = current;
+      } else if (cells.length > 1 && cells[0] !== "ID") {
+        current.push(cells[2]);
+      }
+    }
+    return sections;
+  };
+
+  it("should group scheduled wip tasks by due date", async () => {
+    const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+    await agenda(dbConnection, "backend");
+
+    expect(sectionsOf(consoleSpy)).toEqual({
+      "Overdue (2)": ["yesterday", "this-morning"],
+      "Today (2)": ["started", "today"],
+      "This week (1)": ["saturday"],
+      "Later (1)": ["next-week"],
+    });
+
+    consoleSpy.mockRestore();
+  });
+
+  it("should cover several categories", async () => {
+    const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+    await agenda(dbConnection, "*");
+
+    expect(sectionsOf(consoleSpy)["This week (2)"]).toEqual(["ui", "saturday"]);
+    expect(consoleSpy.mock.calls[1][0]).toContain("Category");
+
+    consoleSpy.mockRestore();
+  });
+
+  it("should show start and due dates", async () => {
+    const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+    await agenda(dbConnection, "backend");
+
+    const lines = consoleSpy.mock.calls.map(([line]) => line as string);
+    expect(lines.find((line) => line.includes("this-morning"))).toContain(
+      "2025-06-11 09:00",
+    );
+    expect(lines.find((line) => line.includes("started"))).toContain(
+      "2025-06-01",
+    );
+
+    consoleSpy.mockRestore();
+  });
+
+  it("should order tasks due at the same time by priority", async () => {
+    await dbConnection.db.insert(schema.tasks).values({
+      customId: "urgent-saturday",
+      category: "backend",
+      status: "wip",
+      priority: 4,
+      dueAt: new Date(2025, 5, 14),
+    });
+    const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+    await agenda(dbConnection, "backend");
+
+    expect(sectionsOf(consoleSpy)["This week (2)"]).toEqual([
+      "urgent-saturday",
+      "saturday",
+    ]);
+
+    consoleSpy.mockRestore();
+  });
+
+  it("should display message when nothing is scheduled", async () => {
+    const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+    await agenda(dbConnection, "docs");
+
+    expect(consoleSpy).toHaveBeenCalledWith(
+      "No scheduled tasks in category 'docs'",
+    );
+
+    consoleSpy.mockRestore();
+  });
+});
@@ -0,0 +1,93 @@
+import { and, asc, desc, inArray, isNotNull, or, sql } from "drizzle-orm";
+import { schema } from "../db";
+import type { Task } from "../db/schema";
+import { formatDate } from "../utils/date";
+import type { DatabaseConnection } from "../utils/db";
+import { getPriorityLabel } from "../utils/priority";
+import {
+  archivedCondition,
+  categoryCondition,
+  describeCategories,
+} from "../utils/query";
+import {
+  type AgendaGroup,
+  agendaGroupLabels,
+  agendaGroups,
+  getAgendaGroup,
+} from "../utils/schedule";
+import { renderTable, type TableColumn } from "../utils/table";
+import { defaultWorkflow, type Workflow } from "../utils/workflow";
+
+/**
+ * Print actionable tasks with a due or start date, grouped into
+ * overdue, today, this week and later
+ */
+export async function agenda(
+  dbConnection: DatabaseConnection,
+  category: string,
+  workflow: Workflow = defaultWorkflow,
+) {
+  const { db } = dbConnection;
+
+  try {
+    const tasks = await db
+      .select()
+      .from(schema.tasks)
+      .where(
+        and(
+          categoryCondition(category),
+          archivedCondition(),
+          inArray(schema.tasks.status, workflow.actionable),
+          or(isNotNull(schema.tasks.dueAt), isNotNull(schema.tasks.startAt)),
+        ),
+      )
+      .orderBy(
+        sql`coalesce(${schema.tasks.dueAt}, ${schema.tasks.startAt})`,
+        desc(schema.tasks.priority),
+        asc(schema.tasks.id),
+      );
+
+    if (tasks.length === 0) {
+      console.log(`No scheduled tasks in ${describeCategories(category)}`);
+      return;
+    }
+
+    const now = new Date();
+    const groups = new Map<AgendaGroup, Task[]>();
+    for (const task of tasks) {
+      const group = getAgendaGroup(task, now);
+      if (group === null) continue;
+      groups.set(group, [...(groups.get(group) ?? []), task]);
+    }
+
+    const columns: TableColumn<Task>[] = [
+      { header: "ID", value: (task) => task.id.toString() },
+      { header: "Category", value: (task) => task.category },
+      { header: "CustomID", value: (task) => task.customId },
+      { header: "Name", value: (task) => task.name || "" },
+      { header: "Status", value: (task) => task.status || "" },
+      { header: "Priority", value: (task) => getPriorityLabel(task.priority) },
+      {
+        header: "Start",
+        value: (task) => (task.startAt ? formatDate(task.startAt) : ""),
+      },
+      {
+        header: "Due",
+        value: (task) => (task.dueAt ? formatDate(task.dueAt) : ""),
+      },
+    ];
+
+    const sections = agendaGroups.filter((group) => groups.has(group));
+    sections.forEach((group, i) => {
+      const rows = groups.get(group) ?? [];
+      if (i > 0) console.log("");
+      console.log(`${agendaGroupLabels[group]} (${rows.length})`);
+      for (const line of renderTable(columns, rows)) {
+        console.log(line);
+      }
+    });
+  } catch (error) {
+    console.error("Failed to show agenda:", error);
+    throw error;
+  }
+}
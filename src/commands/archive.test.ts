@@ -0,0 +1,78 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { migrate } from "drizzle-orm/better-sqlite3/migrator";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { archiveList } from "./archive";
+import { getTestDb } from "../utils/db";
+import { schema } from "../db";
+import type { DatabaseConnection } from "../utils/db";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+describe("archive list command", () => {
+  let dbConnection: DatabaseConnection;
+
+  beforeEach(async () => {
+    dbConnection = getTestDb();
+    const migrationsFolder = path.join(__dirname, "../db/../../drizzle");
+    migrate(dbConnection.db, { migrationsFolder });
+
+    await dbConnection.db.insert(schema.tasks).values([
+      {
+        customId: "old-api",
+        category: "backend",
+        name: "Old API",
+        status: "done",
+        archivedAt: new Date(2025, 0, 31),
+      },
+      { customId: "api", category: "backend", status: "wip" },
+      {
+        customId: "old-ui",
+        category: "frontend",
+        status: "wip",
+        archivedAt: new Date(2025, 1, 1, 9, 30),
+      },
+    ]);
+  });
+
+  afterEach(() => {
+    dbConnection.sqlite.close();
+  });
+
+  it("should list only archived tasks", async () => {
+    const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+    await archiveList(dbConnection, "*", { sort: "id" });
+
+    const lines = consoleSpy.mock.calls.map((call) =>
+      (call[0] as string).split(" | ").map((part) => part.trim()),
+    );
+    expect(lines[0]).toEqual([
+      "ID",
+      "Category",
+      "CustomID",
+      "Name",
+      "Status",
+      "Archived",
+    ]);
+    expect(lines.slice(2)).toEqual([
+      ["1", "backend", "old-api", "Old API", "done", "2025-01-31"],
+      ["3", "frontend", "old-ui", "", "wip", "2025-02-01 09:30"],
+    ]);
+
+    consoleSpy.mockRestore();
+  });
+
+  it("should display message when nothing is archived", async () => {
+    const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+    await archiveList(dbConnection, "docs");
+
+    expect(consoleSpy).toHaveBeenCalledWith(
+      "No archived tasks in category 'docs'",
+    );
+
+    consoleSpy.mockRestore();
+  });
+});
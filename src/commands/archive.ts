@@ -0,0 +1,51 @@
+import type { DatabaseConnection } from "../utils/db";
+import { formatDate } from "../utils/date";
+import {
+  categoryCondition,
+  describeCategories,
+  queryTasks,
+  type TaskQuery,
+} from "../utils/query";
+import { renderTable } from "../utils/table";
+
+/**
+ * Print the archived tasks of one or more categories
+ */
+export async function archiveList(
+  dbConnection: DatabaseConnection,
+  category: string,
+  query: TaskQuery = {},
+) {
+  try {
+    const tasks = await queryTasks(dbConnection, categoryCondition(category), {
+      ...query,
+      archived: "only",
+    });
+
+    if (tasks.length === 0) {
+      console.log(`No archived tasks in ${describeCategories(category)}`);
+      return;
+    }
+
+    const lines = renderTable(
+      [
+        { header: "ID", value: (task) => task.id.toString() },
+        { header: "Category", value: (task) => task.category },
+        { header: "CustomID", value: (task) => task.customId },
+        { header: "Name", value: (task) => task.name || "" },
+        { header: "Status", value: (task) => task.status || "" },
+        {
+          header: "Archived",
+          value: (task) => (task.archivedAt ? formatDate(task.archivedAt) : ""),
+        },
+      ],
+      tasks,
+    );
+    for (const line of lines) {
+      console.log(line);
+    }
+  } catch (error) {
+    console.error("Failed to list archived tasks:", error);
+    throw error;
+  }
+}
@@ -5,6 +5,8 @@ import path from "node:path";
 import { fileURLToPath } from "node:url";
 import { done } from "./done";
 import { getTestDb } from "../utils/db";
+import { getEvents } from "../utils/events";
+import { addTaskTags, getTags } from "../utils/tags";
 import { schema } from "../db";
 import type { DatabaseConnection } from "../utils/db";
 
@@ -590,4 +592,189 @@ describe("done command", () => {
       consoleSpy.mockRestore();
     });
   });
+
+  describe("subtasks", () => {
+    it("should reject completing a parent with unfinished subtasks", async () => {
+      await dbConnection.db
+        .update(schema.tasks)
+        .set({ parentId: 1 })
+        .where(eq(schema.tasks.id, 2));
+
+      const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+
+      await expect(
+        done(dbConnection, "development", "task-001"),
+      ).rejects.toThrow("Task has unfinished subtasks: task-001");
+      expect(errorSpy).toHaveBeenCalledWith(
+        "Task task-001 has unfinished subtasks: task-002",
+      );
+
+      const [task] = await dbConnection.db
+        .select()
+        .from(schema.tasks)
+        .where(eq(schema.tasks.id, 1));
+      expect(task.status).toBe("wip");
+
+      errorSpy.mockRestore();
+    });
+
+    it("should complete a parent once all subtasks are done", async () => {
+      await dbConnection.db
+        .update(schema.tasks)
+        .set({ parentId: 1 })
+        .where(eq(schema.tasks.id, 2));
+
+      const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+      await done(dbConnection, "development", "task-002");
+      await done(dbConnection, "development", "task-001");
+
+      const [task] = await dbConnection.db
+        .select()
+        .from(schema.tasks)
+        .where(eq(schema.tasks.id, 1));
+      expect(task.status).toBe("done");
+
+      consoleSpy.mockRestore();
+    });
+
+    it("should complete a parent whose unfinished subtasks are archived", async () => {
+      await dbConnection.db
+        .update(schema.tasks)
+        .set({ parentId: 1, archivedAt: new Date() })
+        .where(eq(schema.tasks.id, 2));
+
+      const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+      await done(dbConnection, "development", "task-001");
+
+      const [task] = await dbConnection.db
+        .select()
+        .from(schema.tasks)
+        .where(eq(schema.tasks.id, 1));
+      expect(task.status).toBe("done");
+
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe("recurring tasks", () => {
+    beforeEach(async () => {
+      // Wednesday noon, local time
+      vi.useFakeTimers({ toFake: ["Date"] });
+      vi.setSystemTime(new Date(2025, 5, 11, 12, 0));
+
+      await dbConnection.db.insert(schema.tasks).values({
+        id: 10,
+        customId: "deps-audit",
+        category: "chores",
+        name: "Audit dependencies",
+        status: "wip",
+        priority: 3,
+        estimate: 1,
+        recurrence: "weekly",
+        startAt: new Date(2025, 5, 11),
+        dueAt: new Date(2025, 5, 13),
+      });
+      await addTaskTags(dbConnection, 10, ["maintenance"]);
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    const getTask = async (customId: string) => {
+      const [task] = await dbConnection.db
+        .select()
+        .from(schema.tasks)
+        .where(eq(schema.tasks.customId, customId));
+      return task;
+    };
+
+    it("should spawn the next occurrence", async () => {
+      const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+      await done(dbConnection, "chores", "deps-audit");
+
+      expect(consoleSpy).toHaveBeenCalledWith(
+        "Next occurrence: deps-audit-2025-06-20 (due 2025-06-20)",
+      );
+      const next = await getTask("deps-audit-2025-06-20");
+      expect(next).toMatchObject({
+        category: "chores",
+        name: "Audit dependencies",
+        status: "wip",
+        priority: 3,
+        estimate: 1,
+        recurrence: "weekly",
+        startAt: new Date(2025, 5, 18),
+        dueAt: new Date(2025, 5, 20),
+      });
+      expect((await getTags(dbConnection, [next.id])).get(next.id)).toEqual([
+        "maintenance",
+      ]);
+
+      consoleSpy.mockRestore();
+    });
+
+    it("should link occurrences in their history", async () => {
+      const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+      await done(dbConnection, "chores", "deps-audit");
+      const next = await getTask("deps-audit-2025-06-20");
+      vi.setSystemTime(new Date(2025, 5, 20, 9, 0));
+      await done(dbConnection, "chores", next.customId);
+
+      expect(
+        (await getEvents(dbConnection, 10)).map((event) => event.comment),
+      ).toContain("Next occurrence: deps-audit-2025-06-20");
+      expect(
+        (await getEvents(dbConnection, next.id))
+          .filter((event) => event.type === "recurrence")
+          .map((event) => event.comment),
+      ).toEqual([
+        "Previous occurrence: deps-audit",
+        "Next occurrence: deps-audit-2025-06-27",
+      ]);
+
+      consoleSpy.mockRestore();
+    });
+
+    it("should skip occurrences that are already past", async () => {
+      vi.setSystemTime(new Date(2025, 5, 25, 12, 0));
+      const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+      await done(dbConnection, "chores", "deps-audit");
+
+      expect(await getTask("deps-audit-2025-06-27")).toBeDefined();
+      expect(await getTask("deps-audit-2025-06-20")).toBeUndefined();
+
+      consoleSpy.mockRestore();
+    });
+
+    it("should not spawn again for a task that was already done", async () => {
+      const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+      await done(dbConnection, "chores", "deps-audit");
+      await done(dbConnection, "chores", "deps-audit", "Noted");
+
+      const tasks = await dbConnection.db
+        .select()
+        .from(schema.tasks)
+        .where(eq(schema.tasks.category, "chores"));
+      expect(tasks).toHaveLength(2);
+
+      consoleSpy.mockRestore();
+    });
+
+    it("should not spawn anything for tasks without a recurrence", async () => {
+      const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+      await done(dbConnection, "development", "task-001");
+
+      expect(consoleSpy).toHaveBeenCalledTimes(1);
+
+      consoleSpy.mockRestore();
+    });
+  });
 });
@@ -1,46 +1,55 @@
-import { eq, and, or } from "drizzle-orm";
-import { schema } from "../db";
-import type { DatabaseConnection } from "../utils/db";
+import { formatDate } from "../utils/date";
+import { type DatabaseConnection, withTransaction } from "../utils/db";
+import { journaled } from "../utils/journal";
+import { spawnNextOccurrence } from "../utils/recurrence";
+import { changeTaskStatus } from "../utils/transition";
 import { handleCommandError } from "../utils/validation";
+import {
+  defaultWorkflow,
+  isDoneStatus,
+  type Workflow,
+} from "../utils/workflow";
 
 export async function done(
   dbConnection: DatabaseConnection,
   category: string,
   idOrCustomId: string,
   comment?: string,
+  workflow: Workflow = defaultWorkflow,
 ) {
-  const { db } = dbConnection;
-
   try {
-    // Try to parse as number for id (only positive integers are considered valid IDs)
-    const id = Number.parseInt(idOrCustomId, 10);
-    const isValidNumericId =
-      !Number.isNaN(id) && id > 0 && /^\d+$/.test(idOrCustomId);
-
-    const result = await db
-      .update(schema.tasks)
-      .set({
-        status: "done",
-        comment: comment || null,
-      })
-      .where(
-        and(
-          eq(schema.tasks.category, category),
-          or(
-            isValidNumericId ? eq(schema.tasks.id, id) : undefined,
-            eq(schema.tasks.customId, idOrCustomId),
-          ),
-        ),
-      );
+    // The next occurrence is only scheduled along with the change of status
+    await withTransaction(dbConnection, () =>
+      journaled(dbConnection, `done ${category} ${idOrCustomId}`, async () => {
+        const { taskId, previousStatus } = await changeTaskStatus(
+          dbConnection,
+          category,
+          idOrCustomId,
+          "done",
+          comment,
+          workflow,
+        );
 
-    if (result.changes === 0) {
-      console.error(
-        `Task not found with ${isValidNumericId ? "id" : "customId"}: ${idOrCustomId} in category '${category}'`,
-      );
-      throw new Error(`Task not found: ${idOrCustomId}`);
-    }
+        console.log(`Task ${idOrCustomId} marked as done`);
 
-    console.log(`Task ${idOrCustomId} marked as done`);
+        // Finishing an occurrence of a recurring task schedules the next one
+        if (
+          previousStatus === null ||
+          !isDoneStatus(workflow, previousStatus)
+        ) {
+          const next = await spawnNextOccurrence(
+            dbConnection,
+            taskId,
+            workflow,
+          );
+          if (next?.dueAt) {
+            console.log(
+              `Next occurrence: ${next.customId} (due ${formatDate(next.dueAt)})`,
+            );
+          }
+        }
+      }),
+    );
   } catch (error) {
     handleCommandError("mark task as done", error);
   }
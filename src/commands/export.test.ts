@@ -0,0 +1,149 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { migrate } from "drizzle-orm/better-sqlite3/migrator";
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { exportTasks } from "./export";
+import { add } from "./add";
+import { getTestDb } from "../utils/db";
+import { allCategories } from "../utils/query";
+import { schema } from "../db";
+import type { DatabaseConnection } from "../utils/db";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+describe("export command", () => {
+  let dbConnection: DatabaseConnection;
+  let output: string[];
+
+  beforeEach(async () => {
+    dbConnection = getTestDb();
+    const migrationsFolder = path.join(__dirname, "../db/../../drizzle");
+    migrate(dbConnection.db, { migrationsFolder });
+
+    output = [];
+    vi.spyOn(console, "log").mockImplementation((line) => output.push(line));
+
+    await add(
+      dbConnection,
+      "backend",
+      JSON.stringify([
+        {
+          customId: "api",
+          name: "Build API",
+          priority: "high",
+          tags: ["api"],
+          dueAt: "2030-01-31",
+        },
+        { customId: "api-1", name: "Users endpoint", parent: "api" },
+        { customId: "db", name: "Set up DB", status: "done", estimate: 2 },
+      ]),
+    );
+    await add(
+      dbConnection,
+      "frontend",
+      JSON.stringify([{ customId: "ui", name: "Design UI" }]),
+    );
+    output = [];
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    dbConnection.sqlite.close();
+  });
+
+  it("should export JSON with the category of each task", async () => {
+    await exportTasks(dbConnection, "frontend", "json");
+
+    expect(JSON.parse(output[0])).toEqual([
+      {
+        customId: "ui",
+        category: "frontend",
+        name: "Design UI",
+        description: null,
+        status: "wip",
+        comment: null,
+        priority: "medium",
+        startAt: null,
+        dueAt: null,
+        estimate: null,
+        recurrence: null,
+        tags: [],
+        dependsOn: [],
+        parent: null,
+      },
+    ]);
+  });
+
+  it("should export a Markdown checklist per category with nested subtasks", async () => {
+    await exportTasks(dbConnection, allCategories, "markdown");
+
+    expect(output[0].split("\n")).toEqual([
+      "# backend",
+      "",
+      "- [ ] Build API <!-- id:api priority:high due:2030-01-31 tags:api -->",
+      "  - [ ] Users endpoint <!-- id:api-1 -->",
+      "- [x] Set up DB <!-- id:db estimate:2 -->",
+      "",
+      "# frontend",
+      "",
+      "- [ ] Design UI <!-- id:ui -->",
+    ]);
+  });
+
+  it("should export todo.txt lines", async () => {
+    await exportTasks(dbConnection, "backend", "todotxt");
+
+    expect(output[0].split("\n")).toEqual([
+      "(B) Build API +backend @api id:api due:2030-01-31",
+      "Users endpoint +backend id:api-1 parent:api",
+      "x Set up DB +backend id:db estimate:2",
+    ]);
+  });
+
+  it("should quote CSV fields", async () => {
+    await add(
+      dbConnection,
+      "frontend",
+      JSON.stringify([
+        { customId: "ui", description: 'Say "hi", then\nleave' },
+      ]),
+    );
+    output = [];
+
+    await exportTasks(dbConnection, "frontend", "csv");
+
+    expect(output[0]).toBe(
+      [
+        "customId,category,name,description,status,comment,priority,startAt,dueAt,estimate,recurrence,tags,dependsOn,parent",
+        'ui,frontend,Design UI,"Say ""hi"", then\nleave",wip,,medium,,,,,,,',
+      ].join("\n"),
+    );
+  });
+
+  it("should leave out archived tasks", async () => {
+    await dbConnection.db.update(schema.tasks).set({ archivedAt: new Date() });
+
+    await exportTasks(dbConnection, allCategories, "jsonl");
+
+    expect(output).toEqual([""]);
+  });
+
+  it("should write to a file", async () => {
+    const dir = mkdtempSync(path.join(tmpdir(), "tdlite-export-"));
+    const file = path.join(dir, "tasks.txt");
+
+    try {
+      await exportTasks(dbConnection, "frontend", "todotxt", undefined, {
+        output: file,
+      });
+
+      expect(readFileSync(file, "utf-8")).toBe("Design UI +frontend id:ui\n");
+      expect(output).toEqual([`Exported 1 tasks to ${file}`]);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
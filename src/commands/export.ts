@@ -0,0 +1,47 @@
+import { writeFileSync } from "node:fs";
+import type { DatabaseConnection } from "../utils/db";
+import { categoryCondition, queryTasks } from "../utils/query";
+import {
+  formatTasks,
+  type TaskFormat,
+  toPortableTasks,
+} from "../utils/task-formats";
+import { defaultWorkflow, type Workflow } from "../utils/workflow";
+
+export interface ExportOptions {
+  /** Write to this file instead of stdout */
+  output?: string;
+}
+
+/**
+ * Export the tasks of every category, or of the given ones, except archived tasks
+ */
+export async function exportTasks(
+  dbConnection: DatabaseConnection,
+  category: string,
+  format: TaskFormat,
+  workflow: Workflow = defaultWorkflow,
+  options: ExportOptions = {},
+) {
+  try {
+    const tasks = await queryTasks(dbConnection, categoryCondition(category), {
+      sort: "id",
+    });
+    const text = formatTasks(
+      await toPortableTasks(dbConnection, tasks),
+      format,
+      workflow,
+    );
+
+    if (options.output === undefined) {
+      console.log(text);
+      return;
+    }
+
+    writeFileSync(options.output, `${text}\n`);
+    console.log(`Exported ${tasks.length} tasks to ${options.output}`);
+  } catch (error) {
+    console.error("Failed to export tasks:", error);
+    throw error;
+  }
+}
@@ -345,4 +345,145 @@ describe("get command", () => {
       consoleSpy.mockRestore();
     });
   });
+
+  describe("subtasks", () => {
+    it("should nest subtasks recursively", async () => {
+      await dbConnection.db.insert(schema.tasks).values([
+        { id: 5, customId: "child", category: "test-category", parentId: 1 },
+        {
+          id: 6,
+          customId: "grandchild",
+          category: "test-category",
+          parentId: 5,
+        },
+      ]);
+
+      const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+      await get(dbConnection, "test-category", "task-1");
+
+      const parsed = JSON.parse(consoleSpy.mock.calls[0][0]);
+      expect(parsed.customId).toBe("task-1");
+      expect(parsed.children).toHaveLength(1);
+      expect(parsed.children[0]).toMatchObject({
+        customId: "child",
+        parentId: 1,
+      });
+      expect(parsed.children[0].children[0]).toMatchObject({
+        customId: "grandchild",
+        children: [],
+      });
+
+      consoleSpy.mockRestore();
+    });
+
+    it("should keep parentId when getting a subtask", async () => {
+      await dbConnection.db.insert(schema.tasks).values({
+        id: 5,
+        customId: "child",
+        category: "test-category",
+        parentId: 1,
+      });
+
+      const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+      await get(dbConnection, "test-category", "child");
+
+      const parsed = JSON.parse(consoleSpy.mock.calls[0][0]);
+      expect(parsed).toMatchObject({ customId: "child", parentId: 1 });
+      expect(parsed.children).toEqual([]);
+
+      consoleSpy.mockRestore();
+    });
+
+    it("should leave out archived subtasks but not an archived task itself", async () => {
+      await dbConnection.db.insert(schema.tasks).values([
+        { id: 5, customId: "child", category: "test-category", parentId: 1 },
+        {
+          id: 6,
+          customId: "archived-child",
+          category: "test-category",
+          parentId: 1,
+          archivedAt: new Date(),
+        },
+      ]);
+
+      const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+      await get(dbConnection, "test-category", "task-1");
+      await get(dbConnection, "test-category", "archived-child");
+
+      const parent = JSON.parse(consoleSpy.mock.calls[0][0]);
+      expect(
+        parent.children.map((child: { customId: string }) => child.customId),
+      ).toEqual(["child"]);
+      const archived = JSON.parse(consoleSpy.mock.calls[1][0]);
+      expect(archived.customId).toBe("archived-child");
+
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe("history", () => {
+    it("should not include history by default", async () => {
+      const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+      await get(dbConnection, "test-category", "task-1");
+
+      const parsed = JSON.parse(consoleSpy.mock.calls[0][0]);
+      expect(parsed).not.toHaveProperty("history");
+
+      consoleSpy.mockRestore();
+    });
+
+    it("should include history when requested", async () => {
+      await dbConnection.db.insert(schema.taskEvents).values([
+        { taskId: 1, type: "upsert", status: "wip" },
+        { taskId: 1, type: "status", status: "done", comment: "Finished" },
+        { taskId: 2, type: "upsert", status: "done" },
+      ]);
+
+      const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+      await get(dbConnection, "test-category", "task-1", { history: true });
+
+      const parsed = JSON.parse(consoleSpy.mock.calls[0][0]);
+      expect(parsed.history).toHaveLength(2);
+      expect(parsed.history[0]).toMatchObject({
+        type: "upsert",
+        status: "wip",
+      });
+      expect(parsed.history[1]).toMatchObject({
+        type: "status",
+        status: "done",
+        comment: "Finished",
+      });
+
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe("tracked time", () => {
+    it("should include the total tracked time", async () => {
+      const now = Date.now();
+      await dbConnection.db.insert(schema.timeEntries).values([
+        {
+          taskId: 1,
+          startedAt: new Date(now - 3 * 60 * 60 * 1000),
+          stoppedAt: new Date(now - 2 * 60 * 60 * 1000),
+        },
+        { taskId: 2, startedAt: new Date(now - 60 * 60 * 1000) },
+      ]);
+
+      const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+      await get(dbConnection, "test-category", "task-1");
+
+      const parsed = JSON.parse(consoleSpy.mock.calls[0][0]);
+      expect(parsed.trackedSeconds).toBe(3600);
+      expect(parsed.tags).toEqual([]);
+
+      consoleSpy.mockRestore();
+    });
+  });
 });
@@ -1,41 +1,47 @@
-import { eq, and, or } from "drizzle-orm";
+import { eq, and, isNull, or } from "drizzle-orm";
 import { schema } from "../db";
 import type { DatabaseConnection } from "../utils/db";
+import { getEvents } from "../utils/events";
+import { findTask } from "../utils/lookup";
+import { buildTaskTree, flattenTaskTree } from "../utils/subtasks";
+import { withTags } from "../utils/tags";
+import { withTrackedTime } from "../utils/time-tracking";
 
 export async function get(
   dbConnection: DatabaseConnection,
   category: string,
   idOrCustomId: string,
+  options: { history?: boolean } = {},
 ) {
   const { db } = dbConnection;
 
   try {
-    // Try to parse as number for id (only positive integers are considered valid IDs)
-    const id = Number.parseInt(idOrCustomId, 10);
-    const isValidNumericId =
-      !Number.isNaN(id) && id > 0 && /^\d+$/.test(idOrCustomId);
+    const task = await findTask(dbConnection, category, idOrCustomId);
 
-    const task = await db
-      .select()
-      .from(schema.tasks)
-      .where(
-        and(
-          eq(schema.tasks.category, category),
-          or(
-            isValidNumericId ? eq(schema.tasks.id, id) : undefined,
-            eq(schema.tasks.customId, idOrCustomId),
+    // Nest subtasks under the task
+    const categoryTasks = await withTrackedTime(
+      dbConnection,
+      await withTags(
+        dbConnection,
+        await db
+          .select()
+          .from(schema.tasks)
+          .where(
+            and(
+              eq(schema.tasks.category, category),
+              // Archived subtasks are left out, but not an archived task itself
+              or(isNull(schema.tasks.archivedAt), eq(schema.tasks.id, task.id)),
+            ),
           ),
-        ),
-      );
-
-    if (task.length > 0) {
-      console.log(JSON.stringify(task[0], null, 2));
-    } else {
-      console.error(
-        `Task not found with ${isValidNumericId ? "id" : "customId"}: ${idOrCustomId}`,
-      );
-      throw new Error(`Task not found: ${idOrCustomId}`);
-    }
+      ),
+    );
+    const node = flattenTaskTree(buildTaskTree(categoryTasks)).find(
+      (entry) => entry.task.id === task.id,
+    )?.task;
+    const output = options.history
+      ? { ...node, history: await getEvents(dbConnection, task.id) }
+      : node;
+    console.log(JSON.stringify(output, null, 2));
   } catch (error) {
     console.error("Failed to get task:", error);
     throw error;
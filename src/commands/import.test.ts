@@ -0,0 +1,353 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { migrate } from "drizzle-orm/better-sqlite3/migrator";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { importTasks } from "./import";
+import { exportTasks } from "./export";
+import { add } from "./add";
+import { undo } from "./undo";
+import { getTestDb } from "../utils/db";
+import { getDependencyGraph } from "../utils/dependencies";
+import { allCategories } from "../utils/query";
+import { withTags } from "../utils/tags";
+import { taskFormats } from "../utils/task-formats";
+import { schema } from "../db";
+import type { DatabaseConnection } from "../utils/db";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const migrationsFolder = path.join(__dirname, "../db/../../drizzle");
+
+function createDb(): DatabaseConnection {
+  const dbConnection = getTestDb();
+  migrate(dbConnection.db, { migrationsFolder });
+  return dbConnection;
+}
+
+/**
+ * The rows of every task without the columns assigned on insert
+ */
+async function contents(dbConnection: DatabaseConnection) {
+  const tasks = await withTags(
+    dbConnection,
+    await dbConnection.db.select().from(schema.tasks),
+  );
+  const customIds = new Map(tasks.map((task) => [task.id, task.customId]));
+  const graphs = new Map<string, Map<string, string[]>>();
+  for (const category of new Set(tasks.map((task) => task.category))) {
+    graphs.set(category, await getDependencyGraph(dbConnection, category));
+  }
+
+  return tasks
+    .map(({ id, parentId, createdAt, updatedAt, ...task }) => ({
+      ...task,
+      parent: parentId === null ? null : customIds.get(parentId),
+      dependsOn: graphs.get(task.category)?.get(task.customId) ?? [],
+    }))
+    .sort((a, b) =>
+      `${a.category}/${a.customId}`.localeCompare(
+        `${b.category}/${b.customId}`,
+      ),
+    );
+}
+
+describe("import command", () => {
+  let dbConnection: DatabaseConnection;
+
+  beforeEach(() => {
+    dbConnection = createDb();
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    dbConnection.sqlite.close();
+  });
+
+  describe("round trips", () => {
+    beforeEach(async () => {
+      await add(
+        dbConnection,
+        "backend",
+        JSON.stringify([
+          {
+            customId: "api",
+            name: "Build the API",
+            description: 'CRUD, with "quotes"\nand a second line',
+            priority: "high",
+            tags: ["api", "core"],
+            dueAt: "2030-01-31",
+          },
+          {
+            customId: "api-users",
+            name: "Users endpoint",
+            parent: "api",
+            dependsOn: ["db"],
+            estimate: 2.5,
+            startAt: "2030-01-02T10:30:00Z",
+          },
+          {
+            customId: "db",
+            name: "Set up the database",
+            status: "done",
+            comment: "100% done > expected",
+            priority: 7,
+            recurrence: "every 2 weeks",
+            dueAt: "2030-01-10",
+          },
+        ]),
+      );
+      await add(
+        dbConnection,
+        "frontend",
+        JSON.stringify([
+          { customId: "ui", name: "Design UI", priority: "low", tags: ["ux"] },
+          // Names with what the text formats would otherwise misread
+          { customId: "mentions", name: "Support @mentions and +1 reactions" },
+          { customId: "comment", name: "x <!-- y -->" },
+          {
+            customId: "tokens",
+            name: "(A) 2030-01-01 due:tomorrow  spaced\tout 100%",
+            status: "done",
+          },
+        ]),
+      );
+    });
+
+    for (const format of taskFormats) {
+      it(`should reproduce the same rows through ${format}`, async () => {
+        const output: string[] = [];
+        vi.mocked(console.log).mockImplementation((line) => output.push(line));
+        await exportTasks(dbConnection, allCategories, format);
+
+        const target = createDb();
+        try {
+          await importTasks(target, output.join("\n"), format);
+
+          expect(await contents(target)).toEqual(await contents(dbConnection));
+        } finally {
+          target.sqlite.close();
+        }
+      });
+    }
+  });
+
+  it("should read Markdown checklists written by hand", async () => {
+    await importTasks(
+      dbConnection,
+      [
+        "# Plan",
+        "",
+        "## backend",
+        "",
+        "Some notes that aren't tasks.",
+        "",
+        "* [ ] Build API <!-- id:api -->",
+        "    * [X] Users endpoint <!-- id:api-users tags:api -->",
+        "        - [x] Tests <!-- id:api-tests -->",
+        "    - [ ] Orders endpoint <!-- id:api-orders status:done -->",
+      ].join("\n"),
+      "markdown",
+    );
+
+    const tasks = await contents(dbConnection);
+    expect(
+      tasks.map((t) => [t.category, t.customId, t.status, t.parent, t.tags]),
+    ).toEqual([
+      ["backend", "api", "wip", null, []],
+      ["backend", "api-orders", "wip", "api", []],
+      ["backend", "api-tests", "done", "api-users", []],
+      ["backend", "api-users", "done", "api", ["api"]],
+    ]);
+  });
+
+  it("should read todo.txt lines written by hand", async () => {
+    await importTasks(
+      dbConnection,
+      [
+        "(A) 2025-06-01 Call Mom about http://example.com +home @phone id:call due:2030-02-01",
+        "x 2025-06-02 2025-06-01 (B) Pay rent +home id:rent pri:B",
+      ].join("\n"),
+      "todotxt",
+    );
+
+    const tasks = await contents(dbConnection);
+    expect(
+      tasks.map((t) => [t.customId, t.name, t.status, t.priority, t.tags]),
+    ).toEqual([
+      ["call", "Call Mom about http://example.com", "wip", 4, ["phone"]],
+      ["rent", "(B) Pay rent", "done", 3, []],
+    ]);
+  });
+
+  it("should put every task in the given category", async () => {
+    await importTasks(
+      dbConnection,
+      '{"customId": "a"}\n{"customId": "b", "category": "other"}',
+      "jsonl",
+      undefined,
+      { category: "inbox" },
+    );
+
+    const tasks = await contents(dbConnection);
+    expect(tasks.map((t) => [t.category, t.customId])).toEqual([
+      ["inbox", "a"],
+      ["inbox", "b"],
+    ]);
+  });
+
+  it("should point at a task without a category", async () => {
+    await expect(
+      importTasks(
+        dbConnection,
+        "customId,category,name\na,backend,A\nb,,B\n",
+        "csv",
+      ),
+    ).rejects.toThrow(
+      "Missing category (give one in the input or with --category) at index 1 (line 3)",
+    );
+    expect(await dbConnection.db.select().from(schema.tasks)).toEqual([]);
+  });
+
+  it("should reject unknown CSV columns", async () => {
+    await expect(
+      importTasks(dbConnection, "customId,owner\na,me\n", "csv"),
+    ).rejects.toThrow("Unknown CSV column 'owner'");
+  });
+
+  it("should report a dry run per category without writing", async () => {
+    await add(
+      dbConnection,
+      "backend",
+      JSON.stringify([{ customId: "a", name: "Alpha" }]),
+    );
+
+    await importTasks(
+      dbConnection,
+      "x Alpha v2 +backend id:a\nBeta +frontend id:b",
+      "todotxt",
+      undefined,
+      { dryRun: true },
+    );
+
+    expect(vi.mocked(console.log).mock.calls.slice(1).flat()).toEqual([
+      "update a",
+      '  name: "Alpha" -> "Alpha v2"',
+      '  status: "wip" -> "done"',
+      "Dry run for category 'backend': 0 to create, 1 to update, 0 unchanged (nothing was written)",
+      "create b",
+      "Dry run for category 'frontend': 1 to create, 0 to update, 0 unchanged (nothing was written)",
+    ]);
+    expect(await dbConnection.db.select().from(schema.tasks)).toHaveLength(1);
+  });
+
+  it("should undo a whole import at once", async () => {
+    await importTasks(
+      dbConnection,
+      "A +backend id:a\nB +frontend id:b",
+      "todotxt",
+    );
+    expect(console.log).toHaveBeenCalledWith(
+      "Imported 1 tasks to category 'frontend': 1 created, 0 updated, 0 unchanged",
+    );
+
+    await undo(dbConnection);
+
+    expect(await dbConnection.db.select().from(schema.tasks)).toEqual([]);
+    expect(console.log).toHaveBeenCalledWith("Undid: import todotxt");
+  });
+  describe("Markdown plans", () => {
+    const plan = [
+      "# Launch plan",
+      "",
+      "Tasks for the first release.",
+      "",
+      "## backend",
+      "",
+      "- [ ] Build the API",
+      "  - [x] Users endpoint",
+      "  - [ ] Orders endpoint",
+      "    - [ ] Write tests",
+      "- [ ] Write tests",
+      "",
+      "```md",
+      "# not a category",
+      "- [ ] Not a task",
+      "```",
+      "",
+      "## frontend ##",
+      "",
+      "- [ ] Café menu <!-- priority:high -->",
+      "- [x] Ship it <!-- id:ship -->",
+    ].join("\n");
+
+    it("should derive categories, subtasks and stable customIds", async () => {
+      await importTasks(dbConnection, plan, "markdown");
+
+      const tasks = await contents(dbConnection);
+      expect(
+        tasks.map((t) => [t.category, t.customId, t.name, t.status, t.parent]),
+      ).toEqual([
+        ["backend", "build-the-api", "Build the API", "wip", null],
+        [
+          "backend",
+          "orders-endpoint",
+          "Orders endpoint",
+          "wip",
+          "build-the-api",
+        ],
+        [
+          "backend",
+          "users-endpoint",
+          "Users endpoint",
+          "done",
+          "build-the-api",
+        ],
+        ["backend", "write-tests", "Write tests", "wip", "orders-endpoint"],
+        ["backend", "write-tests-2", "Write tests", "wip", null],
+        ["frontend", "cafe-menu", "Café menu", "wip", null],
+        ["frontend", "ship", "Ship it", "done", null],
+      ]);
+    });
+
+    it("should update the same tasks when the plan is imported again", async () => {
+      await importTasks(dbConnection, plan, "markdown");
+      vi.mocked(console.log).mockClear();
+
+      await importTasks(
+        dbConnection,
+        plan
+          .replace("- [ ] Build the API", "- [x] Build the API")
+          .replace("  - [ ] Orders endpoint", "  - [x] Orders endpoint")
+          .replace("    - [ ] Write tests", "    - [x] Write tests"),
+        "markdown",
+      );
+
+      expect(await dbConnection.db.select().from(schema.tasks)).toHaveLength(7);
+      expect(console.log).toHaveBeenCalledWith(
+        "Imported 5 tasks to category 'backend': 0 created, 3 updated, 2 unchanged",
+      );
+      expect(console.log).toHaveBeenCalledWith(
+        "Imported 2 tasks to category 'frontend': 0 created, 0 updated, 2 unchanged",
+      );
+    });
+
+    it("should put the whole plan in the given category", async () => {
+      await importTasks(
+        dbConnection,
+        "- [ ] Draft\n\n# Notes\n\n- [ ] Draft",
+        "markdown",
+        undefined,
+        { category: "docs" },
+      );
+
+      const tasks = await contents(dbConnection);
+      expect(tasks.map((t) => [t.category, t.customId])).toEqual([
+        ["docs", "draft"],
+        ["docs", "draft-2"],
+      ]);
+    });
+  });
+});
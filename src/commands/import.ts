@@ -0,0 +1,99 @@
+import type { UpsertMode } from "../utils/config";
+import { type DatabaseConnection, withTransaction } from "../utils/db";
+import { journaled } from "../utils/journal";
+import {
+  type PortableTask,
+  readPortableTasks,
+  type TaskFormat,
+} from "../utils/task-formats";
+import { TaskInputError, type TaskSource } from "../utils/task-input";
+import {
+  convertTask,
+  countChanges,
+  describeChanges,
+  type TaskChange,
+  upsertTasks,
+} from "../utils/upsert";
+import { defaultWorkflow, type Workflow } from "../utils/workflow";
+
+export interface ImportOptions {
+  /** Put every task in this category instead of the one in the input */
+  category?: string;
+  /** How omitted fields of existing tasks are treated (default: replace) */
+  mode?: UpsertMode;
+  /** Report what would change without writing anything */
+  dryRun?: boolean;
+}
+
+/**
+ * Upsert the tasks of an export into their categories
+ * The whole input is written in one transaction, so a failing task leaves the database untouched
+ */
+export async function importTasks(
+  dbConnection: DatabaseConnection,
+  input: TaskSource,
+  format: TaskFormat,
+  workflow: Workflow = defaultWorkflow,
+  options: ImportOptions = {},
+) {
+  try {
+    const tasks = await readPortableTasks(input, format, workflow, (task) => {
+      if (!(options.category ?? task.category)) {
+        throw new Error(
+          "Missing category (give one in the input or with --category)",
+        );
+      }
+      convertTask(task, workflow);
+    });
+
+    const byCategory = new Map<string, PortableTask[]>();
+    for (const { category, ...task } of tasks) {
+      const target = options.category ?? (category as string);
+      byCategory.set(target, [...(byCategory.get(target) ?? []), task]);
+    }
+
+    const changes = await withTransaction(
+      dbConnection,
+      () =>
+        journaled(dbConnection, `import ${format}`, async () => {
+          const changes = new Map<string, TaskChange[]>();
+          for (const [category, group] of byCategory) {
+            changes.set(
+              category,
+              await upsertTasks(dbConnection, category, group, workflow, {
+                mode: options.mode,
+              }),
+            );
+          }
+          return changes;
+        }),
+      { rollback: options.dryRun },
+    );
+
+    if (changes.size === 0) {
+      console.log("No tasks to import");
+    }
+    for (const [category, categoryChanges] of changes) {
+      const counts = countChanges(categoryChanges);
+      if (options.dryRun) {
+        for (const line of describeChanges(categoryChanges)) {
+          console.log(line);
+        }
+        console.log(
+          `Dry run for category '${category}': ${counts.create} to create, ${counts.update} to update, ${counts.unchanged} unchanged (nothing was written)`,
+        );
+      } else {
+        console.log(
+          `Imported ${categoryChanges.length} tasks to category '${category}': ${counts.create} created, ${counts.update} updated, ${counts.unchanged} unchanged`,
+        );
+      }
+    }
+  } catch (error) {
+    if (error instanceof TaskInputError) {
+      console.error(error.message);
+    } else {
+      console.error("Failed to import tasks:", error);
+    }
+    throw error;
+  }
+}
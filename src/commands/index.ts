@@ -1,11 +1,29 @@
 export { add } from "./add";
+export { update } from "./update";
+export { exportTasks } from "./export";
+export { importTasks } from "./import";
+export { sync } from "./sync";
+export { scan } from "./scan";
 export { get } from "./get";
+export { log } from "./log";
 export { search } from "./search";
 export { list } from "./list";
 export { todo } from "./todo";
+export { next } from "./next";
+export { agenda } from "./agenda";
 export { done } from "./done";
 export { wip } from "./wip";
+export { setStatus } from "./set-status";
 export { remove } from "./remove";
+export { restore } from "./restore";
+export { archiveList } from "./archive";
+export { undo } from "./undo";
+export { redo } from "./redo";
+export { tag } from "./tag";
+export { untag } from "./untag";
+export { start } from "./start";
+export { stop } from "./stop";
+export { timesheet } from "./timesheet";
 export { show } from "./show";
 export { status } from "./status";
 export { init, initForce } from "./init";
@@ -1,12 +1,15 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { eq } from "drizzle-orm";
 import { migrate } from "drizzle-orm/better-sqlite3/migrator";
 import path from "node:path";
 import { fileURLToPath } from "node:url";
 import { list } from "./list";
 import { getTestDb } from "../utils/db";
+import { addTaskTags } from "../utils/tags";
 import { schema } from "../db";
 import type { Task } from "../db/schema";
 import type { DatabaseConnection } from "../utils/db";
+import type { TaskQuery } from "../utils/query";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -447,4 +450,316 @@ describe("list command", () => {
       consoleSpy.mockRestore();
     });
   });
+
+  describe("filters and sorting", () => {
+    const listIds = async (query: TaskQuery) => {
+      const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+      await list(dbConnection, "development", query);
+      const results = JSON.parse(consoleSpy.mock.calls[0][0]);
+      consoleSpy.mockRestore();
+      return results.map((t: Task) => t.customId);
+    };
+
+    const setTimestamps = async (
+      customId: string,
+      createdAt: string,
+      updatedAt: string,
+    ) => {
+      dbConnection.sqlite
+        .prepare(
+          "UPDATE tasks SET created_at = ?, updated_at = ? WHERE customId = ?",
+        )
+        .run(
+          new Date(createdAt).getTime() / 1000,
+          new Date(updatedAt).getTime() / 1000,
+          customId,
+        );
+    };
+
+    it("should filter by status", async () => {
+      expect(await listIds({ status: ["wip"] })).toEqual([
+        "dev-002",
+        "dev-003",
+      ]);
+      expect(await listIds({ status: ["wip", "done"] })).toHaveLength(3);
+    });
+
+    it("should filter by text match", async () => {
+      expect(await listIds({ match: "api" })).toEqual(["dev-002"]);
+      expect(await listIds({ match: "dev-00" })).toHaveLength(3);
+    });
+
+    it("should filter by id range", async () => {
+      expect(await listIds({ idFrom: 2 })).toEqual(["dev-002", "dev-003"]);
+      expect(await listIds({ idTo: 2 })).toEqual(["dev-001", "dev-002"]);
+      expect(await listIds({ idFrom: 2, idTo: 2 })).toEqual(["dev-002"]);
+    });
+
+    it("should filter by created and updated dates", async () => {
+      await setTimestamps("dev-001", "2025-01-01", "2025-03-01");
+      await setTimestamps("dev-002", "2025-02-01", "2025-02-15");
+      await setTimestamps("dev-003", "2025-03-01", "2025-03-15");
+
+      expect(await listIds({ createdAfter: new Date("2025-01-15") })).toEqual([
+        "dev-002",
+        "dev-003",
+      ]);
+      expect(await listIds({ createdBefore: new Date("2025-02-15") })).toEqual([
+        "dev-001",
+        "dev-002",
+      ]);
+      expect(
+        await listIds({
+          updatedAfter: new Date("2025-02-20"),
+          updatedBefore: new Date("2025-03-10"),
+        }),
+      ).toEqual(["dev-001"]);
+    });
+
+    it("should combine filters", async () => {
+      expect(await listIds({ status: ["wip"], match: "tests" })).toEqual([
+        "dev-003",
+      ]);
+    });
+
+    it("should sort by a field in either order", async () => {
+      expect(await listIds({ sort: "name" })).toEqual([
+        "dev-003",
+        "dev-002",
+        "dev-001",
+      ]);
+      expect(await listIds({ sort: "name", order: "desc" })).toEqual([
+        "dev-001",
+        "dev-002",
+        "dev-003",
+      ]);
+      expect(await listIds({ order: "desc" })).toEqual([
+        "dev-003",
+        "dev-002",
+        "dev-001",
+      ]);
+    });
+
+    it("should break ties by id", async () => {
+      expect(await listIds({ sort: "status" })).toEqual([
+        "dev-001",
+        "dev-002",
+        "dev-003",
+      ]);
+    });
+
+    it("should paginate with limit and offset", async () => {
+      expect(await listIds({ limit: 2 })).toEqual(["dev-001", "dev-002"]);
+      expect(await listIds({ limit: 2, offset: 2 })).toEqual(["dev-003"]);
+      expect(await listIds({ offset: 1 })).toEqual(["dev-002", "dev-003"]);
+    });
+  });
+
+  describe("across categories", () => {
+    const categoriesOf = (consoleSpy: ReturnType<typeof vi.spyOn>) =>
+      JSON.parse(consoleSpy.mock.calls[0][0] as string).map(
+        (task: { category: string }) => task.category,
+      );
+
+    it("should list tasks of all categories with '*'", async () => {
+      const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+      await list(dbConnection, "*");
+
+      expect(categoriesOf(consoleSpy)).toEqual([
+        "development",
+        "development",
+        "development",
+        "testing",
+        "testing",
+        "documentation",
+      ]);
+
+      consoleSpy.mockRestore();
+    });
+
+    it("should list tasks of categories matching a glob", async () => {
+      const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+      await list(dbConnection, "d*");
+
+      expect(new Set(categoriesOf(consoleSpy))).toEqual(
+        new Set(["development", "documentation"]),
+      );
+
+      consoleSpy.mockRestore();
+    });
+
+    it("should list tasks of a comma-separated list of categories", async () => {
+      const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+      await list(dbConnection, "testing, documentation", {
+        sort: "category",
+      });
+
+      expect(categoriesOf(consoleSpy)).toEqual([
+        "documentation",
+        "testing",
+        "testing",
+      ]);
+
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe("priority ordering", () => {
+    beforeEach(async () => {
+      await dbConnection.db
+        .update(schema.tasks)
+        .set({ priority: 4 })
+        .where(eq(schema.tasks.customId, "dev-003"));
+      await dbConnection.db
+        .update(schema.tasks)
+        .set({ priority: 1 })
+        .where(eq(schema.tasks.customId, "dev-001"));
+    });
+
+    const customIdsOf = (consoleSpy: ReturnType<typeof vi.spyOn>) =>
+      JSON.parse(consoleSpy.mock.calls[0][0] as string).map(
+        (task: { customId: string }) => task.customId,
+      );
+
+    it("should list the most important tasks first by default", async () => {
+      const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+      await list(dbConnection, "development");
+
+      expect(customIdsOf(consoleSpy)).toEqual([
+        "dev-003",
+        "dev-002",
+        "dev-001",
+      ]);
+
+      consoleSpy.mockRestore();
+    });
+
+    it("should sort by priority in the requested order", async () => {
+      const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+      await list(dbConnection, "development", {
+        sort: "priority",
+        order: "asc",
+      });
+
+      expect(customIdsOf(consoleSpy)).toEqual([
+        "dev-001",
+        "dev-002",
+        "dev-003",
+      ]);
+
+      consoleSpy.mockRestore();
+    });
+
+    it("should still sort by id when asked", async () => {
+      const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+      await list(dbConnection, "development", { sort: "id" });
+
+      expect(customIdsOf(consoleSpy)).toEqual([
+        "dev-001",
+        "dev-002",
+        "dev-003",
+      ]);
+
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe("tags", () => {
+    beforeEach(async () => {
+      const tasks = await dbConnection.db
+        .select()
+        .from(schema.tasks)
+        .where(eq(schema.tasks.category, "development"));
+      const idOf = (customId: string) =>
+        tasks.find((task) => task.customId === customId)?.id ?? 0;
+      await addTaskTags(dbConnection, idOf("dev-001"), ["security", "api"]);
+      await addTaskTags(dbConnection, idOf("dev-002"), ["api"]);
+    });
+
+    const tagsOf = (consoleSpy: ReturnType<typeof vi.spyOn>) =>
+      JSON.parse(consoleSpy.mock.calls[0][0] as string).map(
+        (task: { customId: string; tags: string[] }) => [
+          task.customId,
+          task.tags,
+        ],
+      );
+
+    it("should include tags in the output", async () => {
+      const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+      await list(dbConnection, "development", { sort: "id" });
+
+      expect(tagsOf(consoleSpy)).toEqual([
+        ["dev-001", ["api", "security"]],
+        ["dev-002", ["api"]],
+        ["dev-003", []],
+      ]);
+
+      consoleSpy.mockRestore();
+    });
+
+    it("should only list tasks with every given tag", async () => {
+      const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+      await list(dbConnection, "development", { tags: ["api"], sort: "id" });
+      await list(dbConnection, "development", { tags: ["api", "security"] });
+
+      expect(
+        consoleSpy.mock.calls.map(([output]) =>
+          JSON.parse(output as string).map(
+            (task: { customId: string }) => task.customId,
+          ),
+        ),
+      ).toEqual([["dev-001", "dev-002"], ["dev-001"]]);
+
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe("archived tasks", () => {
+    beforeEach(async () => {
+      await dbConnection.db
+        .update(schema.tasks)
+        .set({ archivedAt: new Date() })
+        .where(eq(schema.tasks.customId, "dev-002"));
+    });
+
+    const customIdsOf = (consoleSpy: ReturnType<typeof vi.spyOn>) =>
+      JSON.parse(consoleSpy.mock.calls[0][0] as string).map(
+        (task: { customId: string }) => task.customId,
+      );
+
+    it("should leave out archived tasks", async () => {
+      const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+      await list(dbConnection, "development", { sort: "id" });
+
+      expect(customIdsOf(consoleSpy)).toEqual(["dev-001", "dev-003"]);
+
+      consoleSpy.mockRestore();
+    });
+
+    it("should include archived tasks when asked", async () => {
+      const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+      await list(dbConnection, "development", {
+        sort: "id",
+        archived: "include",
+      });
+
+      expect(customIdsOf(consoleSpy)).toEqual([
+        "dev-001",
+        "dev-002",
+        "dev-003",
+      ]);
+
+      consoleSpy.mockRestore();
+    });
+  });
 });
@@ -1,17 +1,20 @@
-import { eq } from "drizzle-orm";
-import { schema } from "../db";
 import type { DatabaseConnection } from "../utils/db";
+import { categoryCondition, queryTasks, type TaskQuery } from "../utils/query";
+import { withTags } from "../utils/tags";
 
-export async function list(dbConnection: DatabaseConnection, category: string) {
-  const { db } = dbConnection;
-
+export async function list(
+  dbConnection: DatabaseConnection,
+  category: string,
+  query: TaskQuery = {},
+) {
   try {
-    const tasks = await db
-      .select()
-      .from(schema.tasks)
-      .where(eq(schema.tasks.category, category));
+    const tasks = await queryTasks(
+      dbConnection,
+      categoryCondition(category),
+      query,
+    );
 
-    console.log(JSON.stringify(tasks, null, 2));
+    console.log(JSON.stringify(await withTags(dbConnection, tasks), null, 2));
   } catch (error) {
     console.error("Failed to list tasks:", error);
     throw error;
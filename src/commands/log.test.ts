@@ -0,0 +1,161 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { migrate } from "drizzle-orm/better-sqlite3/migrator";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { log } from "./log";
+import { add } from "./add";
+import { done } from "./done";
+import { wip } from "./wip";
+import { getTestDb } from "../utils/db";
+import { schema } from "../db";
+import type { DatabaseConnection } from "../utils/db";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+describe("log command", () => {
+  let dbConnection: DatabaseConnection;
+
+  const getRows = async (idOrCustomId: string) => {
+    const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+    await log(dbConnection, "backend", idOrCustomId);
+    const lines = consoleSpy.mock.calls.map((call) => call[0] as string);
+    consoleSpy.mockRestore();
+    return lines.slice(2).map((line) =>
+      line
+        .split(" | ")
+        .slice(1)
+        .map((cell) => cell.trim()),
+    );
+  };
+
+  beforeEach(async () => {
+    dbConnection = getTestDb();
+    const migrationsFolder = path.join(__dirname, "../db/../../drizzle");
+    migrate(dbConnection.db, { migrationsFolder });
+
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    await add(
+      dbConnection,
+      "backend",
+      JSON.stringify([{ customId: "api-001", comment: "Planned" }]),
+    );
+    vi.restoreAllMocks();
+  });
+
+  afterEach(() => {
+    dbConnection.sqlite.close();
+  });
+
+  describe("event recording", () => {
+    it("should record upserts", async () => {
+      expect(await getRows("api-001")).toEqual([["upsert", "wip", "Planned"]]);
+    });
+
+    it("should keep earlier comments when status changes", async () => {
+      vi.spyOn(console, "log").mockImplementation(() => {});
+      await done(dbConnection, "backend", "api-001", "Implemented");
+      await wip(dbConnection, "backend", "api-001", "Found a bug");
+      await done(dbConnection, "backend", "api-001");
+      vi.restoreAllMocks();
+
+      expect(await getRows("api-001")).toEqual([
+        ["upsert", "wip", "Planned"],
+        ["status", "done", "Implemented"],
+        ["status", "wip", "Found a bug"],
+        ["status", "done", ""],
+      ]);
+    });
+
+    it("should record a comment when the status does not change", async () => {
+      vi.spyOn(console, "log").mockImplementation(() => {});
+      await wip(dbConnection, "backend", "api-001", "Still working");
+      await wip(dbConnection, "backend", "api-001");
+      vi.restoreAllMocks();
+
+      expect(await getRows("api-001")).toEqual([
+        ["upsert", "wip", "Planned"],
+        ["comment", "", "Still working"],
+      ]);
+    });
+
+    it("should record reopened parents", async () => {
+      vi.spyOn(console, "log").mockImplementation(() => {});
+      await add(
+        dbConnection,
+        "backend",
+        JSON.stringify([
+          { customId: "child", parent: "api-001", status: "done" },
+          { customId: "api-001", status: "done" },
+        ]),
+      );
+      await wip(dbConnection, "backend", "child");
+      vi.restoreAllMocks();
+
+      expect(await getRows("api-001")).toEqual([
+        ["upsert", "wip", "Planned"],
+        ["upsert", "done", ""],
+        ["status", "done", ""],
+        ["status", "wip", ""],
+      ]);
+    });
+  });
+
+  describe("output", () => {
+    it("should display history as a table", async () => {
+      const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+      await log(dbConnection, "backend", "1");
+
+      const header = consoleSpy.mock.calls[0][0];
+      expect(header.split(" | ").map((part: string) => part.trim())).toEqual([
+        "Time",
+        "Event",
+        "Status",
+        "Comment",
+      ]);
+      expect(consoleSpy.mock.calls[1][0]).toMatch(/^-+\+-+\+-+\+-+$/);
+      expect(consoleSpy.mock.calls[2][0]).toMatch(/^\d{4}-\d{2}-\d{2}T/);
+
+      consoleSpy.mockRestore();
+    });
+
+    it("should display message for task without history", async () => {
+      await dbConnection.db
+        .insert(schema.tasks)
+        .values({ customId: "imported", category: "backend" });
+
+      const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+      await log(dbConnection, "backend", "imported");
+
+      expect(consoleSpy).toHaveBeenCalledWith(
+        "No history found for task imported",
+      );
+
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe("error cases", () => {
+    it("should throw error for non-existent task", async () => {
+      const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+
+      await expect(log(dbConnection, "backend", "missing")).rejects.toThrow(
+        "Task not found: missing",
+      );
+
+      errorSpy.mockRestore();
+    });
+
+    it("should not find tasks in other categories", async () => {
+      const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+
+      await expect(log(dbConnection, "frontend", "api-001")).rejects.toThrow(
+        "Task not found: api-001",
+      );
+
+      errorSpy.mockRestore();
+    });
+  });
+});
@@ -0,0 +1,37 @@
+import type { TaskEvent } from "../db/schema";
+import type { DatabaseConnection } from "../utils/db";
+import { getEvents } from "../utils/events";
+import { findTask } from "../utils/lookup";
+import { renderTable } from "../utils/table";
+
+export async function log(
+  dbConnection: DatabaseConnection,
+  category: string,
+  idOrCustomId: string,
+) {
+  try {
+    const task = await findTask(dbConnection, category, idOrCustomId);
+    const events = await getEvents(dbConnection, task.id);
+
+    if (events.length === 0) {
+      console.log(`No history found for task ${idOrCustomId}`);
+      return;
+    }
+
+    const lines = renderTable<TaskEvent>(
+      [
+        { header: "Time", value: (e) => e.createdAt.toISOString() },
+        { header: "Event", value: (e) => e.type },
+        { header: "Status", value: (e) => e.status || "" },
+        { header: "Comment", value: (e) => e.comment || "" },
+      ],
+      events,
+    );
+    for (const line of lines) {
+      console.log(line);
+    }
+  } catch (error) {
+    console.error("Failed to show task history:", error);
+    throw error;
+  }
+}
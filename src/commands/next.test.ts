@@ -0,0 +1,177 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { migrate } from "drizzle-orm/better-sqlite3/migrator";
+import { eq } from "drizzle-orm";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { next } from "./next";
+import { getTestDb } from "../utils/db";
+import { schema } from "../db";
+import type { DatabaseConnection } from "../utils/db";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+describe("next command", () => {
+  let dbConnection: DatabaseConnection;
+
+  beforeEach(async () => {
+    dbConnection = getTestDb();
+    const migrationsFolder = path.join(__dirname, "../db/../../drizzle");
+    migrate(dbConnection.db, { migrationsFolder });
+
+    await dbConnection.db.insert(schema.tasks).values([
+      { id: 1, customId: "api-001", category: "backend", status: "done" },
+      { id: 2, customId: "api-002", category: "backend", status: "wip" },
+      { id: 3, customId: "api-003", category: "backend", status: "wip" },
+      { id: 4, customId: "ui-001", category: "frontend", status: "wip" },
+    ]);
+  });
+
+  afterEach(() => {
+    dbConnection.sqlite.close();
+  });
+
+  describe("basic functionality", () => {
+    it("should return the first wip task", async () => {
+      const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+      const task = await next(dbConnection, "backend");
+
+      expect(task?.customId).toBe("api-002");
+      const output = JSON.parse(consoleSpy.mock.calls[0][0]);
+      expect(output.customId).toBe("api-002");
+      expect(consoleSpy).toHaveBeenCalledTimes(1);
+
+      consoleSpy.mockRestore();
+    });
+
+    it("should only consider tasks in the specified category", async () => {
+      const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+      const task = await next(dbConnection, "frontend");
+
+      expect(task?.customId).toBe("ui-001");
+
+      consoleSpy.mockRestore();
+    });
+
+    it("should be deterministic", async () => {
+      const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+      const first = await next(dbConnection, "backend");
+      const second = await next(dbConnection, "backend");
+
+      expect(first).toEqual(second);
+
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe("dependencies", () => {
+    it("should skip tasks blocked by unfinished prerequisites", async () => {
+      await dbConnection.db
+        .insert(schema.taskDependencies)
+        .values({ taskId: 2, dependsOnId: 3 });
+
+      const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+      const task = await next(dbConnection, "backend");
+
+      expect(task?.customId).toBe("api-003");
+
+      consoleSpy.mockRestore();
+    });
+
+    it("should not skip tasks whose prerequisites are done", async () => {
+      await dbConnection.db
+        .insert(schema.taskDependencies)
+        .values({ taskId: 2, dependsOnId: 1 });
+
+      const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+      const task = await next(dbConnection, "backend");
+
+      expect(task?.customId).toBe("api-002");
+
+      consoleSpy.mockRestore();
+    });
+
+    it("should not skip tasks whose prerequisites are archived", async () => {
+      await dbConnection.db
+        .insert(schema.taskDependencies)
+        .values({ taskId: 2, dependsOnId: 3 });
+      await dbConnection.db
+        .update(schema.tasks)
+        .set({ archivedAt: new Date() })
+        .where(eq(schema.tasks.id, 3));
+
+      const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+      const task = await next(dbConnection, "backend");
+
+      expect(task?.customId).toBe("api-002");
+
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe("nothing actionable", () => {
+    it("should return null when all wip tasks are blocked", async () => {
+      await dbConnection.db.insert(schema.taskDependencies).values([
+        { taskId: 2, dependsOnId: 4 },
+        { taskId: 3, dependsOnId: 2 },
+      ]);
+
+      const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+      const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+
+      const task = await next(dbConnection, "backend");
+
+      expect(task).toBeNull();
+      expect(consoleSpy).not.toHaveBeenCalled();
+      expect(errorSpy).toHaveBeenCalledWith(
+        "No actionable tasks in category 'backend'",
+      );
+
+      consoleSpy.mockRestore();
+      errorSpy.mockRestore();
+    });
+
+    it("should return null when all tasks are done", async () => {
+      await dbConnection.db
+        .update(schema.tasks)
+        .set({ status: "done" })
+        .where(eq(schema.tasks.category, "frontend"));
+
+      const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+
+      expect(await next(dbConnection, "frontend")).toBeNull();
+
+      errorSpy.mockRestore();
+    });
+
+    it("should return null for empty category", async () => {
+      const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+
+      expect(await next(dbConnection, "non-existent")).toBeNull();
+
+      errorSpy.mockRestore();
+    });
+  });
+
+  describe("priority", () => {
+    it("should prefer more important tasks", async () => {
+      await dbConnection.db
+        .update(schema.tasks)
+        .set({ priority: 3 })
+        .where(eq(schema.tasks.id, 3));
+      const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+      const task = await next(dbConnection, "backend");
+
+      expect(task?.customId).toBe("api-003");
+
+      consoleSpy.mockRestore();
+    });
+  });
+});
@@ -0,0 +1,51 @@
+import { and, asc, desc, eq, inArray } from "drizzle-orm";
+import { schema } from "../db";
+import type { Task } from "../db/schema";
+import type { DatabaseConnection } from "../utils/db";
+import { getBlockers } from "../utils/dependencies";
+import { archivedCondition } from "../utils/query";
+import { defaultWorkflow, type Workflow } from "../utils/workflow";
+
+/**
+ * Print the most important actionable task in a category, oldest first among equals
+ * @returns The chosen task, or null when every actionable task is blocked
+ */
+export async function next(
+  dbConnection: DatabaseConnection,
+  category: string,
+  workflow: Workflow = defaultWorkflow,
+): Promise<Task | null> {
+  const { db } = dbConnection;
+
+  try {
+    const tasks = await db
+      .select()
+      .from(schema.tasks)
+      .where(
+        and(
+          eq(schema.tasks.category, category),
+          inArray(schema.tasks.status, workflow.actionable),
+          archivedCondition(),
+        ),
+      )
+      .orderBy(desc(schema.tasks.priority), asc(schema.tasks.id));
+
+    const blockers = await getBlockers(
+      dbConnection,
+      tasks.map((t) => t.id),
+      workflow,
+    );
+    const task = tasks.find((t) => !blockers.has(t.id));
+
+    if (!task) {
+      console.error(`No actionable tasks in category '${category}'`);
+      return null;
+    }
+
+    console.log(JSON.stringify(task, null, 2));
+    return task;
+  } catch (error) {
+    console.error("Failed to get next task:", error);
+    throw error;
+  }
+}
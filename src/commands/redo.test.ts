@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { migrate } from "drizzle-orm/better-sqlite3/migrator";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { redo } from "./redo";
+import { undo } from "./undo";
+import { add } from "./add";
+import { wip } from "./wip";
+import { done } from "./done";
+import { remove } from "./remove";
+import { getTestDb } from "../utils/db";
+import { getEvents } from "../utils/events";
+import { schema } from "../db";
+import type { DatabaseConnection } from "../utils/db";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+describe("redo command", () => {
+  let dbConnection: DatabaseConnection;
+
+  const contents = async () => ({
+    tasks: await dbConnection.db.select().from(schema.tasks),
+  });
+
+  beforeEach(async () => {
+    dbConnection = getTestDb();
+    const migrationsFolder = path.join(__dirname, "../db/../../drizzle");
+    migrate(dbConnection.db, { migrationsFolder });
+
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    await add(
+      dbConnection,
+      "development",
+      JSON.stringify([{ customId: "task-001", name: "Write docs" }]),
+    );
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    dbConnection.sqlite.close();
+  });
+
+  it("should reapply undone operations in their original order", async () => {
+    await done(dbConnection, "development", "task-001");
+    await wip(dbConnection, "development", "task-001");
+    const after = await contents();
+
+    await undo(dbConnection, 2);
+    await redo(dbConnection);
+    expect(console.log).toHaveBeenLastCalledWith(
+      "Redid: done development task-001",
+    );
+    await redo(dbConnection);
+    expect(console.log).toHaveBeenLastCalledWith(
+      "Redid: wip development task-001",
+    );
+
+    expect(await contents()).toEqual(after);
+    expect(
+      (await getEvents(dbConnection, 1)).map((event) => [
+        event.type,
+        event.status,
+      ]),
+    ).toEqual([
+      ["upsert", "wip"],
+      ["status", "done"],
+      ["status", "wip"],
+      ["undo", "done"],
+      ["undo", "wip"],
+      ["redo", "done"],
+      ["redo", "wip"],
+    ]);
+  });
+
+  it("should make a redone operation undoable again", async () => {
+    await done(dbConnection, "development", "task-001");
+    await undo(dbConnection);
+    await redo(dbConnection);
+    await undo(dbConnection);
+
+    const [task] = await dbConnection.db.select().from(schema.tasks);
+    expect(task.status).toBe("wip");
+  });
+
+  it("should have nothing to redo after a new operation", async () => {
+    await done(dbConnection, "development", "task-001");
+    await undo(dbConnection);
+    await remove(dbConnection, "development", "1");
+
+    await redo(dbConnection);
+
+    expect(console.log).toHaveBeenLastCalledWith("Nothing to redo");
+  });
+});
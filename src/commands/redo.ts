@@ -0,0 +1,21 @@
+import type { DatabaseConnection } from "../utils/db";
+import { applyEntry, getRedoableEntry } from "../utils/journal";
+
+/**
+ * Reapply the earliest undone operation
+ */
+export async function redo(dbConnection: DatabaseConnection) {
+  try {
+    const entry = await getRedoableEntry(dbConnection);
+    if (!entry) {
+      console.log("Nothing to redo");
+      return;
+    }
+
+    applyEntry(dbConnection, entry, "redo");
+    console.log(`Redid: ${entry.command}`);
+  } catch (error) {
+    console.error("Failed to redo:", error);
+    throw error;
+  }
+}
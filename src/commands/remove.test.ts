@@ -5,6 +5,7 @@ import path from "node:path";
 import { fileURLToPath } from "node:url";
 import { remove } from "./remove";
 import { getTestDb } from "../utils/db";
+import { getEvents } from "../utils/events";
 import { schema } from "../db";
 import type { DatabaseConnection } from "../utils/db";
 
@@ -69,7 +70,7 @@ describe("remove command", () => {
       const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
 
       await expect(
-        remove(dbConnection, "development", "1"),
+        remove(dbConnection, "development", "1", { purge: true }),
       ).resolves.not.toThrow();
 
       // Verify the task was removed
@@ -97,7 +98,7 @@ describe("remove command", () => {
 
       expect(otherTasksBefore).toHaveLength(3); // Tasks 1, 2, 4
 
-      await remove(dbConnection, "development", "1");
+      await remove(dbConnection, "development", "1", { purge: true });
 
       // Verify other tasks remain
       const otherTasksAfter = await dbConnection.db
@@ -114,7 +115,9 @@ describe("remove command", () => {
     it("should remove task from specific category only", async () => {
       const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
 
-      await expect(remove(dbConnection, "testing", "3")).resolves.not.toThrow();
+      await expect(
+        remove(dbConnection, "testing", "3", { purge: true }),
+      ).resolves.not.toThrow();
 
       // Verify the testing task was removed
       const testingTasks = await dbConnection.db
@@ -139,10 +142,10 @@ describe("remove command", () => {
       const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
 
       // Remove wip task
-      await remove(dbConnection, "development", "1");
+      await remove(dbConnection, "development", "1", { purge: true });
 
       // Remove done task
-      await remove(dbConnection, "development", "2");
+      await remove(dbConnection, "development", "2", { purge: true });
 
       // Verify both were removed
       const tasks = await dbConnection.db
@@ -171,7 +174,7 @@ describe("remove command", () => {
       const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
 
       await expect(
-        remove(dbConnection, "development", "5"),
+        remove(dbConnection, "development", "5", { purge: true }),
       ).resolves.not.toThrow();
 
       // Verify the task was removed
@@ -190,9 +193,9 @@ describe("remove command", () => {
 
   describe("category filtering", () => {
     it("should not remove task from different category", async () => {
-      await expect(remove(dbConnection, "wrong-category", "1")).rejects.toThrow(
-        "Task with id 1 not found",
-      );
+      await expect(
+        remove(dbConnection, "wrong-category", "1", { purge: true }),
+      ).rejects.toThrow("Task not found: 1");
 
       // Verify the task still exists
       const task = await dbConnection.db
@@ -206,9 +209,9 @@ describe("remove command", () => {
     });
 
     it("should require exact category match", async () => {
-      await expect(remove(dbConnection, "Development", "1")).rejects.toThrow(
-        "Task with id 1 not found",
-      );
+      await expect(
+        remove(dbConnection, "Development", "1", { purge: true }),
+      ).rejects.toThrow("Task not found: 1");
 
       // Verify the task still exists
       const task = await dbConnection.db
@@ -224,73 +227,73 @@ describe("remove command", () => {
 
   describe("error cases", () => {
     it("should throw error for non-existent task ID", async () => {
-      await expect(remove(dbConnection, "development", "999")).rejects.toThrow(
-        "Task with id 999 not found",
-      );
+      await expect(
+        remove(dbConnection, "development", "999", { purge: true }),
+      ).rejects.toThrow("Task not found: 999");
     });
 
     it("should throw error for invalid ID format", async () => {
-      await expect(remove(dbConnection, "development", "abc")).rejects.toThrow(
-        "Invalid task ID",
-      );
+      await expect(
+        remove(dbConnection, "development", "abc", { purge: true }),
+      ).rejects.toThrow("Task not found");
     });
 
     it("should throw error for empty ID", async () => {
-      await expect(remove(dbConnection, "development", "")).rejects.toThrow(
-        "Invalid task ID",
-      );
+      await expect(
+        remove(dbConnection, "development", "", { purge: true }),
+      ).rejects.toThrow("Task not found");
     });
 
     it("should throw error for whitespace-only ID", async () => {
-      await expect(remove(dbConnection, "development", "   ")).rejects.toThrow(
-        "Invalid task ID",
-      );
+      await expect(
+        remove(dbConnection, "development", "   ", { purge: true }),
+      ).rejects.toThrow("Task not found");
     });
 
     it("should throw error for negative ID", async () => {
-      await expect(remove(dbConnection, "development", "-1")).rejects.toThrow(
-        "Invalid task ID",
-      );
+      await expect(
+        remove(dbConnection, "development", "-1", { purge: true }),
+      ).rejects.toThrow("Task not found");
     });
 
     it("should throw error for decimal ID", async () => {
-      await expect(remove(dbConnection, "development", "1.5")).rejects.toThrow(
-        "Invalid task ID",
-      );
+      await expect(
+        remove(dbConnection, "development", "1.5", { purge: true }),
+      ).rejects.toThrow("Task not found");
     });
 
     it("should throw error for ID with leading zeros followed by non-numeric", async () => {
-      await expect(remove(dbConnection, "development", "01a")).rejects.toThrow(
-        "Invalid task ID",
-      );
+      await expect(
+        remove(dbConnection, "development", "01a", { purge: true }),
+      ).rejects.toThrow("Task not found");
     });
 
     it("should throw error for mixed alphanumeric ID", async () => {
-      await expect(remove(dbConnection, "development", "1a2")).rejects.toThrow(
-        "Invalid task ID",
-      );
+      await expect(
+        remove(dbConnection, "development", "1a2", { purge: true }),
+      ).rejects.toThrow("Task not found");
     });
 
     it("should throw error for very large ID", async () => {
       const largeId = "9".repeat(20); // 20 digits
       await expect(
-        remove(dbConnection, "development", largeId),
-      ).rejects.toThrow(`Task with id ${largeId} not found`);
+        remove(dbConnection, "development", largeId, { purge: true }),
+      ).rejects.toThrow(`Task not found: ${largeId}`);
     });
   });
 
   describe("boundary cases", () => {
     it("should handle zero ID", async () => {
-      await expect(remove(dbConnection, "development", "0")).rejects.toThrow(
-        "Invalid task ID",
-      );
+      await expect(
+        remove(dbConnection, "development", "0", { purge: true }),
+      ).rejects.toThrow("Task not found");
     });
 
     it("should handle ID with leading zeros", async () => {
       const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
 
       await expect(
-        remove(dbConnection, "development", "001"),
+        remove(dbConnection, "development", "001", { purge: true }),
       ).resolves.not.toThrow();
 
       // Verify the task was removed (leading zeros should be ignored)
@@ -309,8 +312,8 @@ describe("remove command", () => {
     it("should handle maximum safe integer ID", async () => {
       const maxSafeId = Number.MAX_SAFE_INTEGER.toString();
       await expect(
-        remove(dbConnection, "development", maxSafeId),
-      ).rejects.toThrow(`Task with id ${maxSafeId} not found`);
+        remove(dbConnection, "development", maxSafeId, { purge: true }),
+      ).rejects.toThrow(`Task not found: ${maxSafeId}`);
     });
 
     it("should handle special characters in category", async () => {
@@ -326,7 +329,7 @@ describe("remove command", () => {
       const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
 
       await expect(
-        remove(dbConnection, "special-category!@#$%", "5"),
+        remove(dbConnection, "special-category!@#$%", "5", { purge: true }),
       ).resolves.not.toThrow();
 
       // Verify the task was removed
@@ -358,7 +361,7 @@ describe("remove command", () => {
       const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
 
       await expect(
-        remove(dbConnection, "カテゴリー中文🚀", "5"),
+        remove(dbConnection, "カテゴリー中文🚀", "5", { purge: true }),
       ).resolves.not.toThrow();
 
       // Verify the task was removed
@@ -380,21 +383,21 @@ describe("remove command", () => {
 
   describe("edge cases", () => {
     it("should handle scientific notation ID", async () => {
-      await expect(remove(dbConnection, "development", "1e2")).rejects.toThrow(
-        "Invalid task ID",
-      );
+      await expect(
+        remove(dbConnection, "development", "1e2", { purge: true }),
+      ).rejects.toThrow("Task not found");
     });
 
     it("should handle hexadecimal ID", async () => {
-      await expect(remove(dbConnection, "development", "0xFF")).rejects.toThrow(
-        "Invalid task ID",
-      );
+      await expect(
+        remove(dbConnection, "development", "0xFF", { purge: true }),
+      ).rejects.toThrow("Task not found");
     });
 
     it("should handle ID with plus sign", async () => {
-      await expect(remove(dbConnection, "development", "+1")).rejects.toThrow(
-        "Invalid task ID",
-      );
+      await expect(
+        remove(dbConnection, "development", "+1", { purge: true }),
+      ).rejects.toThrow("Task not found");
     });
 
     it("should handle removing same task twice", async () => {
@@ -402,13 +405,13 @@ describe("remove command", () => {
 
       // Remove task first time
       await expect(
-        remove(dbConnection, "development", "1"),
+        remove(dbConnection, "development", "1", { purge: true }),
       ).resolves.not.toThrow();
 
       // Try to remove same task again
-      await expect(remove(dbConnection, "development", "1")).rejects.toThrow(
-        "Task with id 1 not found",
-      );
+      await expect(
+        remove(dbConnection, "development", "1", { purge: true }),
+      ).rejects.toThrow("Task not found: 1");
 
       consoleSpy.mockRestore();
     });
@@ -428,7 +431,7 @@ describe("remove command", () => {
 
       expect(taskBefore).toHaveLength(1);
 
-      await remove(dbConnection, "development", "1");
+      await remove(dbConnection, "development", "1", { purge: true });
 
       // Verify task is completely gone
       const taskAfter = await dbConnection.db
@@ -458,7 +461,7 @@ describe("remove command", () => {
       const totalBefore = await dbConnection.db.select().from(schema.tasks);
       expect(totalBefore).toHaveLength(4);
 
-      await remove(dbConnection, "development", "1");
+      await remove(dbConnection, "development", "1", { purge: true });
 
       // Get total count after removal
       const totalAfter = await dbConnection.db.select().from(schema.tasks);
@@ -494,7 +497,7 @@ describe("remove command", () => {
       });
 
       await expect(
-        remove(dbConnection, "complex-category中文", "5"),
+        remove(dbConnection, "complex-category中文", "5", { purge: true }),
       ).resolves.not.toThrow();
 
       // Verify removal
@@ -514,9 +517,9 @@ describe("remove command", () => {
       const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
 
       // Remove multiple tasks
-      await remove(dbConnection, "development", "1");
-      await remove(dbConnection, "development", "2");
-      await remove(dbConnection, "development", "4");
+      await remove(dbConnection, "development", "1", { purge: true });
+      await remove(dbConnection, "development", "2", { purge: true });
+      await remove(dbConnection, "development", "4", { purge: true });
 
       // Verify all were removed
       const developmentTasks = await dbConnection.db
@@ -542,17 +545,17 @@ describe("remove command", () => {
 
       // Remove first task successfully
       await expect(
-        remove(dbConnection, "development", "1"),
+        remove(dbConnection, "development", "1", { purge: true }),
       ).resolves.not.toThrow();
 
       // Try to remove non-existent task
       await expect(
-        remove(dbConnection, "development", "999"),
+        remove(dbConnection, "development", "999", { purge: true }),
       ).rejects.toThrow();
 
       // Remove another existing task successfully
       await expect(
-        remove(dbConnection, "development", "2"),
+        remove(dbConnection, "development", "2", { purge: true }),
       ).resolves.not.toThrow();
 
       // Verify correct final state
@@ -567,4 +570,75 @@ describe("remove command", () => {
       consoleSpy.mockRestore();
     });
   });
+
+  describe("archiving", () => {
+    it("should archive the task by default", async () => {
+      const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+      await remove(dbConnection, "development", "1");
+
+      const [task] = await dbConnection.db
+        .select()
+        .from(schema.tasks)
+        .where(eq(schema.tasks.id, 1));
+      expect(task.archivedAt).toBeInstanceOf(Date);
+      expect(consoleSpy).toHaveBeenCalledWith(
+        "Task 1 archived (restore it with 'tdlite restore')",
+      );
+      const events = await getEvents(dbConnection, 1);
+      expect(events.map((event) => event.type)).toEqual(["archive"]);
+
+      consoleSpy.mockRestore();
+    });
+
+    it("should reject archiving a task twice", async () => {
+      const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+      const consoleErrorSpy = vi
+        .spyOn(console, "error")
+        .mockImplementation(() => {});
+
+      await remove(dbConnection, "development", "1");
+      await expect(remove(dbConnection, "development", "1")).rejects.toThrow(
+        "Task 1 is already archived",
+      );
+
+      consoleSpy.mockRestore();
+      consoleErrorSpy.mockRestore();
+    });
+
+    it("should purge archived tasks", async () => {
+      const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+      await remove(dbConnection, "development", "1");
+      await remove(dbConnection, "development", "1", { purge: true });
+
+      const tasks = await dbConnection.db
+        .select()
+        .from(schema.tasks)
+        .where(eq(schema.tasks.id, 1));
+      expect(tasks).toHaveLength(0);
+
+      consoleSpy.mockRestore();
+    });
+
+    it("should throw error for non-existent task ID", async () => {
+      await expect(remove(dbConnection, "development", "999")).rejects.toThrow(
+        "Task not found: 999",
+      );
+    });
+
+    it("should archive a task by customId", async () => {
+      const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+      await remove(dbConnection, "development", "task-002");
+
+      const [task] = await dbConnection.db
+        .select()
+        .from(schema.tasks)
+        .where(eq(schema.tasks.id, 2));
+      expect(task.archivedAt).toBeInstanceOf(Date);
+
+      consoleSpy.mockRestore();
+    });
+  });
 });
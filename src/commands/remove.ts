@@ -1,31 +1,58 @@
-import { eq, and } from "drizzle-orm";
+import { eq } from "drizzle-orm";
 import { schema } from "../db";
 import type { DatabaseConnection } from "../utils/db";
-import { validateTaskId, handleCommandError } from "../utils/validation";
+import { recordEvent } from "../utils/events";
+import { journaled } from "../utils/journal";
+import { findTask } from "../utils/lookup";
+
+export interface RemoveOptions {
+  /** Delete the task permanently instead of archiving it */
+  purge?: boolean;
+}
 
 export async function remove(
   dbConnection: DatabaseConnection,
   category: string,
-  id: string,
+  idOrCustomId: string,
+  options: RemoveOptions = {},
 ) {
   const { db } = dbConnection;
 
   try {
-    const taskId = validateTaskId(id);
+    const task = await findTask(dbConnection, category, idOrCustomId);
 
-    const result = await db
-      .delete(schema.tasks)
-      .where(
-        and(eq(schema.tasks.category, category), eq(schema.tasks.id, taskId)),
+    if (options.purge) {
+      await journaled(
+        dbConnection,
+        `remove ${category} ${idOrCustomId} --purge`,
+        async () => db.delete(schema.tasks).where(eq(schema.tasks.id, task.id)),
       );
 
-    if (result.changes === 0) {
-      console.error(`Task with id ${id} not found in category '${category}'`);
-      throw new Error(`Task with id ${id} not found`);
+      console.log(`Task ${idOrCustomId} removed successfully`);
+      return;
     }
 
-    console.log(`Task ${id} removed successfully`);
+    if (task.archivedAt !== null) {
+      throw new Error(`Task ${idOrCustomId} is already archived`);
+    }
+
+    await journaled(
+      dbConnection,
+      `remove ${category} ${idOrCustomId}`,
+      async () => {
+        await db
+          .update(schema.tasks)
+          .set({ archivedAt: new Date() })
+          .where(eq(schema.tasks.id, task.id));
+        await recordEvent(dbConnection, { taskId: task.id, type: "archive" });
+      },
+    );
+
+    console.log(
+      `Task ${idOrCustomId} archived (restore it with 'tdlite restore')`,
+    );
   } catch (error) {
-    handleCommandError("remove task", error);
+    console.error("Failed to remove task:", error);
+    throw error;
   }
 }
@@ -0,0 +1,80 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { migrate } from "drizzle-orm/better-sqlite3/migrator";
+import { eq } from "drizzle-orm";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { restore } from "./restore";
+import { getTestDb } from "../utils/db";
+import { getEvents } from "../utils/events";
+import { schema } from "../db";
+import type { DatabaseConnection } from "../utils/db";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+describe("restore command", () => {
+  let dbConnection: DatabaseConnection;
+
+  beforeEach(async () => {
+    dbConnection = getTestDb();
+    const migrationsFolder = path.join(__dirname, "../db/../../drizzle");
+    migrate(dbConnection.db, { migrationsFolder });
+
+    await dbConnection.db.insert(schema.tasks).values([
+      {
+        id: 1,
+        customId: "task-001",
+        category: "development",
+        status: "wip",
+        archivedAt: new Date(2025, 0, 1),
+      },
+      { id: 2, customId: "task-002", category: "development", status: "wip" },
+    ]);
+  });
+
+  afterEach(() => {
+    dbConnection.sqlite.close();
+  });
+
+  it("should restore an archived task", async () => {
+    const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+    await restore(dbConnection, "development", "task-001");
+
+    const [task] = await dbConnection.db
+      .select()
+      .from(schema.tasks)
+      .where(eq(schema.tasks.id, 1));
+    expect(task.archivedAt).toBeNull();
+    expect(consoleSpy).toHaveBeenCalledWith("Task task-001 restored");
+    expect((await getEvents(dbConnection, 1)).map((e) => e.type)).toEqual([
+      "restore",
+    ]);
+
+    consoleSpy.mockRestore();
+  });
+
+  it("should throw error when the task is not archived", async () => {
+    const consoleErrorSpy = vi
+      .spyOn(console, "error")
+      .mockImplementation(() => {});
+
+    await expect(restore(dbConnection, "development", "2")).rejects.toThrow(
+      "Task task-002 is not archived",
+    );
+
+    consoleErrorSpy.mockRestore();
+  });
+
+  it("should throw error for a missing task", async () => {
+    const consoleErrorSpy = vi
+      .spyOn(console, "error")
+      .mockImplementation(() => {});
+
+    await expect(
+      restore(dbConnection, "development", "task-999"),
+    ).rejects.toThrow("Task not found: task-999");
+
+    consoleErrorSpy.mockRestore();
+  });
+});
@@ -0,0 +1,32 @@
+import { eq } from "drizzle-orm";
+import { schema } from "../db";
+import type { DatabaseConnection } from "../utils/db";
+import { recordEvent } from "../utils/events";
+import { findTask } from "../utils/lookup";
+
+export async function restore(
+  dbConnection: DatabaseConnection,
+  category: string,
+  idOrCustomId: string,
+) {
+  const { db } = dbConnection;
+
+  try {
+    const task = await findTask(dbConnection, category, idOrCustomId);
+
+    if (task.archivedAt === null) {
+      throw new Error(`Task ${task.customId} is not archived`);
+    }
+
+    await db
+      .update(schema.tasks)
+      .set({ archivedAt: null })
+      .where(eq(schema.tasks.id, task.id));
+    await recordEvent(dbConnection, { taskId: task.id, type: "restore" });
+
+    console.log(`Task ${task.customId} restored`);
+  } catch (error) {
+    console.error("Failed to restore task:", error);
+    throw error;
+  }
+}
@@ -0,0 +1,350 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { migrate } from "drizzle-orm/better-sqlite3/migrator";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { eq } from "drizzle-orm";
+import { scan } from "./scan";
+import { add } from "./add";
+import { undo } from "./undo";
+import { getTestDb } from "../utils/db";
+import { commentCustomId, parseComments } from "../utils/code-comments";
+import { defaultWorkflow } from "../utils/workflow";
+import { schema } from "../db";
+import type { DatabaseConnection } from "../utils/db";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+describe("scan command", () => {
+  let dbConnection: DatabaseConnection;
+  let root: string;
+  let output: string[];
+
+  const writeFiles = (files: Record<string, string>) => {
+    for (const [file, text] of Object.entries(files)) {
+      mkdirSync(path.dirname(path.join(root, file)), { recursive: true });
+      writeFileSync(path.join(root, file), text);
+    }
+  };
+  const getTasks = () =>
+    dbConnection.db.select().from(schema.tasks).orderBy(schema.tasks.customId);
+  const getTask = async (customId: string) => {
+    const [task] = await dbConnection.db
+      .select()
+      .from(schema.tasks)
+      .where(eq(schema.tasks.customId, customId));
+    return task;
+  };
+
+  beforeEach(() => {
+    dbConnection = getTestDb();
+    const migrationsFolder = path.join(__dirname, "../db/../../drizzle");
+    migrate(dbConnection.db, { migrationsFolder });
+
+    root = mkdtempSync(path.join(tmpdir(), "tdlite-scan-"));
+    writeFiles({
+      "package.json": "{}",
+      "src/api.ts": [
+        "export function handler() {",
+        "  // TODO(api-001): validate the request body",
+        "  return null; // FIXME: handle errors",
+        "}",
+      ].join("\n"),
+      "src/db.py": "# HACK work around the driver bug\n",
+      "src/notes.ts": 'const text = "TODO: not a comment";\n',
+    });
+
+    output = [];
+    vi.spyOn(console, "log").mockImplementation((line) => output.push(line));
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    dbConnection.sqlite.close();
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  const fixmeId = commentCustomId({
+    path: "src/api.ts",
+    line: 3,
+    kind: "FIXME",
+    text: "handle errors",
+  });
+
+  it("should create a task per comment with its reference", async () => {
+    await scan(dbConnection, "todo", root);
+
+    const tasks = await getTasks();
+    expect(
+      tasks.map((t) => [t.customId, t.name, t.description, t.status]),
+    ).toEqual(
+      [
+        ["api-001", "validate the request body", "TODO at src/api.ts:2", "wip"],
+        [fixmeId, "handle errors", "FIXME at src/api.ts:3", "wip"],
+        [
+          commentCustomId({
+            path: "src/db.py",
+            line: 1,
+            kind: "HACK",
+            text: "work around the driver bug",
+          }),
+          "work around the driver bug",
+          "HACK at src/db.py:1",
+          "wip",
+        ],
+      ].sort((a, b) => (a[0] < b[0] ? -1 : 1)),
+    );
+    expect(fixmeId).toMatch(/^fixme-[0-9a-f]{8}$/);
+    expect(output).toEqual([
+      "Scanned 4 files into category 'todo': 3 comments, 3 created, 0 updated, 0 unchanged, 0 done",
+    ]);
+  });
+
+  it("should honour .gitignore files, skipping .git and binary files", async () => {
+    writeFiles({
+      ".gitignore": "dist/\n*.log\n/build\n",
+      "dist/index.js": "// TODO ignored directory\n",
+      "src/debug.log": "# TODO ignored file\n",
+      "build/out.js": "// TODO anchored to the root\n",
+      "src/build/keep.js": "// TODO kept: not at the root\n",
+      "vendor/.gitignore": "*.js\n!keep.js\n",
+      "vendor/lib.js": "// TODO ignored by the nested .gitignore\n",
+      "vendor/keep.js": "// TODO brought back by a negation\n",
+      ".git/HEAD": "# TODO inside .git\n",
+      "image.png": "\0// TODO binary\n",
+    });
+
+    await scan(dbConnection, "todo", root);
+
+    const tasks = await getTasks();
+    expect(tasks.map((t) => t.description).sort()).toEqual([
+      "FIXME at src/api.ts:3",
+      "HACK at src/db.py:1",
+      "TODO at src/api.ts:2",
+      "TODO at src/build/keep.js:1",
+      "TODO at vendor/keep.js:1",
+    ]);
+  });
+
+  it("should link comments to an existing task and keep its fields", async () => {
+    await add(
+      dbConnection,
+      "todo",
+      JSON.stringify([
+        {
+          customId: "api-001",
+          name: "Request validation",
+          description: "Planned in the kickoff",
+          priority: "high",
+        },
+      ]),
+    );
+    writeFiles({ "src/users.ts": "// TODO(api-001): validate users too\n" });
+
+    await scan(dbConnection, "todo", root);
+
+    const task = await getTask("api-001");
+    expect([task.name, task.priority, task.description]).toEqual([
+      "Request validation",
+      3,
+      "Planned in the kickoff - TODO at src/api.ts:2; TODO at src/users.ts:1",
+    ]);
+
+    // The references are replaced, not appended to
+    rmSync(path.join(root, "src/users.ts"));
+    await scan(dbConnection, "todo", root);
+    expect((await getTask("api-001")).description).toBe(
+      "Planned in the kickoff - TODO at src/api.ts:2",
+    );
+  });
+
+  it("should update references and mark tasks done when their comments are gone", async () => {
+    await scan(dbConnection, "todo", root);
+    writeFiles({
+      "src/api.ts": [
+        "// Handles requests",
+        "export function handler() {",
+        "  // TODO(api-001): validate the request body",
+        "  return null;",
+        "}",
+      ].join("\n"),
+    });
+    output = [];
+
+    await scan(dbConnection, "todo", root);
+
+    expect((await getTask("api-001")).description).toBe("TODO at src/api.ts:3");
+    const fixme = await getTask(fixmeId);
+    expect([fixme.status, fixme.comment]).toEqual([
+      "done",
+      "Comment removed from src/api.ts:3",
+    ]);
+    expect(output).toEqual([
+      `Task ${fixmeId} marked as done (its comment is gone)`,
+      "Scanned 4 files into category 'todo': 2 comments, 0 created, 1 updated, 1 unchanged, 1 done",
+    ]);
+
+    // Scanning again changes nothing
+    output = [];
+    await scan(dbConnection, "todo", root);
+    expect(output).toEqual([
+      "Scanned 4 files into category 'todo': 2 comments, 0 created, 0 updated, 2 unchanged, 0 done",
+    ]);
+  });
+
+  it("should keep tasks open that the workflow or their subtasks don't let close", async () => {
+    const workflow = {
+      ...defaultWorkflow,
+      statuses: ["wip", "blocked", "done"],
+      transitions: { blocked: ["wip"] },
+    };
+    writeFiles({
+      "src/jobs.ts": [
+        "// TODO(jobs): run jobs in the background",
+        "// TODO(jobs-retry): retry failed jobs",
+        "// TODO(queue): pick a queue",
+      ].join("\n"),
+    });
+    await scan(dbConnection, "todo", root, workflow);
+    await add(
+      dbConnection,
+      "todo",
+      JSON.stringify([
+        { customId: "jobs-retry", parent: "jobs" },
+        { customId: "jobs-log", parent: "jobs" },
+        { customId: "queue", status: "blocked" },
+      ]),
+      workflow,
+    );
+    rmSync(path.join(root, "src/jobs.ts"));
+    output = [];
+
+    await scan(dbConnection, "todo", root, workflow);
+
+    expect(
+      await Promise.all(
+        ["jobs", "jobs-retry", "queue"].map(
+          async (customId) => (await getTask(customId)).status,
+        ),
+      ),
+    ).toEqual(["wip", "done", "blocked"]);
+    expect(output).toEqual([
+      "Task jobs-retry marked as done (its comment is gone)",
+      "Task jobs kept open: its comment is gone, but its subtasks are not done: jobs-log",
+      "Task queue kept open: its comment is gone, but the workflow doesn't allow moving it from 'blocked' to 'done'",
+      "Scanned 4 files into category 'todo': 3 comments, 0 created, 0 updated, 3 unchanged, 1 done",
+    ]);
+
+    // The next scan closes them once nothing holds them back
+    await add(
+      dbConnection,
+      "todo",
+      JSON.stringify([
+        { customId: "jobs-log", status: "done" },
+        { customId: "queue", status: "wip" },
+      ]),
+      workflow,
+    );
+    output = [];
+    await scan(dbConnection, "todo", root, workflow);
+
+    expect((await getTask("jobs")).status).toBe("done");
+    expect((await getTask("queue")).status).toBe("done");
+  });
+
+  it("should close a parent and its subtasks removed together", async () => {
+    writeFiles({
+      "src/jobs.ts": [
+        "// TODO(jobs): run jobs in the background",
+        "// TODO(jobs-retry): retry failed jobs",
+      ].join("\n"),
+    });
+    await scan(dbConnection, "todo", root);
+    await add(
+      dbConnection,
+      "todo",
+      JSON.stringify([{ customId: "jobs-retry", parent: "jobs" }]),
+    );
+    rmSync(path.join(root, "src/jobs.ts"));
+    output = [];
+
+    await scan(dbConnection, "todo", root);
+
+    expect((await getTask("jobs")).status).toBe("done");
+    expect((await getTask("jobs-retry")).status).toBe("done");
+    expect(output.slice(0, 2).sort()).toEqual([
+      "Task jobs marked as done (its comment is gone)",
+      "Task jobs-retry marked as done (its comment is gone)",
+    ]);
+  });
+
+  it("should report a dry run without writing", async () => {
+    await scan(dbConnection, "todo", root);
+    rmSync(path.join(root, "src/db.py"));
+    output = [];
+
+    await scan(dbConnection, "todo", root, undefined, { dryRun: true });
+
+    expect(output.slice(-2)).toEqual([
+      expect.stringMatching(/^done hack-[0-9a-f]{8}$/),
+      "Dry run for category 'todo': 2 comments in 3 files, 0 to create, 0 to update, 2 unchanged, 1 to mark done (nothing was written)",
+    ]);
+    expect((await getTasks()).map((t) => t.status)).toEqual([
+      "wip",
+      "wip",
+      "wip",
+    ]);
+  });
+
+  it("should undo a scan at once", async () => {
+    await scan(dbConnection, "todo", root);
+
+    await undo(dbConnection);
+
+    expect(await getTasks()).toEqual([]);
+    expect(await dbConnection.db.select().from(schema.codeReferences)).toEqual(
+      [],
+    );
+  });
+
+  it("should recognize the comment styles of common languages", () => {
+    const comments = parseComments(
+      [
+        "/* TODO: block comment */",
+        " * FIXME(parser-2) in a doc comment",
+        "-- HACK: SQL",
+        "<!-- TODO: HTML -->",
+        "; TODO lisp",
+        "// TODOS are not markers",
+        "const url = 'http://example.com'; // TODO",
+      ].join("\n"),
+      "mixed.txt",
+    );
+
+    expect(comments.map((c) => [c.line, c.kind, c.customId, c.text])).toEqual([
+      [1, "TODO", undefined, "block comment"],
+      [2, "FIXME", "parser-2", "in a doc comment"],
+      [3, "HACK", undefined, "SQL"],
+      [4, "TODO", undefined, "HTML"],
+      [5, "TODO", undefined, "lisp"],
+      [7, "TODO", undefined, ""],
+    ]);
+  });
+
+  it("should only read HTML comments in Markdown files", () => {
+    const text = [
+      "# TODO list",
+      "## FIXME: known issues",
+      "* TODO write the docs",
+      "<!-- TODO(docs-1): explain scan -->",
+    ].join("\n");
+
+    expect(
+      parseComments(text, "docs/README.md").map((c) => [c.line, c.customId]),
+    ).toEqual([[4, "docs-1"]]);
+    expect(parseComments(text, "Makefile")).toHaveLength(4);
+  });
+});
@@ -0,0 +1,258 @@
+import { eq, inArray } from "drizzle-orm";
+import { schema } from "../db";
+import {
+  type CodeComment,
+  commentCustomId,
+  findComments,
+  formatReference,
+  withReferences,
+} from "../utils/code-comments";
+import { type DatabaseConnection, withTransaction } from "../utils/db";
+import { journaled } from "../utils/journal";
+import { getUnfinishedSubtasks } from "../utils/subtasks";
+import { changeTaskStatus } from "../utils/transition";
+import {
+  countChanges,
+  describeChanges,
+  type TaskChange,
+  type TaskInput,
+  upsertTasks,
+} from "../utils/upsert";
+import {
+  defaultWorkflow,
+  isDoneStatus,
+  type Workflow,
+} from "../utils/workflow";
+
+export interface ScanOptions {
+  /** Report what would change without writing anything */
+  dryRun?: boolean;
+}
+
+/**
+ * Turn the TODO, FIXME and HACK comments under a directory into tasks of a category
+ * Each task lists the file:line references of its comments at the end of its description,
+ * and tasks whose comments are gone since the previous scan are marked done
+ */
+export async function scan(
+  dbConnection: DatabaseConnection,
+  category: string,
+  root: string,
+  workflow: Workflow = defaultWorkflow,
+  options: ScanOptions = {},
+) {
+  const { db } = dbConnection;
+
+  try {
+    const { comments, files } = findComments(root);
+
+    // A task for each customId, with every comment naming it
+    const found = new Map<string, CodeComment[]>();
+    for (const comment of comments) {
+      const customId = commentCustomId(comment);
+      found.set(customId, [...(found.get(customId) ?? []), comment]);
+    }
+
+    const { changes, closed, kept } = await withTransaction(
+      dbConnection,
+      () =>
+        journaled(dbConnection, `scan ${category}`, async () => {
+          const existing = new Map(
+            (
+              await db
+                .select()
+                .from(schema.tasks)
+                .where(eq(schema.tasks.category, category))
+            ).map((task) => [task.customId, task]),
+          );
+
+          // Existing tasks only get their references updated,
+          // so comments can point at tasks planned beforehand
+          const tasks: TaskInput[] = [];
+          const unchanged: TaskChange[] = [];
+          for (const [customId, group] of found) {
+            const references = group.map(formatReference);
+            const task = existing.get(customId);
+            if (!task) {
+              tasks.push({
+                customId,
+                name: group[0].text || references[0],
+                description: withReferences(null, references),
+                tags: [group[0].kind.toLowerCase()],
+              });
+              continue;
+            }
+
+            const description = withReferences(task.description, references);
+            if (description === task.description) {
+              unchanged.push({ customId, action: "unchanged", fields: [] });
+            } else {
+              tasks.push({ customId, description });
+            }
+          }
+          const changes = [
+            ...(tasks.length > 0
+              ? await upsertTasks(dbConnection, category, tasks, workflow, {
+                  mode: "merge",
+                })
+              : []),
+            ...unchanged,
+          ];
+
+          const previous = await db
+            .select({
+              taskId: schema.codeReferences.taskId,
+              path: schema.codeReferences.path,
+              line: schema.codeReferences.line,
+              customId: schema.tasks.customId,
+              status: schema.tasks.status,
+            })
+            .from(schema.codeReferences)
+            .innerJoin(
+              schema.tasks,
+              eq(schema.codeReferences.taskId, schema.tasks.id),
+            )
+            .where(eq(schema.tasks.category, category));
+
+          // Tasks whose comments are all gone are done, unless the workflow
+          // or their subtasks keep them open
+          const stale = new Map<string, (typeof previous)[number]>();
+          for (const reference of previous) {
+            if (
+              !found.has(reference.customId) &&
+              !stale.has(reference.customId) &&
+              !isDoneStatus(workflow, reference.status)
+            ) {
+              stale.set(reference.customId, reference);
+            }
+          }
+          const status = workflow.done[0] ?? "done";
+          const closed: string[] = [];
+          const kept = new Map<string, string>();
+          // Subtasks closed on one pass let their parents close on the next
+          for (let progress = true; progress; ) {
+            progress = false;
+            for (const [customId, reference] of stale) {
+              const reason = await closingBlocker(
+                dbConnection,
+                reference,
+                status,
+                workflow,
+              );
+              if (reason) {
+                kept.set(customId, reason);
+                continue;
+              }
+              await changeTaskStatus(
+                dbConnection,
+                category,
+                customId,
+                status,
+                `Comment removed from ${reference.path}:${reference.line}`,
+                workflow,
+              );
+              closed.push(customId);
+              kept.delete(customId);
+              stale.delete(customId);
+              progress = true;
+            }
+          }
+
+          // Keep the comments found by this scan for the next one,
+          // and the last ones of tasks kept open so a later scan closes them
+          await db.delete(schema.codeReferences).where(
+            inArray(
+              schema.codeReferences.taskId,
+              previous
+                .filter((reference) => !kept.has(reference.customId))
+                .map((reference) => reference.taskId),
+            ),
+          );
+          const ids = new Map(
+            (
+              await db
+                .select({
+                  id: schema.tasks.id,
+                  customId: schema.tasks.customId,
+                })
+                .from(schema.tasks)
+                .where(eq(schema.tasks.category, category))
+            ).map((task) => [task.customId, task.id]),
+          );
+          for (const [customId, group] of found) {
+            await db.insert(schema.codeReferences).values(
+              group.map((comment) => ({
+                taskId: ids.get(customId) as number,
+                path: comment.path,
+                line: comment.line,
+                kind: comment.kind,
+                text: comment.text,
+              })),
+            );
+          }
+
+          return { changes, closed, kept };
+        }),
+      { rollback: options.dryRun },
+    );
+
+    const counts = countChanges(changes);
+    if (options.dryRun) {
+      for (const line of describeChanges(changes)) {
+        console.log(line);
+      }
+      for (const customId of closed) {
+        console.log(`done ${customId}`);
+      }
+      for (const [customId, reason] of kept) {
+        console.log(`keep ${customId}: ${reason}`);
+      }
+      console.log(
+        `Dry run for category '${category}': ${comments.length} comments in ${files} files, ${counts.create} to create, ${counts.update} to update, ${counts.unchanged} unchanged, ${closed.length} to mark done (nothing was written)`,
+      );
+      return;
+    }
+
+    for (const customId of closed) {
+      console.log(`Task ${customId} marked as done (its comment is gone)`);
+    }
+    for (const [customId, reason] of kept) {
+      console.log(
+        `Task ${customId} kept open: its comment is gone, but ${reason}`,
+      );
+    }
+    console.log(
+      `Scanned ${files} files into category '${category}': ${comments.length} comments, ${counts.create} created, ${counts.update} updated, ${counts.unchanged} unchanged, ${closed.length} done`,
+    );
+  } catch (error) {
+    console.error("Failed to scan comments:", error);
+    throw error;
+  }
+}
+
+/**
+ * Why a task whose comments are gone can't be marked done
+ * @returns The reason, or undefined when it can be
+ */
+async function closingBlocker(
+  dbConnection: DatabaseConnection,
+  task: { taskId: number; status: string | null },
+  status: string,
+  workflow: Workflow,
+): Promise<string | undefined> {
+  const allowed = task.status ? workflow.transitions[task.status] : undefined;
+  if (allowed && !allowed.includes(status)) {
+    return `the workflow doesn't allow moving it from '${task.status}' to '${status}'`;
+  }
+
+  const unfinished = await getUnfinishedSubtasks(
+    dbConnection,
+    task.taskId,
+    workflow,
+  );
+  if (unfinished.length > 0) {
+    return `its subtasks are not done: ${unfinished.join(", ")}`;
+  }
+
+  return undefined;
+}
@@ -1,9 +1,11 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { eq } from "drizzle-orm";
 import { migrate } from "drizzle-orm/better-sqlite3/migrator";
 import path from "node:path";
 import { fileURLToPath } from "node:url";
 import { search } from "./search";
 import { getTestDb } from "../utils/db";
+import { addTaskTags } from "../utils/tags";
 import { schema } from "../db";
 import type { Task } from "../db/schema";
 import type { DatabaseConnection } from "../utils/db";
@@ -465,4 +467,334 @@ describe("search command", () => {
       consoleSpy.mockRestore();
     });
   });
+
+  describe("across categories", () => {
+    it("should search all categories with '*'", async () => {
+      const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+      await search(dbConnection, "*", "test");
+
+      const results = JSON.parse(consoleSpy.mock.calls[0][0]);
+      expect(
+        results.map((task: { customId: string }) => task.customId).sort(),
+      ).toEqual(["task-003", "特殊-task"]);
+
+      consoleSpy.mockRestore();
+    });
+
+    it("should search a list of categories", async () => {
+      const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+      await search(dbConnection, "testing,other", "test");
+
+      const results = JSON.parse(consoleSpy.mock.calls[0][0]);
+      expect(results).toHaveLength(1);
+      expect(results[0].customId).toBe("task-003");
+
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe("full-text search", () => {
+    const customIdsOf = (consoleSpy: ReturnType<typeof vi.spyOn>) =>
+      JSON.parse(consoleSpy.mock.calls[0][0] as string).map(
+        (task: Task) => task.customId,
+      );
+
+    it("should require every word of a multi-word query", async () => {
+      const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+      await search(dbConnection, "development", "fix memory");
+
+      expect(customIdsOf(consoleSpy)).toEqual(["bug-fix-001"]);
+
+      consoleSpy.mockRestore();
+    });
+
+    it("should match quoted phrases exactly", async () => {
+      const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+      await search(dbConnection, "development", '"login page"');
+      expect(customIdsOf(consoleSpy)).toEqual(["auth-login"]);
+
+      consoleSpy.mockClear();
+      await search(dbConnection, "development", '"page login"');
+      expect(customIdsOf(consoleSpy)).toEqual([]);
+
+      consoleSpy.mockRestore();
+    });
+
+    it("should support OR and NOT operators", async () => {
+      const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+      await search(dbConnection, "development", "parser OR pool");
+      expect(customIdsOf(consoleSpy).sort()).toEqual([
+        "bug-fix-001",
+        "task-002",
+      ]);
+
+      consoleSpy.mockClear();
+      await search(dbConnection, "development", "task NOT unicode");
+      expect(customIdsOf(consoleSpy).sort()).toEqual(["task-001", "task-002"]);
+
+      consoleSpy.mockRestore();
+    });
+
+    it("should rank name matches above description matches", async () => {
+      await dbConnection.db.insert(schema.tasks).values([
+        {
+          customId: "docs-1",
+          category: "ranking",
+          name: "Update readme",
+          description: "Mention the parser options",
+        },
+        {
+          customId: "docs-2",
+          category: "ranking",
+          name: "Document parser",
+          description: "Describe the parser",
+        },
+      ]);
+      const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+      await search(dbConnection, "ranking", "parser");
+
+      expect(customIdsOf(consoleSpy)).toEqual(["docs-2", "docs-1"]);
+
+      consoleSpy.mockRestore();
+    });
+
+    it("should include highlighted snippets when requested", async () => {
+      const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+      await search(dbConnection, "development", "pool", { snippets: true });
+
+      const results = JSON.parse(consoleSpy.mock.calls[0][0]);
+      expect(results).toHaveLength(1);
+      expect(results[0].snippet).toBe("Resolve connection **pool** issues");
+
+      consoleSpy.mockClear();
+      await search(dbConnection, "development", "pool");
+      expect(JSON.parse(consoleSpy.mock.calls[0][0])[0]).not.toHaveProperty(
+        "snippet",
+      );
+
+      consoleSpy.mockRestore();
+    });
+
+    it("should keep the index in sync with updates and deletes", async () => {
+      await dbConnection.db
+        .update(schema.tasks)
+        .set({ name: "Rewrite tokenizer" })
+        .where(eq(schema.tasks.customId, "bug-fix-001"));
+      await dbConnection.db
+        .delete(schema.tasks)
+        .where(eq(schema.tasks.customId, "task-002"));
+      const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+      await search(dbConnection, "development", "tokenizer");
+      expect(customIdsOf(consoleSpy)).toEqual(["bug-fix-001"]);
+
+      consoleSpy.mockClear();
+      await search(dbConnection, "development", "leak OR pool");
+      expect(customIdsOf(consoleSpy)).toEqual(["bug-fix-001"]);
+
+      consoleSpy.mockRestore();
+    });
+
+    it("should reject malformed queries", async () => {
+      const consoleErrorSpy = vi
+        .spyOn(console, "error")
+        .mockImplementation(() => {});
+
+      await expect(
+        search(dbConnection, "development", "task AND"),
+      ).rejects.toThrow("Invalid search query 'task AND'");
+
+      consoleErrorSpy.mockRestore();
+    });
+  });
+
+  describe("structured queries", () => {
+    const customIdsOf = (consoleSpy: ReturnType<typeof vi.spyOn>) =>
+      JSON.parse(consoleSpy.mock.calls[0][0] as string)
+        .map((task: Task) => task.customId)
+        .sort();
+
+    const searchIds = async (query: string) => {
+      const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+      await search(dbConnection, "development", query);
+      const ids = customIdsOf(consoleSpy);
+      consoleSpy.mockRestore();
+      return ids;
+    };
+
+    it("should filter by field qualifiers", async () => {
+      expect(await searchIds("status:wip")).toEqual([
+        "auth-login",
+        "task-001",
+        "特殊-task",
+      ]);
+      expect(await searchIds('name:"login page"')).toEqual(["auth-login"]);
+      expect(await searchIds("comment:none")).toEqual(["auth-login"]);
+      expect(await searchIds("customId:=task-002")).toEqual(["task-002"]);
+    });
+
+    it("should combine qualifiers with free text", async () => {
+      expect(await searchIds("status:wip auth")).toEqual([
+        "auth-login",
+        "task-001",
+      ]);
+    });
+
+    it("should support negation", async () => {
+      expect(await searchIds("-status:done task")).toEqual([
+        "task-001",
+        "特殊-task",
+      ]);
+      expect(await searchIds("task -unicode")).toEqual([
+        "task-001",
+        "task-002",
+      ]);
+      expect(await searchIds("-comment:none -status:done")).toEqual([
+        "task-001",
+        "特殊-task",
+      ]);
+    });
+
+    it("should compare ids and parents", async () => {
+      const [parent] = await dbConnection.db
+        .select()
+        .from(schema.tasks)
+        .where(eq(schema.tasks.customId, "task-001"));
+      await dbConnection.db.insert(schema.tasks).values({
+        customId: "task-001-a",
+        category: "development",
+        name: "Refresh tokens",
+        parentId: parent.id,
+      });
+
+      expect(await searchIds(`id:${parent.id}..${parent.id + 1}`)).toEqual([
+        "task-001",
+        "task-002",
+      ]);
+      expect(await searchIds("parent:task-001")).toEqual(["task-001-a"]);
+      expect(await searchIds(`parent:${parent.id}`)).toEqual(["task-001-a"]);
+      expect(await searchIds("parent:none token")).toEqual([]);
+    });
+
+    it("should filter by tags", async () => {
+      const tasks = await dbConnection.db
+        .select()
+        .from(schema.tasks)
+        .where(eq(schema.tasks.category, "development"));
+      const idOf = (customId: string) =>
+        tasks.find((task) => task.customId === customId)?.id ?? 0;
+      await addTaskTags(dbConnection, idOf("task-001"), ["security", "api"]);
+      await addTaskTags(dbConnection, idOf("task-002"), ["api"]);
+
+      expect(await searchIds("tag:security")).toEqual(["task-001"]);
+      expect(await searchIds("tag:api tag:security")).toEqual(["task-001"]);
+      expect(await searchIds("tag:security,api")).toEqual([
+        "task-001",
+        "task-002",
+      ]);
+      expect(await searchIds("-tag:security task")).toEqual([
+        "task-002",
+        "特殊-task",
+      ]);
+      expect(await searchIds("tag:none status:wip")).toEqual([
+        "auth-login",
+        "特殊-task",
+      ]);
+
+      const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+      await search(dbConnection, "development", "task", { tags: ["api"] });
+      const results = JSON.parse(consoleSpy.mock.calls[0][0] as string);
+      expect(
+        results
+          .map((task: { customId: string; tags: string[] }) => [
+            task.customId,
+            task.tags,
+          ])
+          .sort(),
+      ).toEqual([
+        ["task-001", ["api", "security"]],
+        ["task-002", ["api"]],
+      ]);
+      consoleSpy.mockRestore();
+    });
+
+    it("should apply date math to timestamps", async () => {
+      const tenDaysAgo = new Date(Date.now() - 10 * 24 * 60 * 60 * 1000);
+      await dbConnection.db
+        .update(schema.tasks)
+        .set({ updatedAt: tenDaysAgo })
+        .where(eq(schema.tasks.customId, "task-002"));
+
+      expect(await searchIds("updated:<7d")).toEqual(["task-002"]);
+      expect(await searchIds("updated:>7d status:done")).toEqual([
+        "bug-fix-001",
+      ]);
+      expect(await searchIds("created:today status:done")).toEqual([
+        "bug-fix-001",
+        "task-002",
+      ]);
+    });
+
+    it("should report the offending token", async () => {
+      const consoleErrorSpy = vi
+        .spyOn(console, "error")
+        .mockImplementation(() => {});
+
+      await expect(
+        search(dbConnection, "development", "status:wip owner:me"),
+      ).rejects.toThrow(
+        /Unknown field 'owner'.*at position 12\n {2}status:wip owner:me\n {13}\^{5}/,
+      );
+
+      consoleErrorSpy.mockRestore();
+    });
+  });
+
+  describe("archived tasks", () => {
+    it("should only find archived tasks when asked", async () => {
+      await dbConnection.db
+        .update(schema.tasks)
+        .set({ archivedAt: new Date() })
+        .where(eq(schema.tasks.customId, "task-002"));
+      const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+      await search(dbConnection, "development", "task-002");
+      await search(dbConnection, "development", "task-002", {
+        archived: true,
+      });
+
+      expect(
+        consoleSpy.mock.calls.map(([output]) =>
+          JSON.parse(output as string).map((task: Task) => task.customId),
+        ),
+      ).toEqual([[], ["task-002"]]);
+
+      consoleSpy.mockRestore();
+    });
+
+    it("should find archived tasks with the archived qualifier", async () => {
+      await dbConnection.db
+        .update(schema.tasks)
+        .set({ archivedAt: new Date() })
+        .where(eq(schema.tasks.customId, "task-002"));
+      const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+      await search(dbConnection, "development", "archived:yes");
+
+      expect(
+        JSON.parse(consoleSpy.mock.calls[0][0] as string).map(
+          (task: Task) => task.customId,
+        ),
+      ).toEqual(["task-002"]);
+
+      consoleSpy.mockRestore();
+    });
+  });
 });
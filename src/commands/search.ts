@@ -1,34 +1,75 @@
-import { eq, and, or, sql } from "drizzle-orm";
+import { and, asc } from "drizzle-orm";
 import { schema } from "../db";
+import type { Task } from "../db/schema";
 import type { DatabaseConnection } from "../utils/db";
+import { fts, toFtsQuery, toSearchError } from "../utils/fts";
+import {
+  archivedCondition,
+  categoryCondition,
+  textMatch,
+} from "../utils/query";
+import { parseSearchQuery } from "../utils/search-query";
+import { hasTags, withTags } from "../utils/tags";
+
+export interface SearchOptions {
+  /** Include a highlighted fragment of the best matching field */
+  snippets?: boolean;
+  /** Only tasks with every one of these tags */
+  tags?: string[];
+  /** Include archived tasks */
+  archived?: boolean;
+}
 
 export async function search(
   dbConnection: DatabaseConnection,
   category: string,
   query: string,
+  options: SearchOptions = {},
 ) {
   const { db } = dbConnection;
 
   try {
-    // Escape SQL LIKE wildcards in the query
-    const escapedQuery = query.replace(/[%_]/g, "\\$&");
-    const searchPattern = `%${escapedQuery}%`;
+    const { text, conditions, archived } = parseSearchQuery(query);
+    // Without qualifiers, the whole query is free text as typed
+    const freeText = conditions.length > 0 ? text : query;
+    const ftsQuery = toFtsQuery(freeText);
+    const where = and(
+      categoryCondition(category),
+      // An archived: qualifier decides on archived tasks itself
+      archivedCondition(options.archived || archived ? "include" : undefined),
+      options.tags && options.tags.length > 0
+        ? hasTags(options.tags)
+        : undefined,
+      ...conditions,
+    );
 
-    const tasks = await db
-      .select()
-      .from(schema.tasks)
-      .where(
-        and(
-          eq(schema.tasks.category, category),
-          or(
-            sql`${schema.tasks.customId} LIKE ${searchPattern} ESCAPE '\\'`,
-            sql`${schema.tasks.name} LIKE ${searchPattern} ESCAPE '\\'`,
-            sql`${schema.tasks.description} LIKE ${searchPattern} ESCAPE '\\'`,
-          ),
-        ),
+    let results: (Task & { snippet?: string | null })[];
+    if (ftsQuery === null) {
+      // Nothing the index can match (empty or punctuation only): match literally
+      const tasks = await db
+        .select()
+        .from(schema.tasks)
+        .where(and(where, textMatch(freeText)))
+        .orderBy(schema.tasks.id);
+      results = options.snippets
+        ? tasks.map((task) => ({ ...task, snippet: null }))
+        : tasks;
+    } else {
+      const rows = await db
+        .select({ task: schema.tasks, snippet: fts.snippet })
+        .from(schema.tasks)
+        .innerJoin(fts.table, fts.join)
+        .where(and(where, fts.match(ftsQuery)))
+        .orderBy(fts.rank, asc(schema.tasks.id))
+        .catch((error) => {
+          throw toSearchError(query, error);
+        });
+      results = rows.map(({ task, snippet }) =>
+        options.snippets ? { ...task, snippet } : task,
       );
+    }
 
-    console.log(JSON.stringify(tasks, null, 2));
+    console.log(JSON.stringify(await withTags(dbConnection, results), null, 2));
   } catch (error) {
     console.error("Failed to search tasks:", error);
     throw error;
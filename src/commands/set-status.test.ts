@@ -0,0 +1,294 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { migrate } from "drizzle-orm/better-sqlite3/migrator";
+import { eq } from "drizzle-orm";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { setStatus } from "./set-status";
+import { getTestDb } from "../utils/db";
+import { schema } from "../db";
+import type { DatabaseConnection } from "../utils/db";
+import type { Workflow } from "../utils/workflow";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const workflow: Workflow = {
+  statuses: ["todo", "wip", "review", "done", "cancelled"],
+  initial: "todo",
+  done: ["done", "cancelled"],
+  actionable: ["todo", "wip"],
+  transitions: {
+    todo: ["wip", "cancelled"],
+    wip: ["review", "todo"],
+    review: ["wip", "done"],
+  },
+  labels: {},
+};
+
+describe("set-status command", () => {
+  let dbConnection: DatabaseConnection;
+
+  const getStatus = async (id: number) => {
+    const [task] = await dbConnection.db
+      .select()
+      .from(schema.tasks)
+      .where(eq(schema.tasks.id, id));
+    return task.status;
+  };
+
+  beforeEach(async () => {
+    dbConnection = getTestDb();
+    const migrationsFolder = path.join(__dirname, "../db/../../drizzle");
+    migrate(dbConnection.db, { migrationsFolder });
+
+    await dbConnection.db.insert(schema.tasks).values([
+      { id: 1, customId: "api-001", category: "backend", status: "todo" },
+      { id: 2, customId: "api-002", category: "backend", status: "review" },
+      { id: 3, customId: "ui-001", category: "frontend", status: "wip" },
+    ]);
+  });
+
+  afterEach(() => {
+    dbConnection.sqlite.close();
+  });
+
+  describe("successful operations", () => {
+    it("should move a task along an allowed transition", async () => {
+      const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+      await setStatus(
+        dbConnection,
+        "backend",
+        "api-001",
+        "wip",
+        undefined,
+        workflow,
+      );
+
+      expect(await getStatus(1)).toBe("wip");
+      expect(consoleSpy).toHaveBeenCalledWith("Task api-001 marked as wip");
+
+      consoleSpy.mockRestore();
+    });
+
+    it("should update the comment", async () => {
+      const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+      await setStatus(
+        dbConnection,
+        "backend",
+        "2",
+        "done",
+        "Approved",
+        workflow,
+      );
+
+      const [task] = await dbConnection.db
+        .select()
+        .from(schema.tasks)
+        .where(eq(schema.tasks.id, 2));
+      expect(task).toMatchObject({ status: "done", comment: "Approved" });
+
+      consoleSpy.mockRestore();
+    });
+
+    it("should record the status change in the history", async () => {
+      const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+      await setStatus(
+        dbConnection,
+        "backend",
+        "api-001",
+        "cancelled",
+        "Dropped",
+        workflow,
+      );
+
+      const events = await dbConnection.db.select().from(schema.taskEvents);
+      expect(events).toHaveLength(1);
+      expect(events[0]).toMatchObject({
+        taskId: 1,
+        type: "status",
+        status: "cancelled",
+        comment: "Dropped",
+      });
+
+      consoleSpy.mockRestore();
+    });
+
+    it("should allow any transition from statuses without rules", async () => {
+      await dbConnection.db
+        .update(schema.tasks)
+        .set({ status: "done" })
+        .where(eq(schema.tasks.id, 1));
+
+      const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+      await setStatus(
+        dbConnection,
+        "backend",
+        "api-001",
+        "todo",
+        undefined,
+        workflow,
+      );
+
+      expect(await getStatus(1)).toBe("todo");
+
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe("workflow rules", () => {
+    it("should reject unknown statuses", async () => {
+      const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+
+      await expect(
+        setStatus(
+          dbConnection,
+          "backend",
+          "api-001",
+          "blocked",
+          undefined,
+          workflow,
+        ),
+      ).rejects.toThrow("Unknown status 'blocked'");
+      expect(await getStatus(1)).toBe("todo");
+
+      errorSpy.mockRestore();
+    });
+
+    it("should reject disallowed transitions", async () => {
+      const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+
+      await expect(
+        setStatus(
+          dbConnection,
+          "backend",
+          "api-001",
+          "done",
+          undefined,
+          workflow,
+        ),
+      ).rejects.toThrow(
+        "Status transition from 'todo' to 'done' is not allowed (allowed: wip, cancelled)",
+      );
+      expect(await getStatus(1)).toBe("todo");
+
+      errorSpy.mockRestore();
+    });
+
+    it("should use the default workflow when none is given", async () => {
+      const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+
+      await expect(
+        setStatus(dbConnection, "backend", "api-001", "review"),
+      ).rejects.toThrow("Unknown status 'review'");
+
+      errorSpy.mockRestore();
+    });
+
+    it("should treat every done status as finished for subtasks", async () => {
+      await dbConnection.db.insert(schema.tasks).values([
+        {
+          id: 4,
+          customId: "child-1",
+          category: "backend",
+          parentId: 2,
+          status: "cancelled",
+        },
+        {
+          id: 5,
+          customId: "child-2",
+          category: "backend",
+          parentId: 2,
+          status: "wip",
+        },
+      ]);
+
+      const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+
+      await expect(
+        setStatus(
+          dbConnection,
+          "backend",
+          "api-002",
+          "done",
+          undefined,
+          workflow,
+        ),
+      ).rejects.toThrow("Task has unfinished subtasks: api-002");
+      expect(errorSpy).toHaveBeenCalledWith(
+        "Task api-002 has unfinished subtasks: child-2",
+      );
+
+      errorSpy.mockRestore();
+    });
+
+    it("should reopen done parents to the initial status", async () => {
+      await dbConnection.db.insert(schema.tasks).values([
+        { id: 4, customId: "parent", category: "backend", status: "done" },
+        {
+          id: 5,
+          customId: "child",
+          category: "backend",
+          parentId: 4,
+          status: "done",
+        },
+      ]);
+
+      const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+      await setStatus(
+        dbConnection,
+        "backend",
+        "child",
+        "review",
+        undefined,
+        workflow,
+      );
+
+      expect(await getStatus(4)).toBe("todo");
+      expect(consoleSpy).toHaveBeenCalledWith("Reopened parent tasks: parent");
+
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe("error cases", () => {
+    it("should throw error for non-existent task", async () => {
+      const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+
+      await expect(
+        setStatus(
+          dbConnection,
+          "backend",
+          "missing",
+          "wip",
+          undefined,
+          workflow,
+        ),
+      ).rejects.toThrow("Task not found: missing");
+
+      errorSpy.mockRestore();
+    });
+
+    it("should not update tasks in other categories", async () => {
+      const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+
+      await expect(
+        setStatus(
+          dbConnection,
+          "backend",
+          "ui-001",
+          "review",
+          undefined,
+          workflow,
+        ),
+      ).rejects.toThrow("Task not found: ui-001");
+      expect(await getStatus(3)).toBe("wip");
+
+      errorSpy.mockRestore();
+    });
+  });
+});
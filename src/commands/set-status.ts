@@ -0,0 +1,31 @@
+import type { DatabaseConnection } from "../utils/db";
+import { changeTaskStatus } from "../utils/transition";
+import { handleCommandError } from "../utils/validation";
+import { defaultWorkflow, type Workflow } from "../utils/workflow";
+
+export async function setStatus(
+  dbConnection: DatabaseConnection,
+  category: string,
+  idOrCustomId: string,
+  status: string,
+  comment?: string,
+  workflow: Workflow = defaultWorkflow,
+) {
+  try {
+    const { reopened } = await changeTaskStatus(
+      dbConnection,
+      category,
+      idOrCustomId,
+      status,
+      comment,
+      workflow,
+    );
+
+    console.log(`Task ${idOrCustomId} marked as ${status}`);
+    if (reopened.length > 0) {
+      console.log(`Reopened parent tasks: ${reopened.join(", ")}`);
+    }
+  } catch (error) {
+    handleCommandError("set task status", error);
+  }
+}
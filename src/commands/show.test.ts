@@ -1,9 +1,11 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { eq, inArray } from "drizzle-orm";
 import { migrate } from "drizzle-orm/better-sqlite3/migrator";
 import path from "node:path";
 import { fileURLToPath } from "node:url";
 import { show } from "./show";
 import { getTestDb } from "../utils/db";
+import { addTaskTags } from "../utils/tags";
 import { schema } from "../db";
 import type { DatabaseConnection } from "../utils/db";
 
@@ -508,4 +510,275 @@ describe("show command", () => {
       await expect(show(dbConnection, "development")).rejects.toThrow();
     });
   });
+
+  describe("dependencies", () => {
+    it("should not show blockers column without blocked tasks", async () => {
+      const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+      await show(dbConnection, "development");
+
+      const header = consoleSpy.mock.calls[0][0];
+      expect(header).not.toContain("Blocked By");
+
+      consoleSpy.mockRestore();
+    });
+
+    it("should show unfinished prerequisites of blocked tasks", async () => {
+      // medium-id depends on short (wip) and very-long-custom-id (done)
+      await dbConnection.db.insert(schema.taskDependencies).values([
+        { taskId: 3, dependsOnId: 1 },
+        { taskId: 3, dependsOnId: 2 },
+      ]);
+
+      const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+      await show(dbConnection, "development");
+
+      const lines = consoleSpy.mock.calls.map((call) => call[0]);
+      const headerParts = lines[0].split(" | ");
+      expect(headerParts[headerParts.length - 1].trim()).toBe("Blocked By");
+
+      const blockedRow = lines.find((line: string) =>
+        line.includes("medium-id"),
+      );
+      const blockedParts = blockedRow.split(" | ");
+      expect(blockedParts[blockedParts.length - 1].trim()).toBe("short");
+
+      const actionableRow = lines.find((line: string) => line.startsWith("1 "));
+      const actionableParts = actionableRow.split(" | ");
+      expect(actionableParts[actionableParts.length - 1].trim()).toBe("");
+
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe("subtasks", () => {
+    it("should list subtasks indented under their parent", async () => {
+      await dbConnection.db.insert(schema.tasks).values([
+        { id: 11, customId: "sub-a", category: "development", parentId: 1 },
+        { id: 12, customId: "sub-b", category: "development", parentId: 11 },
+      ]);
+
+      const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+      await show(dbConnection, "development");
+
+      const rows = consoleSpy.mock.calls
+        .slice(2)
+        .map((call) => call[0].split(" | ")[1].trimEnd());
+      expect(rows.slice(0, 3)).toEqual(["short", "  sub-a", "    sub-b"]);
+
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe("filters and sorting", () => {
+    it("should only display matching tasks in the requested order", async () => {
+      const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+      await show(dbConnection, "development", undefined, {
+        status: ["wip"],
+        order: "desc",
+      });
+
+      const rows = consoleSpy.mock.calls
+        .slice(2)
+        .map((call) => call[0].split(" | ")[1].trim());
+      expect(rows).toEqual(["medium-id", "short"]);
+
+      consoleSpy.mockRestore();
+    });
+
+    it("should display message when nothing matches", async () => {
+      const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+      await show(dbConnection, "development", undefined, { match: "nothing" });
+
+      expect(consoleSpy).toHaveBeenCalledWith(
+        "No tasks found in category 'development'",
+      );
+
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe("across categories", () => {
+    it("should add a category column when several categories are shown", async () => {
+      const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+      await show(dbConnection, "*");
+
+      const header = consoleSpy.mock.calls[0][0];
+      expect(header.split(" | ").map((h: string) => h.trim())).toEqual([
+        "ID",
+        "Category",
+        "CustomID",
+        "Name",
+        "Description",
+        "Status",
+        "Comment",
+      ]);
+      const categories = consoleSpy.mock.calls
+        .slice(2)
+        .map((call) => call[0].split(" | ")[1].trim());
+      expect(new Set(categories)).toEqual(new Set(["development", "testing"]));
+
+      consoleSpy.mockRestore();
+    });
+
+    it("should omit the category column when one category matches", async () => {
+      const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+      await show(dbConnection, "dev*");
+
+      expect(consoleSpy.mock.calls[0][0]).not.toContain("Category");
+      expect(consoleSpy.mock.calls).toHaveLength(6);
+
+      consoleSpy.mockRestore();
+    });
+
+    it("should describe the selector when nothing matches", async () => {
+      const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+      await show(dbConnection, "ops,infra*");
+
+      expect(consoleSpy).toHaveBeenCalledWith(
+        "No tasks found in categories matching 'ops,infra*'",
+      );
+
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe("priority", () => {
+    it("should show a priority column once priorities differ", async () => {
+      await dbConnection.db
+        .update(schema.tasks)
+        .set({ priority: 3 })
+        .where(eq(schema.tasks.id, 3));
+      const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+      await show(dbConnection, "development");
+
+      const lines = consoleSpy.mock.calls.map((call) =>
+        call[0].split(" | ").map((part: string) => part.trim()),
+      );
+      expect(lines[0]).toEqual([
+        "ID",
+        "CustomID",
+        "Name",
+        "Description",
+        "Status",
+        "Priority",
+        "Comment",
+      ]);
+      expect(lines.slice(2).map((line) => [line[1], line[5]])).toEqual([
+        ["medium-id", "High"],
+        ["short", "Medium"],
+        ["very-long-custom-id-that-will-expand-column", "Medium"],
+        ["empty-fields", "Medium"],
+      ]);
+
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe("due dates", () => {
+    beforeEach(() => {
+      vi.useFakeTimers({ toFake: ["Date"] });
+      vi.setSystemTime(new Date(2025, 5, 11, 12, 0));
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("should show due dates and flag overdue tasks", async () => {
+      await dbConnection.db
+        .update(schema.tasks)
+        .set({ dueAt: new Date(2025, 5, 10) })
+        .where(inArray(schema.tasks.id, [1, 2]));
+      await dbConnection.db
+        .update(schema.tasks)
+        .set({ dueAt: new Date(2025, 5, 11) })
+        .where(eq(schema.tasks.id, 3));
+      const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+      await show(dbConnection, "development");
+
+      const lines = consoleSpy.mock.calls.map((call) =>
+        call[0].split(" | ").map((part: string) => part.trim()),
+      );
+      const due = lines[0].indexOf("Due");
+      expect(due).toBeGreaterThan(0);
+      expect(lines.slice(2).map((line) => [line[1], line[due]])).toEqual([
+        ["short", "2025-06-10 (overdue)"],
+        // Done tasks are never overdue
+        ["very-long-custom-id-that-will-expand-column", "2025-06-10"],
+        // Due today is not overdue until the day ends
+        ["medium-id", "2025-06-11"],
+        ["empty-fields", ""],
+      ]);
+
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe("tags", () => {
+    it("should show a tags column once a task has tags", async () => {
+      await addTaskTags(dbConnection, 2, ["security", "api"]);
+      const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+      await show(dbConnection, "development");
+
+      const lines = consoleSpy.mock.calls.map((call) =>
+        call[0].split(" | ").map((part: string) => part.trim()),
+      );
+      const tags = lines[0].indexOf("Tags");
+      expect(tags).toBe(lines[0].indexOf("Comment") - 1);
+      expect(lines.slice(2).map((line) => [line[0], line[tags]])).toEqual([
+        ["1", ""],
+        ["2", "api, security"],
+        ["3", ""],
+        ["10", ""],
+      ]);
+
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe("tracked time", () => {
+    it("should show a time column once time is tracked", async () => {
+      const now = Date.now();
+      await dbConnection.db.insert(schema.timeEntries).values([
+        {
+          taskId: 1,
+          startedAt: new Date(now - 2 * 60 * 60 * 1000),
+          stoppedAt: new Date(now - 25 * 60 * 1000),
+        },
+        {
+          taskId: 3,
+          startedAt: new Date(now - 40 * 60 * 1000),
+          stoppedAt: new Date(now - 30 * 60 * 1000),
+        },
+      ]);
+      const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+      await show(dbConnection, "development");
+
+      const lines = consoleSpy.mock.calls.map((call) =>
+        call[0].split(" | ").map((part: string) => part.trim()),
+      );
+      const time = lines[0].indexOf("Time");
+      expect(time).toBe(lines[0].indexOf("Comment") - 1);
+      expect(lines.slice(2).map((line) => [line[0], line[time]])).toEqual([
+        ["1", "1h 35m"],
+        ["2", ""],
+        ["3", "10m"],
+        ["10", ""],
+      ]);
+
+      consoleSpy.mockRestore();
+    });
+  });
 });
@@ -1,65 +1,135 @@
-import { eq } from "drizzle-orm";
-import { schema } from "../db";
 import type { DatabaseConnection } from "../utils/db";
-import { stringWidth, padEnd } from "../utils/string-width";
-
-export async function show(dbConnection: DatabaseConnection, category: string) {
-  const { db } = dbConnection;
+import { formatDate } from "../utils/date";
+import { type TaskWithBlockers, withBlockers } from "../utils/dependencies";
+import { defaultPriority, getPriorityLabel } from "../utils/priority";
+import {
+  buildTaskTree,
+  flattenTaskTree,
+  type TaskNode,
+} from "../utils/subtasks";
+import {
+  categoryCondition,
+  describeCategories,
+  queryTasks,
+  type TaskQuery,
+} from "../utils/query";
+import { isOverdue } from "../utils/schedule";
+import { renderTable, type TableColumn } from "../utils/table";
+import { type TaskWithTags, withTags } from "../utils/tags";
+import {
+  formatDuration,
+  type TaskWithTrackedTime,
+  withTrackedTime,
+} from "../utils/time-tracking";
+import {
+  defaultWorkflow,
+  isDoneStatus,
+  type Workflow,
+} from "../utils/workflow";
 
+export async function show(
+  dbConnection: DatabaseConnection,
+  category: string,
+  workflow: Workflow = defaultWorkflow,
+  query: TaskQuery = {},
+) {
   try {
-    const tasks = await db
-      .select()
-      .from(schema.tasks)
-      .where(eq(schema.tasks.category, category));
+    const tasks = await queryTasks(
+      dbConnection,
+      categoryCondition(category),
+      query,
+    );
 
     if (tasks.length === 0) {
-      console.log(`No tasks found in category '${category}'`);
+      console.log(`No tasks found in ${describeCategories(category)}`);
       return;
     }
 
-    // Calculate column widths based on actual content
-    const cols = {
-      id: Math.max(2, ...tasks.map((t) => stringWidth(t.id.toString()))),
-      customId: Math.max(8, ...tasks.map((t) => stringWidth(t.customId || ""))),
-      name: Math.max(4, ...tasks.map((t) => stringWidth(t.name || ""))),
-      description: Math.max(
-        11,
-        ...tasks.map((t) => stringWidth(t.description || "")),
+    // Subtasks are listed under their parent, indented by depth
+    const rows = flattenTaskTree(
+      buildTaskTree(
+        await withTrackedTime(
+          dbConnection,
+          await withTags(
+            dbConnection,
+            await withBlockers(dbConnection, tasks, workflow),
+          ),
+        ),
       ),
-      status: Math.max(6, ...tasks.map((t) => stringWidth(t.status || ""))),
-      comment: Math.max(7, ...tasks.map((t) => stringWidth(t.comment || ""))),
-    };
-
-    // Header
-    console.log(
-      `${padEnd("ID", cols.id)} | ` +
-        `${padEnd("CustomID", cols.customId)} | ` +
-        `${padEnd("Name", cols.name)} | ` +
-        `${padEnd("Description", cols.description)} | ` +
-        `${padEnd("Status", cols.status)} | ` +
-        `${padEnd("Comment", cols.comment)}`,
     );
 
-    // Separator
-    console.log(
-      `${"-".repeat(cols.id)}-+-` +
-        `${"-".repeat(cols.customId)}-+-` +
-        `${"-".repeat(cols.name)}-+-` +
-        `${"-".repeat(cols.description)}-+-` +
-        `${"-".repeat(cols.status)}-+-` +
-        `${"-".repeat(cols.comment)}`,
-    );
+    const columns: TableColumn<{
+      task: TaskNode<TaskWithTrackedTime<TaskWithTags<TaskWithBlockers>>>;
+      depth: number;
+    }>[] = [
+      { header: "ID", value: ({ task }) => task.id.toString() },
+      {
+        header: "CustomID",
+        value: ({ task, depth }) => "  ".repeat(depth) + (task.customId || ""),
+      },
+      { header: "Name", value: ({ task }) => task.name || "" },
+      { header: "Description", value: ({ task }) => task.description || "" },
+      { header: "Status", value: ({ task }) => task.status || "" },
+      { header: "Comment", value: ({ task }) => task.comment || "" },
+    ];
+
+    // Tell categories apart when tasks from several of them are shown
+    if (new Set(tasks.map((task) => task.category)).size > 1) {
+      columns.splice(1, 0, {
+        header: "Category",
+        value: ({ task }) => task.category,
+      });
+    }
+
+    // Only show priorities when they tell tasks apart
+    if (tasks.some((task) => task.priority !== defaultPriority)) {
+      columns.splice(columns.length - 1, 0, {
+        header: "Priority",
+        value: ({ task }) => getPriorityLabel(task.priority),
+      });
+    }
+
+    // Only show due dates when some task has one, flagging overdue tasks
+    if (tasks.some((task) => task.dueAt !== null)) {
+      columns.splice(columns.length - 1, 0, {
+        header: "Due",
+        value: ({ task }) => {
+          if (task.dueAt === null) return "";
+          const due = formatDate(task.dueAt);
+          return isOverdue(task, workflow) ? `${due} (overdue)` : due;
+        },
+      });
+    }
+
+    // Only show tags when some task has one
+    if (rows.some(({ task }) => task.tags.length > 0)) {
+      columns.splice(columns.length - 1, 0, {
+        header: "Tags",
+        value: ({ task }) => task.tags.join(", "),
+      });
+    }
+
+    // Only show tracked time when some task has any
+    if (rows.some(({ task }) => task.trackedSeconds > 0)) {
+      columns.splice(columns.length - 1, 0, {
+        header: "Time",
+        value: ({ task }) =>
+          task.trackedSeconds > 0 ? formatDuration(task.trackedSeconds) : "",
+      });
+    }
+
+    // Only show the blockers column when some task is waiting on prerequisites
+    const isBlocked = (task: TaskWithBlockers) =>
+      task.blocked && !isDoneStatus(workflow, task.status);
+    if (rows.some(({ task }) => isBlocked(task))) {
+      columns.push({
+        header: "Blocked By",
+        value: ({ task }) => (isBlocked(task) ? task.blockedBy.join(", ") : ""),
+      });
+    }
 
-    // Data rows
-    for (const task of tasks) {
-      console.log(
-        `${padEnd(task.id.toString(), cols.id)} | ` +
-          `${padEnd(task.customId || "", cols.customId)} | ` +
-          `${padEnd(task.name || "", cols.name)} | ` +
-          `${padEnd(task.description || "", cols.description)} | ` +
-          `${padEnd(task.status || "", cols.status)} | ` +
-          `${padEnd(task.comment || "", cols.comment)}`,
-      );
+    for (const line of renderTable(columns, rows)) {
+      console.log(line);
     }
   } catch (error) {
     console.error("Failed to show tasks:", error);
@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { migrate } from "drizzle-orm/better-sqlite3/migrator";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { start } from "./start";
+import { getTestDb } from "../utils/db";
+import { schema } from "../db";
+import type { DatabaseConnection } from "../utils/db";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+describe("start command", () => {
+  let dbConnection: DatabaseConnection;
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date(2025, 5, 11, 12, 0));
+
+    dbConnection = getTestDb();
+    const migrationsFolder = path.join(__dirname, "../db/../../drizzle");
+    migrate(dbConnection.db, { migrationsFolder });
+
+    await dbConnection.db.insert(schema.tasks).values([
+      { id: 1, customId: "task-001", category: "development", status: "wip" },
+      { id: 2, customId: "task-002", category: "testing", status: "wip" },
+    ]);
+  });
+
+  afterEach(() => {
+    dbConnection.sqlite.close();
+    vi.useRealTimers();
+  });
+
+  it("should start a timer on a task", async () => {
+    const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+    await start(dbConnection, "development", "task-001");
+
+    expect(consoleSpy).toHaveBeenCalledWith("Started timer for task task-001");
+    expect(await dbConnection.db.select().from(schema.timeEntries)).toEqual([
+      {
+        id: 1,
+        taskId: 1,
+        startedAt: new Date(2025, 5, 11, 12, 0),
+        stoppedAt: null,
+      },
+    ]);
+
+    consoleSpy.mockRestore();
+  });
+
+  it("should reject a second timer on the same task", async () => {
+    const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+    const consoleErrorSpy = vi
+      .spyOn(console, "error")
+      .mockImplementation(() => {});
+
+    await start(dbConnection, "development", "1");
+    await expect(start(dbConnection, "development", "1")).rejects.toThrow(
+      "Timer already running for task task-001",
+    );
+    expect(
+      await dbConnection.db.select().from(schema.timeEntries),
+    ).toHaveLength(1);
+
+    consoleSpy.mockRestore();
+    consoleErrorSpy.mockRestore();
+  });
+
+  it("should throw error when the task is in another category", async () => {
+    const consoleErrorSpy = vi
+      .spyOn(console, "error")
+      .mockImplementation(() => {});
+
+    await expect(
+      start(dbConnection, "development", "task-002"),
+    ).rejects.toThrow("Task not found: task-002");
+
+    consoleErrorSpy.mockRestore();
+  });
+});
@@ -0,0 +1,29 @@
+import { schema } from "../db";
+import type { DatabaseConnection } from "../utils/db";
+import { findTask } from "../utils/lookup";
+import { getRunningEntry } from "../utils/time-tracking";
+
+export async function start(
+  dbConnection: DatabaseConnection,
+  category: string,
+  idOrCustomId: string,
+) {
+  const { db } = dbConnection;
+
+  try {
+    const task = await findTask(dbConnection, category, idOrCustomId);
+
+    if (await getRunningEntry(dbConnection, task.id)) {
+      throw new Error(`Timer already running for task ${task.customId}`);
+    }
+
+    await db
+      .insert(schema.timeEntries)
+      .values({ taskId: task.id, startedAt: new Date() });
+
+    console.log(`Started timer for task ${task.customId}`);
+  } catch (error) {
+    console.error("Failed to start timer:", error);
+    throw error;
+  }
+}
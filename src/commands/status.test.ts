@@ -4,8 +4,10 @@ import path from "node:path";
 import { fileURLToPath } from "node:url";
 import { status } from "./status";
 import { getTestDb } from "../utils/db";
+import { addTaskTags } from "../utils/tags";
 import { schema } from "../db";
 import type { DatabaseConnection } from "../utils/db";
+import type { Workflow } from "../utils/workflow";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -641,4 +643,194 @@ describe("status command", () => {
       consoleSpy.mockRestore();
     });
   });
+
+  describe("custom workflow", () => {
+    const workflow: Workflow = {
+      statuses: ["todo", "wip", "review", "done"],
+      initial: "todo",
+      done: ["done"],
+      actionable: ["todo", "wip"],
+      transitions: {},
+      labels: { todo: "Todo", wip: "WIP", review: "Review", done: "Done" },
+    };
+
+    it("should render a column per workflow status", async () => {
+      await dbConnection.db.delete(schema.tasks);
+      await dbConnection.db.insert(schema.tasks).values([
+        { customId: "a", category: "backend", status: "todo" },
+        { customId: "b", category: "backend", status: "review" },
+        { customId: "c", category: "backend", status: "review" },
+      ]);
+
+      const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+      await status(dbConnection, workflow);
+
+      const lines = consoleSpy.mock.calls.map((call) =>
+        call[0].split(" | ").map((part: string) => part.trim()),
+      );
+      expect(lines[0]).toEqual(["Category", "Todo", "WIP", "Review", "Done"]);
+      expect(lines[2]).toEqual(["backend", "1", "0", "2", "0"]);
+
+      consoleSpy.mockRestore();
+    });
+
+    it("should add columns for statuses outside the workflow", async () => {
+      await dbConnection.db.delete(schema.tasks);
+      await dbConnection.db.insert(schema.tasks).values([
+        { customId: "a", category: "backend", status: "wip" },
+        { customId: "b", category: "backend", status: "legacy" },
+      ]);
+
+      const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+      await status(dbConnection);
+
+      const lines = consoleSpy.mock.calls.map((call) =>
+        call[0].split(" | ").map((part: string) => part.trim()),
+      );
+      expect(lines[0]).toEqual(["Category", "WIP", "Done", "legacy"]);
+      expect(lines[2]).toEqual(["backend", "1", "0", "1"]);
+
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe("priorities", () => {
+    it("should add a column per priority in use", async () => {
+      await dbConnection.db.delete(schema.tasks);
+      await dbConnection.db.insert(schema.tasks).values([
+        { customId: "a", category: "backend", status: "wip", priority: 4 },
+        { customId: "b", category: "backend", status: "wip" },
+        { customId: "c", category: "backend", status: "done", priority: 1 },
+        { customId: "d", category: "frontend", status: "wip", priority: 4 },
+      ]);
+
+      const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+      await status(dbConnection);
+
+      const lines = consoleSpy.mock.calls.map((call) =>
+        call[0].split(" | ").map((part: string) => part.trim()),
+      );
+      expect(lines[0]).toEqual([
+        "Category",
+        "WIP",
+        "Done",
+        "Critical",
+        "Medium",
+        "Low",
+      ]);
+      expect(lines.slice(2)).toEqual([
+        ["backend", "2", "1", "1", "1", "1"],
+        ["frontend", "1", "0", "1", "0", "0"],
+      ]);
+
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe("tags", () => {
+    it("should count tasks per tag", async () => {
+      await dbConnection.db.delete(schema.tasks);
+      const [a, b] = await dbConnection.db
+        .insert(schema.tasks)
+        .values([
+          { customId: "a", category: "backend", status: "wip" },
+          { customId: "b", category: "frontend", status: "done" },
+        ])
+        .returning();
+      await addTaskTags(dbConnection, a.id, ["security", "api"]);
+      await addTaskTags(dbConnection, b.id, ["api"]);
+
+      const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+      await status(dbConnection);
+
+      const lines = consoleSpy.mock.calls.map((call) =>
+        call[0].split(" | ").map((part: string) => part.trim()),
+      );
+      expect(lines.slice(4)).toEqual([
+        [""],
+        ["Tag", "Tasks"],
+        [expect.stringMatching(/^-+-\+-+$/)],
+        ["api", "2"],
+        ["security", "1"],
+      ]);
+
+      consoleSpy.mockRestore();
+    });
+
+    it("should leave out the tag table without tags", async () => {
+      const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+      await status(dbConnection);
+
+      expect(consoleSpy).not.toHaveBeenCalledWith("");
+
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe("estimates", () => {
+    it("should sum total, remaining and completed estimates", async () => {
+      await dbConnection.db.delete(schema.tasks);
+      await dbConnection.db.insert(schema.tasks).values([
+        { customId: "a", category: "backend", status: "wip", estimate: 3 },
+        { customId: "b", category: "backend", status: "done", estimate: 5 },
+        { customId: "c", category: "backend", status: "wip", estimate: 0.5 },
+        { customId: "d", category: "backend", status: "wip" },
+        { customId: "e", category: "frontend", status: "wip" },
+      ]);
+
+      const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+      await status(dbConnection);
+
+      const lines = consoleSpy.mock.calls.map((call) =>
+        call[0].split(" | ").map((part: string) => part.trim()),
+      );
+      expect(lines[0]).toEqual([
+        "Category",
+        "WIP",
+        "Done",
+        "Estimate",
+        "Remaining",
+        "Completed",
+      ]);
+      expect(lines.slice(2)).toEqual([
+        ["backend", "3", "1", "8.5", "3.5", "5"],
+        ["frontend", "1", "0", "0", "0", "0"],
+      ]);
+
+      consoleSpy.mockRestore();
+    });
+
+    it("should count estimates of custom done statuses as completed", async () => {
+      const workflow: Workflow = {
+        statuses: ["todo", "doing", "shipped"],
+        initial: "todo",
+        done: ["shipped"],
+        actionable: ["todo", "doing"],
+        labels: {},
+        transitions: {},
+      };
+      await dbConnection.db.delete(schema.tasks);
+      await dbConnection.db.insert(schema.tasks).values([
+        { customId: "a", category: "backend", status: "doing", estimate: 2 },
+        { customId: "b", category: "backend", status: "shipped", estimate: 1 },
+      ]);
+
+      const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+      await status(dbConnection, workflow);
+
+      const lines = consoleSpy.mock.calls.map((call) =>
+        call[0].split(" | ").map((part: string) => part.trim()),
+      );
+      expect(lines[2].slice(-3)).toEqual(["3", "2", "1"]);
+
+      consoleSpy.mockRestore();
+    });
+  });
 });
@@ -1,15 +1,44 @@
-import { sql } from "drizzle-orm";
+import { asc, desc, eq, sql } from "drizzle-orm";
 import { schema } from "../db";
 import type { DatabaseConnection } from "../utils/db";
-import { stringWidth, padEnd } from "../utils/string-width";
+import { defaultPriority, getPriorityLabel } from "../utils/priority";
+import { archivedCondition } from "../utils/query";
+import { renderTable, type TableColumn } from "../utils/table";
+import {
+  defaultWorkflow,
+  getStatusLabel,
+  isDoneStatus,
+  type Workflow,
+} from "../utils/workflow";
 
 interface StatusSummary {
   category: string;
-  wipCount: number;
-  doneCount: number;
+  counts: Record<string, number>;
+  /** Task counts by priority value */
+  priorities: Record<number, number>;
+  /** Sum of task estimates, split by whether the tasks are done */
+  estimate: {
+    total: number;
+    remaining: number;
+    completed: number;
+  };
 }
 
-export async function status(dbConnection: DatabaseConnection) {
+const estimateColumns: TableColumn<StatusSummary>[] = [
+  { header: "Estimate", value: (s) => formatEstimate(s.estimate.total) },
+  { header: "Remaining", value: (s) => formatEstimate(s.estimate.remaining) },
+  { header: "Completed", value: (s) => formatEstimate(s.estimate.completed) },
+];
+
+/** Round sums of fractional estimates (e.g. 0.1 + 0.2) for display */
+function formatEstimate(value: number): string {
+  return Number(value.toFixed(2)).toString();
+}
+
+export async function status(
+  dbConnection: DatabaseConnection,
+  workflow: Workflow = defaultWorkflow,
+) {
   const { db } = dbConnection;
 
   try {
@@ -19,31 +48,73 @@ export async function status(dbConnection: DatabaseConnection) {
         category: schema.tasks.category,
         status: schema.tasks.status,
         count: sql<number>`COUNT(*)`.as("count"),
+        estimate: sql<number | null>`SUM(${schema.tasks.estimate})`,
       })
       .from(schema.tasks)
+      .where(archivedCondition())
       .groupBy(schema.tasks.category, schema.tasks.status);
 
     // Transform results into summary format
     const summaryMap = new Map<string, StatusSummary>();
+    // Statuses outside the workflow (e.g. left over from an older one) get their own columns
+    const statuses = [...workflow.statuses];
+    // Estimate columns are left out until some task has an estimate
+    let hasEstimates = false;
 
     for (const result of results) {
       let summary = summaryMap.get(result.category);
       if (!summary) {
         summary = {
           category: result.category,
-          wipCount: 0,
-          doneCount: 0,
+          counts: {},
+          priorities: {},
+          estimate: { total: 0, remaining: 0, completed: 0 },
         };
         summaryMap.set(result.category, summary);
       }
 
-      if (result.status === "wip") {
-        summary.wipCount = result.count;
-      } else if (result.status === "done") {
-        summary.doneCount = result.count;
+      if (result.estimate !== null) {
+        hasEstimates = true;
+        summary.estimate.total += result.estimate;
+        if (result.status !== null && isDoneStatus(workflow, result.status)) {
+          summary.estimate.completed += result.estimate;
+        } else {
+          summary.estimate.remaining += result.estimate;
+        }
+      }
+
+      if (result.status === null) continue;
+      summary.counts[result.status] = result.count;
+      if (!statuses.includes(result.status)) {
+        statuses.push(result.status);
       }
     }
 
+    const priorityResults = await db
+      .select({
+        category: schema.tasks.category,
+        priority: schema.tasks.priority,
+        count: sql<number>`COUNT(*)`.as("count"),
+      })
+      .from(schema.tasks)
+      .where(archivedCondition())
+      .groupBy(schema.tasks.category, schema.tasks.priority)
+      .orderBy(desc(schema.tasks.priority));
+
+    // Only priorities in use get a column, most important first
+    const priorities: number[] = [];
+    for (const result of priorityResults) {
+      const summary = summaryMap.get(result.category);
+      if (summary) summary.priorities[result.priority] = result.count;
+      if (!priorities.includes(result.priority)) {
+        priorities.push(result.priority);
+      }
+    }
+    // Leave them out while every task has the default priority
+    if (priorities.every((priority) => priority === defaultPriority)) {
+      priorities.length = 0;
+    }
+
     const summaries = Array.from(summaryMap.values());
 
     if (summaries.length === 0) {
@@ -51,40 +122,48 @@ export async function status(dbConnection: DatabaseConnection) {
       return;
     }
 
-    // Calculate column widths based on actual content
-    const cols = {
-      category: Math.max(8, ...summaries.map((s) => stringWidth(s.category))),
-      wip: Math.max(
-        3,
-        ...summaries.map((s) => stringWidth(s.wipCount.toString())),
-      ),
-      done: Math.max(
-        4,
-        ...summaries.map((s) => stringWidth(s.doneCount.toString())),
-      ),
-    };
-
-    // Header
-    console.log(
-      `${padEnd("Category", cols.category)} | ` +
-        `${padEnd("WIP", cols.wip)} | ` +
-        `${padEnd("Done", cols.done)}`,
+    const lines = renderTable<StatusSummary>(
+      [
+        { header: "Category", value: (s) => s.category },
+        ...statuses.map((status) => ({
+          header: getStatusLabel(workflow, status),
+          value: (s: StatusSummary) => (s.counts[status] ?? 0).toString(),
+        })),
+        ...priorities.map((priority) => ({
+          header: getPriorityLabel(priority),
+          value: (s: StatusSummary) => (s.priorities[priority] ?? 0).toString(),
+        })),
+        ...(hasEstimates ? estimateColumns : []),
+      ],
+      summaries,
     );
+    for (const line of lines) {
+      console.log(line);
+    }
 
-    // Separator
-    console.log(
-      `${"-".repeat(cols.category)}-+-` +
-        `${"-".repeat(cols.wip)}-+-` +
-        `${"-".repeat(cols.done)}`,
-    );
+    const tagCounts = await db
+      .select({
+        tag: schema.tags.name,
+        count: sql<number>`COUNT(*)`.as("count"),
+      })
+      .from(schema.taskTags)
+      .innerJoin(schema.tags, eq(schema.tags.id, schema.taskTags.tagId))
+      .innerJoin(schema.tasks, eq(schema.tasks.id, schema.taskTags.taskId))
+      .where(archivedCondition())
+      .groupBy(schema.tags.name)
+      .orderBy(desc(sql`count`), asc(schema.tags.name));
 
-    // Data rows
-    for (const summary of summaries) {
-      console.log(
-        `${padEnd(summary.category, cols.category)} | ` +
-          `${padEnd(summary.wipCount.toString(), cols.wip)} | ` +
-          `${padEnd(summary.doneCount.toString(), cols.done)}`,
-      );
+    if (tagCounts.length > 0) {
+      console.log("");
+      for (const line of renderTable(
+        [
+          { header: "Tag", value: (t) => t.tag },
+          { header: "Tasks", value: (t) => t.count.toString() },
+        ],
+        tagCounts,
+      )) {
+        console.log(line);
+      }
     }
   } catch (error) {
     console.error("Failed to show status:", error);
@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { migrate } from "drizzle-orm/better-sqlite3/migrator";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { start } from "./start";
+import { stop } from "./stop";
+import { getTestDb } from "../utils/db";
+import { schema } from "../db";
+import type { DatabaseConnection } from "../utils/db";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+describe("stop command", () => {
+  let dbConnection: DatabaseConnection;
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date(2025, 5, 11, 12, 0));
+
+    dbConnection = getTestDb();
+    const migrationsFolder = path.join(__dirname, "../db/../../drizzle");
+    migrate(dbConnection.db, { migrationsFolder });
+
+    await dbConnection.db
+      .insert(schema.tasks)
+      .values([
+        { id: 1, customId: "task-001", category: "development", status: "wip" },
+      ]);
+  });
+
+  afterEach(() => {
+    dbConnection.sqlite.close();
+    vi.useRealTimers();
+  });
+
+  it("should stop the running timer and report the time", async () => {
+    const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+    await start(dbConnection, "development", "task-001");
+    vi.setSystemTime(new Date(2025, 5, 11, 13, 5));
+    await stop(dbConnection, "development", "task-001");
+
+    expect(consoleSpy).toHaveBeenLastCalledWith(
+      "Stopped timer for task task-001 after 1h 05m (total 1h 05m)",
+    );
+    const [entry] = await dbConnection.db.select().from(schema.timeEntries);
+    expect(entry.stoppedAt).toEqual(new Date(2025, 5, 11, 13, 5));
+
+    consoleSpy.mockRestore();
+  });
+
+  it("should add up the time of every entry", async () => {
+    const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+    await start(dbConnection, "development", "1");
+    vi.setSystemTime(new Date(2025, 5, 11, 12, 30));
+    await stop(dbConnection, "development", "1");
+    vi.setSystemTime(new Date(2025, 5, 11, 14, 0));
+    await start(dbConnection, "development", "1");
+    vi.setSystemTime(new Date(2025, 5, 11, 14, 45));
+    await stop(dbConnection, "development", "1");
+
+    expect(consoleSpy).toHaveBeenLastCalledWith(
+      "Stopped timer for task task-001 after 45m (total 1h 15m)",
+    );
+
+    consoleSpy.mockRestore();
+  });
+
+  it("should throw error when no timer is running", async () => {
+    const consoleErrorSpy = vi
+      .spyOn(console, "error")
+      .mockImplementation(() => {});
+
+    await expect(stop(dbConnection, "development", "task-001")).rejects.toThrow(
+      "No timer running for task task-001",
+    );
+
+    consoleErrorSpy.mockRestore();
+  });
+});
@@ -0,0 +1,47 @@
+import { eq } from "drizzle-orm";
+import { schema } from "../db";
+import type { DatabaseConnection } from "../utils/db";
+import { findTask } from "../utils/lookup";
+import {
+  formatDuration,
+  getRunningEntry,
+  getTrackedSeconds,
+} from "../utils/time-tracking";
+
+export async function stop(
+  dbConnection: DatabaseConnection,
+  category: string,
+  idOrCustomId: string,
+) {
+  const { db } = dbConnection;
+
+  try {
+    const task = await findTask(dbConnection, category, idOrCustomId);
+
+    const entry = await getRunningEntry(dbConnection, task.id);
+    if (!entry) {
+      throw new Error(`No timer running for task ${task.customId}`);
+    }
+
+    const now = new Date();
+    await db
+      .update(schema.timeEntries)
+      .set({ stoppedAt: now })
+      .where(eq(schema.timeEntries.id, entry.id));
+
+    // Timestamps are stored with second precision
+    const elapsed = Math.max(
+      0,
+      Math.floor(now.getTime() / 1000) -
+        Math.floor(entry.startedAt.getTime() / 1000),
+    );
+    const total =
+      (await getTrackedSeconds(dbConnection, [task.id], now)).get(task.id) ?? 0;
+    console.log(
+      `Stopped timer for task ${task.customId} after ${formatDuration(elapsed)} (total ${formatDuration(total)})`,
+    );
+  } catch (error) {
+    console.error("Failed to stop timer:", error);
+    throw error;
+  }
+}
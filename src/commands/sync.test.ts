@@ -0,0 +1,261 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { migrate } from "drizzle-orm/better-sqlite3/migrator";
+import {
+  existsSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { eq } from "drizzle-orm";
+import { sync } from "./sync";
+import { add } from "./add";
+import { done } from "./done";
+import { update } from "./update";
+import { undo } from "./undo";
+import { getTestDb } from "../utils/db";
+import { schema } from "../db";
+import type { DatabaseConnection } from "../utils/db";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+describe("sync command", () => {
+  let dbConnection: DatabaseConnection;
+  let dir: string;
+  let file: string;
+  let output: string[];
+
+  const readFile = () => readFileSync(file, "utf-8").split("\n");
+  const editFile = (edit: (text: string) => string) =>
+    writeFileSync(file, edit(readFileSync(file, "utf-8")));
+  const getTask = async (customId: string) => {
+    const [task] = await dbConnection.db
+      .select()
+      .from(schema.tasks)
+      .where(eq(schema.tasks.customId, customId));
+    return task;
+  };
+
+  beforeEach(async () => {
+    dbConnection = getTestDb();
+    const migrationsFolder = path.join(__dirname, "../db/../../drizzle");
+    migrate(dbConnection.db, { migrationsFolder });
+
+    dir = mkdtempSync(path.join(tmpdir(), "tdlite-sync-"));
+    file = path.join(dir, "TASKS.md");
+
+    output = [];
+    vi.spyOn(console, "log").mockImplementation((line) => output.push(line));
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    await add(
+      dbConnection,
+      "backend",
+      JSON.stringify([
+        { customId: "api", name: "Build API", priority: "high" },
+        { customId: "api-users", name: "Users endpoint", parent: "api" },
+        { customId: "db", name: "Set up DB" },
+      ]),
+    );
+    output = [];
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    dbConnection.sqlite.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should write the file from the database on the first sync", async () => {
+    await sync(dbConnection, file);
+
+    expect(readFile()).toEqual([
+      "# backend",
+      "",
+      "- [ ] Build API <!-- id:api priority:high -->",
+      "  - [ ] Users endpoint <!-- id:api-users -->",
+      "- [ ] Set up DB <!-- id:db -->",
+      "",
+    ]);
+    expect(output).toEqual([
+      "file: add backend/api",
+      "file: add backend/api-users",
+      "file: add backend/db",
+      `Synced ${file} with the database: 3 changes`,
+    ]);
+  });
+
+  it("should report nothing to do when both sides agree", async () => {
+    await sync(dbConnection, file);
+    const before = readFile();
+    output = [];
+
+    await sync(dbConnection, file);
+
+    expect(readFile()).toEqual(before);
+    expect(output).toEqual([`${file} is in sync with the database`]);
+  });
+
+  it("should apply edits of the file to the database", async () => {
+    await sync(dbConnection, file);
+    editFile((text) =>
+      text
+        .replace("- [ ] Users endpoint", "- [x] Users endpoint")
+        .replace("- [ ] Set up DB <!-- id:db -->\n", "")
+        .concat("\n# frontend\n\n- [ ] Design UI\n"),
+    );
+    output = [];
+
+    await sync(dbConnection, file);
+
+    expect((await getTask("api-users")).status).toBe("done");
+    expect((await getTask("db")).archivedAt).not.toBeNull();
+    expect((await getTask("design-ui")).category).toBe("frontend");
+    expect(output).toEqual([
+      "database: update backend/api-users (status)",
+      "database: add frontend/design-ui",
+      "database: remove backend/db",
+      `Synced ${file} with the database: 3 changes`,
+    ]);
+    // The new task gets its id written back
+    expect(readFile()).toEqual([
+      "# backend",
+      "",
+      "- [ ] Build API <!-- id:api priority:high -->",
+      "  - [x] Users endpoint <!-- id:api-users -->",
+      "",
+      "# frontend",
+      "",
+      "- [ ] Design UI <!-- id:design-ui -->",
+      "",
+    ]);
+  });
+
+  it("should write changes of the database to the file", async () => {
+    await sync(dbConnection, file);
+    await done(dbConnection, "backend", "db");
+    await add(
+      dbConnection,
+      "backend",
+      JSON.stringify([{ customId: "cache", name: "Add cache" }]),
+    );
+    output = [];
+
+    await sync(dbConnection, file);
+
+    expect(readFile()).toContain("- [x] Set up DB <!-- id:db -->");
+    expect(readFile()).toContain("- [ ] Add cache <!-- id:cache -->");
+    expect(output).toEqual([
+      "file: update backend/db (status)",
+      "file: add backend/cache",
+      `Synced ${file} with the database: 2 changes`,
+    ]);
+  });
+
+  it("should merge different fields changed on both sides", async () => {
+    await sync(dbConnection, file);
+    await done(dbConnection, "backend", "db");
+    editFile((text) => text.replace("Set up DB", "Set up SQLite"));
+
+    await sync(dbConnection, file);
+
+    const task = await getTask("db");
+    expect([task.name, task.status]).toEqual(["Set up SQLite", "done"]);
+    expect(readFile()).toContain("- [x] Set up SQLite <!-- id:db -->");
+  });
+
+  it("should stop on conflicts without writing either side", async () => {
+    await sync(dbConnection, file);
+    await update(dbConnection, "backend", "db", '{"name": "Set up Postgres"}');
+    await update(dbConnection, "backend", "api", '{"priority": "low"}');
+    editFile((text) =>
+      text
+        .replace("Set up DB", "Set up SQLite")
+        .replace("  - [ ] Users endpoint <!-- id:api-users -->\n", "")
+        .replace("- [ ] Build API", "- [ ] Build the API"),
+    );
+    const before = readFileSync(file, "utf-8");
+
+    await expect(sync(dbConnection, file)).rejects.toThrow(
+      [
+        "Both the file and the database changed these tasks since the last sync:",
+        "  backend/db: name",
+        "Sync again with --prefer file or --prefer database to keep the changes of one side",
+      ].join("\n"),
+    );
+
+    expect(readFileSync(file, "utf-8")).toBe(before);
+    expect((await getTask("api")).name).toBe("Build API");
+    expect((await getTask("api-users")).archivedAt).toBeNull();
+  });
+
+  it("should treat removing a task changed on the other side as a conflict", async () => {
+    await sync(dbConnection, file);
+    await done(dbConnection, "backend", "db");
+    editFile((text) => text.replace("- [ ] Set up DB <!-- id:db -->\n", ""));
+
+    await expect(sync(dbConnection, file)).rejects.toThrow(
+      "  backend/db: removed on one side, changed on the other",
+    );
+  });
+
+  it("should resolve conflicts with the preferred side", async () => {
+    await sync(dbConnection, file);
+    await update(dbConnection, "backend", "db", '{"name": "Set up Postgres"}');
+    editFile((text) => text.replace("Set up DB", "Set up SQLite"));
+
+    await sync(dbConnection, file, undefined, { prefer: "file" });
+    expect((await getTask("db")).name).toBe("Set up SQLite");
+
+    await update(dbConnection, "backend", "db", '{"name": "Set up Postgres"}');
+    editFile((text) => text.replace("Set up SQLite", "Set up MySQL"));
+
+    await sync(dbConnection, file, undefined, { prefer: "database" });
+    expect((await getTask("db")).name).toBe("Set up Postgres");
+    expect(readFile()).toContain("- [ ] Set up Postgres <!-- id:db -->");
+  });
+
+  it("should conflict on different tasks with the same id on the first sync", async () => {
+    writeFileSync(file, "# backend\n\n- [ ] Set up SQLite <!-- id:db -->\n");
+
+    await expect(sync(dbConnection, file)).rejects.toThrow(
+      "  backend/db: name",
+    );
+  });
+
+  it("should point at tasks outside of a heading", async () => {
+    writeFileSync(file, "- [ ] Loose task\n");
+
+    await expect(sync(dbConnection, file)).rejects.toThrow(
+      "Missing category (put the task under a heading) at index 0 (line 1)",
+    );
+  });
+
+  it("should report a dry run without writing", async () => {
+    await sync(dbConnection, file, undefined, { dryRun: true });
+
+    expect(existsSync(file)).toBe(false);
+    expect(output.at(-1)).toBe(
+      `Dry run: 3 changes to sync with ${file} (nothing was written)`,
+    );
+    expect(await dbConnection.db.select().from(schema.syncStates)).toEqual([]);
+  });
+
+  it("should undo the changes a sync made to the database", async () => {
+    await sync(dbConnection, file);
+    editFile((text) => text.replace("- [ ] Set up DB", "- [x] Set up DB"));
+    await sync(dbConnection, file);
+    expect((await getTask("db")).status).toBe("done");
+
+    await undo(dbConnection);
+    expect((await getTask("db")).status).toBe("wip");
+
+    // The file follows the database on the next sync
+    await sync(dbConnection, file);
+    expect(readFile()).toContain("- [ ] Set up DB <!-- id:db -->");
+  });
+});
@@ -0,0 +1,212 @@
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import { eq } from "drizzle-orm";
+import { schema } from "../db";
+import { type DatabaseConnection, withTransaction } from "../utils/db";
+import { recordEvent } from "../utils/events";
+import { journaled } from "../utils/journal";
+import { allCategories, categoryCondition, queryTasks } from "../utils/query";
+import {
+  changedFields,
+  mergeTasks,
+  normalizeTask,
+  SyncConflictError,
+  type SyncSide,
+  syncKey,
+} from "../utils/sync";
+import {
+  formatTasks,
+  type PortableTask,
+  readPortableTasks,
+  toPortableTasks,
+} from "../utils/task-formats";
+import { TaskInputError } from "../utils/task-input";
+import { upsertTasks } from "../utils/upsert";
+import { defaultWorkflow, type Workflow } from "../utils/workflow";
+
+export interface SyncOptions {
+  /** Resolve conflicts by keeping the changes of this side */
+  prefer?: SyncSide;
+  /** Report what would change without writing anything */
+  dryRun?: boolean;
+}
+
+/**
+ * The tasks of the database that aren't archived, in their normalized exported form
+ */
+async function readDatabaseTasks(
+  dbConnection: DatabaseConnection,
+  workflow: Workflow,
+) {
+  const tasks = await queryTasks(
+    dbConnection,
+    categoryCondition(allCategories),
+    { sort: "id" },
+  );
+  const portable = await toPortableTasks(dbConnection, tasks);
+  return { tasks, portable: portable.map((t) => normalizeTask(t, workflow)) };
+}
+
+/**
+ * Reconcile a Markdown checklist with the database in both directions
+ * Changes made on either side since the last sync are applied to the other side,
+ * then the file is rewritten from the database in the export layout
+ */
+export async function sync(
+  dbConnection: DatabaseConnection,
+  file: string,
+  workflow: Workflow = defaultWorkflow,
+  options: SyncOptions = {},
+) {
+  const { db } = dbConnection;
+  const filePath = path.resolve(file);
+
+  try {
+    const [state] = await db
+      .select()
+      .from(schema.syncStates)
+      .where(eq(schema.syncStates.path, filePath));
+    const base = (state?.tasks ?? []) as PortableTask[];
+
+    const text = existsSync(filePath) ? readFileSync(filePath, "utf-8") : "";
+    const fileTasks =
+      text.trim() === ""
+        ? []
+        : (
+            await readPortableTasks(text, "markdown", workflow, (task) => {
+              if (!task.category) {
+                throw new Error(
+                  "Missing category (put the task under a heading)",
+                );
+              }
+              normalizeTask(task, workflow);
+            })
+          ).map((task) => normalizeTask(task, workflow));
+
+    const current = await readDatabaseTasks(dbConnection, workflow);
+    const { tasks: merged, conflicts } = mergeTasks(
+      base,
+      fileTasks,
+      current.portable,
+      options.prefer,
+    );
+    if (conflicts.length > 0) {
+      throw new SyncConflictError(conflicts);
+    }
+
+    const changes: string[] = [];
+    const describe = (
+      side: SyncSide,
+      before: PortableTask | undefined,
+      after: PortableTask | undefined,
+    ) => {
+      const task = (after ?? before) as PortableTask;
+      const name = `${task.category}/${task.customId}`;
+      if (!before) {
+        changes.push(`${side}: add ${name}`);
+      } else if (!after) {
+        changes.push(`${side}: remove ${name}`);
+      } else {
+        const fields = changedFields(before, after);
+        if (fields.length > 0) {
+          changes.push(`${side}: update ${name} (${fields.join(", ")})`);
+        }
+      }
+    };
+
+    const databaseTasks = new Map(
+      current.portable.map((task) => [syncKey(task), task]),
+    );
+    const fileByKey = new Map(fileTasks.map((task) => [syncKey(task), task]));
+    const mergedKeys = new Set(merged.map((task) => syncKey(task)));
+
+    await withTransaction(
+      dbConnection,
+      async () => {
+        await journaled(dbConnection, `sync ${file}`, async () => {
+          const byCategory = new Map<string, PortableTask[]>();
+          for (const task of merged) {
+            const before = databaseTasks.get(syncKey(task));
+            if (before && changedFields(before, task).length === 0) continue;
+
+            describe("database", before, task);
+            const { category, ...fields } = task;
+            const group = byCategory.get(category as string) ?? [];
+            byCategory.set(category as string, [...group, fields]);
+          }
+          for (const [category, group] of byCategory) {
+            await upsertTasks(dbConnection, category, group, workflow, {});
+          }
+
+          // Tasks removed from the file are archived, like remove does
+          for (const task of current.tasks) {
+            const before = databaseTasks.get(syncKey(task));
+            if (mergedKeys.has(syncKey(task))) continue;
+
+            describe("database", before, undefined);
+            await db
+              .update(schema.tasks)
+              .set({ archivedAt: new Date() })
+              .where(eq(schema.tasks.id, task.id));
+            await recordEvent(dbConnection, {
+              taskId: task.id,
+              type: "archive",
+            });
+          }
+        });
+
+        const synced = await readDatabaseTasks(dbConnection, workflow);
+        const syncedKeys = new Set(synced.portable.map((t) => syncKey(t)));
+        for (const task of synced.portable) {
+          describe("file", fileByKey.get(syncKey(task)), task);
+        }
+        for (const task of fileTasks) {
+          if (!syncedKeys.has(syncKey(task))) describe("file", task, undefined);
+        }
+        if (options.dryRun) return;
+
+        await db
+          .insert(schema.syncStates)
+          .values({
+            path: filePath,
+            tasks: synced.portable,
+            syncedAt: new Date(),
+          })
+          .onConflictDoUpdate({
+            target: schema.syncStates.path,
+            set: { tasks: synced.portable, syncedAt: new Date() },
+          });
+
+        // Written last, so that a failing write leaves the database untouched
+        const markdown = formatTasks(synced.portable, "markdown", workflow);
+        const output = markdown === "" ? "" : `${markdown}\n`;
+        if (output !== text) {
+          writeFileSync(filePath, output);
+        }
+      },
+      { rollback: options.dryRun },
+    );
+
+    for (const line of changes) {
+      console.log(line);
+    }
+    if (options.dryRun) {
+      console.log(
+        `Dry run: ${changes.length} changes to sync with ${file} (nothing was written)`,
+      );
+    } else if (changes.length === 0) {
+      console.log(`${file} is in sync with the database`);
+    } else {
+      console.log(
+        `Synced ${file} with the database: ${changes.length} changes`,
+      );
+    }
+  } catch (error) {
+    if (error instanceof TaskInputError || error instanceof SyncConflictError) {
+      console.error(error.message);
+    } else {
+      console.error("Failed to sync:", error);
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { migrate } from "drizzle-orm/better-sqlite3/migrator";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { tag } from "./tag";
+import { getTestDb } from "../utils/db";
+import { getTags } from "../utils/tags";
+import { schema } from "../db";
+import type { DatabaseConnection } from "../utils/db";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+describe("tag command", () => {
+  let dbConnection: DatabaseConnection;
+
+  beforeEach(async () => {
+    dbConnection = getTestDb();
+    const migrationsFolder = path.join(__dirname, "../db/../../drizzle");
+    migrate(dbConnection.db, { migrationsFolder });
+
+    await dbConnection.db.insert(schema.tasks).values([
+      { id: 1, customId: "task-001", category: "development", status: "wip" },
+      { id: 2, customId: "task-002", category: "development", status: "wip" },
+      { id: 3, customId: "task-003", category: "testing", status: "wip" },
+    ]);
+  });
+
+  afterEach(() => {
+    dbConnection.sqlite.close();
+  });
+
+  it("should add tags to a task by customId", async () => {
+    const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+    await tag(dbConnection, "development", "task-001", "Security,tech-debt");
+
+    expect(consoleSpy).toHaveBeenCalledWith(
+      "Task task-001 tags: security, tech-debt",
+    );
+    expect((await getTags(dbConnection, [1])).get(1)).toEqual([
+      "security",
+      "tech-debt",
+    ]);
+
+    consoleSpy.mockRestore();
+  });
+
+  it("should keep existing tags and share tags between tasks", async () => {
+    const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+    await tag(dbConnection, "development", "1", "security");
+    await tag(dbConnection, "development", "1", "api,security");
+    await tag(dbConnection, "development", "2", "api");
+
+    const tags = await getTags(dbConnection, [1, 2]);
+    expect(tags.get(1)).toEqual(["api", "security"]);
+    expect(tags.get(2)).toEqual(["api"]);
+    expect(await dbConnection.db.select().from(schema.tags)).toHaveLength(2);
+
+    consoleSpy.mockRestore();
+  });
+
+  it("should reject invalid tags", async () => {
+    const consoleErrorSpy = vi
+      .spyOn(console, "error")
+      .mockImplementation(() => {});
+
+    await expect(
+      tag(dbConnection, "development", "task-001", "api,,security"),
+    ).rejects.toThrow("Invalid tag ''");
+    expect(await dbConnection.db.select().from(schema.tags)).toEqual([]);
+
+    consoleErrorSpy.mockRestore();
+  });
+
+  it("should throw error when the task is in another category", async () => {
+    const consoleErrorSpy = vi
+      .spyOn(console, "error")
+      .mockImplementation(() => {});
+
+    await expect(
+      tag(dbConnection, "development", "task-003", "api"),
+    ).rejects.toThrow("Task not found: task-003");
+    expect(consoleErrorSpy).toHaveBeenCalledWith(
+      "Task not found with customId: task-003 in category 'development'",
+    );
+
+    consoleErrorSpy.mockRestore();
+  });
+});
@@ -0,0 +1,23 @@
+import type { DatabaseConnection } from "../utils/db";
+import { findTask } from "../utils/lookup";
+import { addTaskTags, getTags, parseTagList } from "../utils/tags";
+
+export async function tag(
+  dbConnection: DatabaseConnection,
+  category: string,
+  idOrCustomId: string,
+  tagList: string,
+) {
+  try {
+    const tags = parseTagList(tagList);
+    const task = await findTask(dbConnection, category, idOrCustomId);
+
+    await addTaskTags(dbConnection, task.id, tags);
+
+    const current = (await getTags(dbConnection, [task.id])).get(task.id);
+    console.log(`Task ${task.customId} tags: ${(current ?? []).join(", ")}`);
+  } catch (error) {
+    console.error("Failed to tag task:", error);
+    throw error;
+  }
+}
@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { migrate } from "drizzle-orm/better-sqlite3/migrator";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { timesheet } from "./timesheet";
+import { getTestDb } from "../utils/db";
+import { schema } from "../db";
+import type { DatabaseConnection } from "../utils/db";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+describe("timesheet command", () => {
+  let dbConnection: DatabaseConnection;
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date(2025, 5, 11, 12, 0));
+
+    dbConnection = getTestDb();
+    const migrationsFolder = path.join(__dirname, "../db/../../drizzle");
+    migrate(dbConnection.db, { migrationsFolder });
+
+    await dbConnection.db.insert(schema.tasks).values([
+      { id: 1, customId: "api", category: "backend", status: "wip" },
+      { id: 2, customId: "db", category: "backend", status: "done" },
+      { id: 3, customId: "ui", category: "frontend", status: "wip" },
+    ]);
+    await dbConnection.db.insert(schema.timeEntries).values([
+      {
+        taskId: 1,
+        startedAt: new Date(2025, 5, 9, 9, 0),
+        stoppedAt: new Date(2025, 5, 9, 10, 30),
+      },
+      {
+        taskId: 2,
+        startedAt: new Date(2025, 5, 9, 14, 0),
+        stoppedAt: new Date(2025, 5, 9, 14, 45),
+      },
+      // Spans midnight
+      {
+        taskId: 3,
+        startedAt: new Date(2025, 5, 9, 23, 0),
+        stoppedAt: new Date(2025, 5, 10, 1, 0),
+      },
+      // Still running
+      { taskId: 1, startedAt: new Date(2025, 5, 11, 11, 30) },
+    ]);
+  });
+
+  afterEach(() => {
+    dbConnection.sqlite.close();
+    vi.useRealTimers();
+  });
+
+  const linesOf = (consoleSpy: ReturnType<typeof vi.spyOn>) =>
+    consoleSpy.mock.calls.map((call) =>
+      (call[0] as string).split(" | ").map((part) => part.trim()),
+    );
+
+  it("should total time per day and category", async () => {
+    const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+    await timesheet(dbConnection, "*");
+
+    const lines = linesOf(consoleSpy);
+    expect(lines[0]).toEqual(["Day", "Category", "Time"]);
+    expect(lines.slice(2)).toEqual([
+      ["2025-06-09", "backend", "2h 15m"],
+      ["2025-06-09", "frontend", "1h 00m"],
+      ["2025-06-10", "frontend", "1h 00m"],
+      ["2025-06-11", "backend", "30m"],
+      [""],
+      ["Total: 4h 45m"],
+    ]);
+
+    consoleSpy.mockRestore();
+  });
+
+  it("should only count time within the period", async () => {
+    const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+    await timesheet(dbConnection, "front*", {
+      since: new Date(2025, 5, 10),
+      until: new Date(2025, 5, 11),
+    });
+
+    expect(linesOf(consoleSpy).slice(2)).toEqual([
+      ["2025-06-10", "frontend", "1h 00m"],
+      [""],
+      ["Total: 1h 00m"],
+    ]);
+
+    consoleSpy.mockRestore();
+  });
+
+  it("should display message when no time is tracked", async () => {
+    const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+    await timesheet(dbConnection, "docs");
+
+    expect(consoleSpy).toHaveBeenCalledWith(
+      "No time tracked in category 'docs'",
+    );
+
+    consoleSpy.mockRestore();
+  });
+});
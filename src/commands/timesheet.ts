@@ -0,0 +1,98 @@
+import { and, eq } from "drizzle-orm";
+import { schema } from "../db";
+import { formatDate } from "../utils/date";
+import type { DatabaseConnection } from "../utils/db";
+import { categoryCondition, describeCategories } from "../utils/query";
+import { renderTable } from "../utils/table";
+import {
+  formatDuration,
+  overlapsPeriod,
+  splitByDay,
+} from "../utils/time-tracking";
+
+export interface TimesheetOptions {
+  /** Only count time tracked from this date on */
+  since?: Date;
+  /** Only count time tracked before this date */
+  until?: Date;
+}
+
+interface TimesheetRow {
+  day: string;
+  category: string;
+  seconds: number;
+}
+
+/**
+ * Print the tracked time per day and category
+ * Running timers count up to now, and entries spanning midnight are split across days
+ */
+export async function timesheet(
+  dbConnection: DatabaseConnection,
+  category: string,
+  options: TimesheetOptions = {},
+) {
+  const { db } = dbConnection;
+
+  try {
+    const entries = await db
+      .select({ entry: schema.timeEntries, category: schema.tasks.category })
+      .from(schema.timeEntries)
+      .innerJoin(schema.tasks, eq(schema.tasks.id, schema.timeEntries.taskId))
+      .where(
+        and(
+          categoryCondition(category),
+          overlapsPeriod(options.since, options.until),
+        ),
+      );
+
+    const now = new Date();
+    const rows = new Map<string, TimesheetRow>();
+    for (const { entry, category } of entries) {
+      // Only count the part of the entry within the period
+      let from = entry.startedAt;
+      let to = entry.stoppedAt ?? now;
+      if (options.since && from < options.since) from = options.since;
+      if (options.until && to > options.until) to = options.until;
+
+      for (const { day, seconds } of splitByDay(from, to)) {
+        const key = `${formatDate(day)}\t${category}`;
+        const row = rows.get(key) ?? {
+          day: formatDate(day),
+          category,
+          seconds: 0,
+        };
+        row.seconds += seconds;
+        rows.set(key, row);
+      }
+    }
+
+    if (rows.size === 0) {
+      console.log(`No time tracked in ${describeCategories(category)}`);
+      return;
+    }
+
+    const sorted = [...rows.values()].sort(
+      (a, b) =>
+        a.day.localeCompare(b.day) || a.category.localeCompare(b.category),
+    );
+    const lines = renderTable<TimesheetRow>(
+      [
+        { header: "Day", value: (row) => row.day },
+        { header: "Category", value: (row) => row.category },
+        { header: "Time", value: (row) => formatDuration(row.seconds) },
+      ],
+      sorted,
+    );
+    for (const line of lines) {
+      console.log(line);
+    }
+
+    const total = sorted.reduce((sum, row) => sum + row.seconds, 0);
+    console.log("");
+    console.log(`Total: ${formatDuration(total)}`);
+  } catch (error) {
+    console.error("Failed to show timesheet:", error);
+    throw error;
+  }
+}
@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import { migrate } from "drizzle-orm/better-sqlite3/migrator";
+import { eq } from "drizzle-orm";
 import path from "node:path";
 import { fileURLToPath } from "node:url";
 import { todo } from "./todo";
@@ -521,4 +522,128 @@ describe("todo command", () => {
       consoleSpy.mockRestore();
     });
   });
+
+  describe("dependencies", () => {
+    it("should mark tasks blocked by unfinished prerequisites", async () => {
+      // wip-002 depends on wip-001, which depends on the finished done-001
+      await dbConnection.db.insert(schema.taskDependencies).values([
+        { taskId: 2, dependsOnId: 1 },
+        { taskId: 1, dependsOnId: 3 },
+      ]);
+
+      const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+      await todo(dbConnection, "development");
+
+      const output = consoleSpy.mock.calls[0][0];
+      const results = JSON.parse(output);
+
+      const actionable = results.find((t: Task) => t.customId === "wip-001");
+      const blocked = results.find((t: Task) => t.customId === "wip-002");
+
+      expect(actionable).toMatchObject({ blocked: false, blockedBy: [] });
+      expect(blocked).toMatchObject({ blocked: true, blockedBy: ["wip-001"] });
+
+      consoleSpy.mockRestore();
+    });
+
+    it("should unblock tasks once prerequisites are done", async () => {
+      await dbConnection.db
+        .insert(schema.taskDependencies)
+        .values({ taskId: 2, dependsOnId: 1 });
+      await dbConnection.db
+        .update(schema.tasks)
+        .set({ status: "done" })
+        .where(eq(schema.tasks.customId, "wip-001"));
+
+      const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+      await todo(dbConnection, "development");
+
+      const output = consoleSpy.mock.calls[0][0];
+      const results = JSON.parse(output);
+
+      expect(results).toHaveLength(1);
+      expect(results[0]).toMatchObject({
+        customId: "wip-002",
+        blocked: false,
+        blockedBy: [],
+      });
+
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe("custom workflow", () => {
+    it("should list tasks in every actionable status", async () => {
+      await dbConnection.db.insert(schema.tasks).values([
+        { customId: "todo-1", category: "workflow", status: "todo" },
+        { customId: "wip-1", category: "workflow", status: "wip" },
+        { customId: "review-1", category: "workflow", status: "review" },
+      ]);
+
+      const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+      await todo(dbConnection, "workflow", {
+        statuses: ["todo", "wip", "review", "done"],
+        initial: "todo",
+        done: ["done"],
+        actionable: ["todo", "wip"],
+        transitions: {},
+        labels: {},
+      });
+
+      const results = JSON.parse(consoleSpy.mock.calls[0][0]);
+      expect(results.map((t: Task) => t.customId)).toEqual(["todo-1", "wip-1"]);
+
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe("filters and sorting", () => {
+    it("should apply filters within actionable tasks", async () => {
+      const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+      await todo(dbConnection, "development", undefined, {
+        order: "desc",
+        limit: 1,
+      });
+
+      const results = JSON.parse(consoleSpy.mock.calls[0][0]);
+      expect(results.map((t: Task) => t.customId)).toEqual(["wip-002"]);
+
+      consoleSpy.mockRestore();
+    });
+
+    it("should not widen the statuses with a status filter", async () => {
+      const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+      await todo(dbConnection, "development", undefined, { status: ["done"] });
+
+      const results = JSON.parse(consoleSpy.mock.calls[0][0]);
+      expect(results).toEqual([]);
+
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe("across categories", () => {
+    it("should list actionable tasks of all categories", async () => {
+      const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+      await todo(dbConnection, "*");
+
+      const results = JSON.parse(consoleSpy.mock.calls[0][0]);
+      expect(results.length).toBeGreaterThan(0);
+      expect(
+        results.every((task: { status: string }) => task.status === "wip"),
+      ).toBe(true);
+      expect(
+        new Set(results.map((task: { category: string }) => task.category))
+          .size,
+      ).toBeGreaterThan(1);
+
+      consoleSpy.mockRestore();
+    });
+  });
 });
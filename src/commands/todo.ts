@@ -1,22 +1,30 @@
-import { eq, and } from "drizzle-orm";
+import { and, inArray } from "drizzle-orm";
 import { schema } from "../db";
 import type { DatabaseConnection } from "../utils/db";
+import { withBlockers } from "../utils/dependencies";
+import { categoryCondition, queryTasks, type TaskQuery } from "../utils/query";
+import { defaultWorkflow, type Workflow } from "../utils/workflow";
 
-export async function todo(dbConnection: DatabaseConnection, category: string) {
-  const { db } = dbConnection;
-
+export async function todo(
+  dbConnection: DatabaseConnection,
+  category: string,
+  workflow: Workflow = defaultWorkflow,
+  query: TaskQuery = {},
+) {
   try {
-    const tasks = await db
-      .select()
-      .from(schema.tasks)
-      .where(
-        and(
-          eq(schema.tasks.category, category),
-          eq(schema.tasks.status, "wip"),
-        ),
-      );
+    const tasks = await queryTasks(
+      dbConnection,
+      and(
+        categoryCondition(category),
+        inArray(schema.tasks.status, workflow.actionable),
+      ),
+      query,
+    );
+
+    // Distinguish actionable tasks from those waiting on prerequisites
+    const results = await withBlockers(dbConnection, tasks, workflow);
 
-    console.log(JSON.stringify(tasks, null, 2));
+    console.log(JSON.stringify(results, null, 2));
   } catch (error) {
     console.error("Failed to get todo tasks:", error);
     throw error;
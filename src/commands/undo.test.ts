@@ -0,0 +1,233 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { migrate } from "drizzle-orm/better-sqlite3/migrator";
+import { desc } from "drizzle-orm";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { undo } from "./undo";
+import { add } from "./add";
+import { done } from "./done";
+import { wip } from "./wip";
+import { remove } from "./remove";
+import { setStatus } from "./set-status";
+import { getTestDb } from "../utils/db";
+import { getEvents } from "../utils/events";
+import { journalLimit } from "../utils/journal";
+import { schema } from "../db";
+import type { DatabaseConnection } from "../utils/db";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+describe("undo command", () => {
+  let dbConnection: DatabaseConnection;
+
+  const contents = async () => ({
+    tasks: await dbConnection.db.select().from(schema.tasks),
+    tags: await dbConnection.db.select().from(schema.tags),
+    taskTags: await dbConnection.db.select().from(schema.taskTags),
+  });
+  const getEventTypes = async (taskId: number) =>
+    (await getEvents(dbConnection, taskId)).map((event) => [
+      event.type,
+      event.status,
+      event.comment,
+    ]);
+
+  beforeEach(async () => {
+    dbConnection = getTestDb();
+    const migrationsFolder = path.join(__dirname, "../db/../../drizzle");
+    migrate(dbConnection.db, { migrationsFolder });
+
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    await add(
+      dbConnection,
+      "development",
+      JSON.stringify([
+        { customId: "task-001", name: "Write docs", tags: ["docs"] },
+        { customId: "task-002", name: "Fix bug", priority: "high" },
+      ]),
+    );
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+    dbConnection.sqlite.close();
+  });
+
+  it("should remove the tasks created by add", async () => {
+    await undo(dbConnection);
+
+    expect(await contents()).toEqual({
+      tasks: [],
+      tags: [],
+      taskTags: [],
+    });
+    expect(await dbConnection.db.select().from(schema.taskEvents)).toEqual([]);
+    expect(console.log).toHaveBeenCalledWith("Undid: add development");
+  });
+
+  it("should restore the exact rows updated by add", async () => {
+    const before = await contents();
+
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date(2030, 0, 1));
+    await add(
+      dbConnection,
+      "development",
+      JSON.stringify([
+        { customId: "task-001", name: "Rewrite docs", tags: ["writing"] },
+      ]),
+    );
+    await undo(dbConnection);
+
+    expect(await contents()).toEqual(before);
+  });
+
+  it("should revert done and remove the next occurrence it created", async () => {
+    await add(
+      dbConnection,
+      "development",
+      JSON.stringify([
+        {
+          customId: "standup",
+          name: "Standup",
+          recurrence: "daily",
+          dueAt: "2030-01-01",
+        },
+      ]),
+    );
+    const before = await contents();
+
+    await done(dbConnection, "development", "standup");
+    expect((await contents()).tasks).toHaveLength(4);
+
+    await undo(dbConnection);
+    expect(await contents()).toEqual(before);
+    expect(console.log).toHaveBeenCalledWith("Undid: done development standup");
+  });
+
+  it("should bring back archived and purged tasks", async () => {
+    const before = await contents();
+
+    await remove(dbConnection, "development", "1");
+    await remove(dbConnection, "development", "2", { purge: true });
+    await undo(dbConnection, 2);
+
+    expect(await contents()).toEqual(before);
+    expect(console.log).toHaveBeenCalledWith(
+      "Undid: remove development 2 --purge",
+    );
+    expect(console.log).toHaveBeenCalledWith("Undid: remove development 1");
+  });
+
+  it("should undo the given number of operations, latest first", async () => {
+    await done(dbConnection, "development", "task-001");
+    await wip(dbConnection, "development", "task-001");
+    await done(dbConnection, "development", "task-002");
+
+    await undo(dbConnection, 2);
+
+    const logs = vi.mocked(console.log).mock.calls.map(([line]) => line);
+    expect(logs.slice(-2)).toEqual([
+      "Undid: done development task-002",
+      "Undid: wip development task-001",
+    ]);
+    const tasks = await dbConnection.db.select().from(schema.tasks);
+    expect(tasks.map((t) => t.status)).toEqual(["done", "wip"]);
+  });
+
+  it("should keep the history and tell of the undo in it", async () => {
+    await done(dbConnection, "development", "task-001", "Shipped");
+    await undo(dbConnection);
+
+    expect(await getEventTypes(1)).toEqual([
+      ["upsert", "wip", null],
+      ["status", "done", "Shipped"],
+      ["undo", "wip", "done development task-001"],
+    ]);
+  });
+
+  it("should bring back the history of a purged task", async () => {
+    await done(dbConnection, "development", "task-002");
+    await remove(dbConnection, "development", "2", { purge: true });
+    await undo(dbConnection);
+
+    expect(await getEventTypes(2)).toEqual([
+      ["upsert", "wip", null],
+      ["status", "done", null],
+      ["undo", "done", "remove development 2 --purge"],
+    ]);
+  });
+
+  it("should undo all operations or none", async () => {
+    await done(dbConnection, "development", "task-001");
+    await done(dbConnection, "development", "task-002");
+    await setStatus(dbConnection, "development", "task-001", "wip");
+
+    await expect(undo(dbConnection, 2)).rejects.toThrow(
+      "Can't undo 'done development task-001': tasks rows have changed since",
+    );
+
+    const tasks = await dbConnection.db.select().from(schema.tasks);
+    expect(tasks.map((t) => t.status)).toEqual(["wip", "done"]);
+    expect(console.log).not.toHaveBeenCalledWith(
+      "Undid: done development task-002",
+    );
+  });
+
+  it("should record only the rows an operation changes", async () => {
+    await done(dbConnection, "development", "task-001");
+
+    const [entry] = await dbConnection.db
+      .select()
+      .from(schema.journal)
+      .orderBy(desc(schema.journal.id))
+      .limit(1);
+    expect(
+      entry.changes.map((change) => [
+        change.table,
+        change.before?.status,
+        change.after?.status,
+      ]),
+    ).toEqual([["tasks", "wip", "done"]]);
+  });
+
+  it("should keep only the latest operations", async () => {
+    for (let i = 0; i < journalLimit; i++) {
+      await done(dbConnection, "development", "task-001");
+      await wip(dbConnection, "development", "task-001");
+    }
+
+    const entries = await dbConnection.db.select().from(schema.journal);
+    expect(entries).toHaveLength(journalLimit);
+    expect(entries.at(-1)?.command).toBe("wip development task-001");
+  });
+
+  it("should stop at the first operation", async () => {
+    await undo(dbConnection, 5);
+    await undo(dbConnection);
+
+    expect(console.log).toHaveBeenCalledWith("Nothing to undo");
+  });
+
+  it("should refuse to undo when the rows have changed since", async () => {
+    await done(dbConnection, "development", "task-001");
+    await setStatus(dbConnection, "development", "task-001", "wip");
+
+    await expect(undo(dbConnection)).rejects.toThrow(
+      "Can't undo 'done development task-001': tasks rows have changed since",
+    );
+
+    const tasks = await dbConnection.db.select().from(schema.tasks);
+    expect(tasks[0].status).toBe("wip");
+  });
+
+  it("should reject an invalid count", async () => {
+    await expect(undo(dbConnection, 0)).rejects.toThrow(
+      "Invalid number of operations to undo: 0",
+    );
+  });
+});
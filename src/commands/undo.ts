@@ -0,0 +1,32 @@
+import { type DatabaseConnection, withTransaction } from "../utils/db";
+import { applyEntry, getUndoableEntries } from "../utils/journal";
+
+/**
+ * Revert the last n journaled operations (add, update, import, sync, scan, done, wip and remove), latest first
+ * They are reverted in one transaction, so an operation that can't be undone leaves the others in place
+ */
+export async function undo(dbConnection: DatabaseConnection, count = 1) {
+  try {
+    if (!Number.isSafeInteger(count) || count < 1) {
+      throw new Error(`Invalid number of operations to undo: ${count}`);
+    }
+
+    const entries = await getUndoableEntries(dbConnection, count);
+    if (entries.length === 0) {
+      console.log("Nothing to undo");
+      return;
+    }
+
+    await withTransaction(dbConnection, async () => {
+      for (const entry of entries) {
+        applyEntry(dbConnection, entry, "undo");
+      }
+    });
+    for (const entry of entries) {
+      console.log(`Undid: ${entry.command}`);
+    }
+  } catch (error) {
+    console.error("Failed to undo:", error);
+    throw error;
+  }
+}
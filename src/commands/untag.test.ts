@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { migrate } from "drizzle-orm/better-sqlite3/migrator";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { untag } from "./untag";
+import { getTestDb } from "../utils/db";
+import { addTaskTags, getTags } from "../utils/tags";
+import { schema } from "../db";
+import type { DatabaseConnection } from "../utils/db";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+describe("untag command", () => {
+  let dbConnection: DatabaseConnection;
+
+  beforeEach(async () => {
+    dbConnection = getTestDb();
+    const migrationsFolder = path.join(__dirname, "../db/../../drizzle");
+    migrate(dbConnection.db, { migrationsFolder });
+
+    await dbConnection.db.insert(schema.tasks).values([
+      { id: 1, customId: "task-001", category: "development", status: "wip" },
+      { id: 2, customId: "task-002", category: "development", status: "wip" },
+    ]);
+    await addTaskTags(dbConnection, 1, ["security", "api"]);
+    await addTaskTags(dbConnection, 2, ["api"]);
+  });
+
+  afterEach(() => {
+    dbConnection.sqlite.close();
+  });
+
+  it("should remove tags from a task", async () => {
+    const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+    await untag(dbConnection, "development", "task-001", "API");
+
+    expect(consoleSpy).toHaveBeenCalledWith("Task task-001 tags: security");
+    const tags = await getTags(dbConnection, [1, 2]);
+    expect(tags.get(1)).toEqual(["security"]);
+    expect(tags.get(2)).toEqual(["api"]);
+
+    consoleSpy.mockRestore();
+  });
+
+  it("should delete tags no task uses anymore", async () => {
+    const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+    await untag(dbConnection, "development", "1", "security,api");
+
+    expect(consoleSpy).toHaveBeenCalledWith("Task task-001 tags: (none)");
+    expect(
+      (await dbConnection.db.select().from(schema.tags)).map((t) => t.name),
+    ).toEqual(["api"]);
+
+    consoleSpy.mockRestore();
+  });
+
+  it("should ignore tags the task does not have", async () => {
+    const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+    await untag(dbConnection, "development", "task-002", "security");
+
+    expect(consoleSpy).toHaveBeenCalledWith("Task task-002 tags: api");
+
+    consoleSpy.mockRestore();
+  });
+
+  it("should throw error for a missing task", async () => {
+    const consoleErrorSpy = vi
+      .spyOn(console, "error")
+      .mockImplementation(() => {});
+
+    await expect(
+      untag(dbConnection, "development", "999", "api"),
+    ).rejects.toThrow("Task not found: 999");
+
+    consoleErrorSpy.mockRestore();
+  });
+});
@@ -0,0 +1,25 @@
+import type { DatabaseConnection } from "../utils/db";
+import { findTask } from "../utils/lookup";
+import { getTags, parseTagList, removeTaskTags } from "../utils/tags";
+
+export async function untag(
+  dbConnection: DatabaseConnection,
+  category: string,
+  idOrCustomId: string,
+  tagList: string,
+) {
+  try {
+    const tags = parseTagList(tagList);
+    const task = await findTask(dbConnection, category, idOrCustomId);
+
+    await removeTaskTags(dbConnection, task.id, tags);
+
+    const current = (await getTags(dbConnection, [task.id])).get(task.id);
+    console.log(
+      `Task ${task.customId} tags: ${current ? current.join(", ") : "(none)"}`,
+    );
+  } catch (error) {
+    console.error("Failed to untag task:", error);
+    throw error;
+  }
+}
@@ -0,0 +1,184 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { migrate } from "drizzle-orm/better-sqlite3/migrator";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { update } from "./update";
+import { add } from "./add";
+import { undo } from "./undo";
+import { getTestDb } from "../utils/db";
+import { getEvents } from "../utils/events";
+import { getTags } from "../utils/tags";
+import { defaultWorkflow, type Workflow } from "../utils/workflow";
+import { schema } from "../db";
+import type { DatabaseConnection } from "../utils/db";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+describe("update command", () => {
+  let dbConnection: DatabaseConnection;
+
+  beforeEach(async () => {
+    dbConnection = getTestDb();
+    const migrationsFolder = path.join(__dirname, "../db/../../drizzle");
+    migrate(dbConnection.db, { migrationsFolder });
+
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    await add(
+      dbConnection,
+      "backend",
+      JSON.stringify([
+        { customId: "base", name: "Base" },
+        {
+          customId: "api-001",
+          name: "Create API",
+          description: "CRUD endpoints",
+          status: "done",
+          tags: ["api"],
+          dependsOn: ["base"],
+        },
+      ]),
+    );
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    dbConnection.sqlite.close();
+  });
+
+  const getTask = async () => {
+    const tasks = await dbConnection.db.select().from(schema.tasks);
+    return tasks[1];
+  };
+
+  it("should change only the fields in the patch", async () => {
+    await update(
+      dbConnection,
+      "backend",
+      "api-001",
+      JSON.stringify({ priority: "high", dueAt: "2030-01-31" }),
+    );
+
+    const task = await getTask();
+    expect(task.name).toBe("Create API");
+    expect(task.description).toBe("CRUD endpoints");
+    expect(task.status).toBe("done");
+    expect(task.priority).toBe(3);
+    expect(task.dueAt).toEqual(new Date(2030, 0, 31));
+    expect((await getTags(dbConnection, [task.id])).get(task.id)).toEqual([
+      "api",
+    ]);
+    expect(console.log).toHaveBeenCalledWith(
+      "Task api-001 updated: priority, dueAt",
+    );
+  });
+
+  it("should clear fields set to null", async () => {
+    await update(
+      dbConnection,
+      "backend",
+      "2",
+      JSON.stringify({ description: null, tags: null, dependsOn: null }),
+    );
+
+    const task = await getTask();
+    expect(task.description).toBeNull();
+    expect(await getTags(dbConnection, [task.id])).toEqual(new Map());
+    expect(
+      await dbConnection.db.select().from(schema.taskDependencies),
+    ).toEqual([]);
+  });
+
+  it("should report an empty patch as unchanged", async () => {
+    await update(dbConnection, "backend", "api-001", "{}");
+
+    expect(console.log).toHaveBeenCalledWith("Task api-001 unchanged");
+  });
+
+  it("should be undoable", async () => {
+    const before = await getTask();
+
+    await update(
+      dbConnection,
+      "backend",
+      "api-001",
+      JSON.stringify({ name: "Renamed" }),
+    );
+    await undo(dbConnection);
+
+    expect(await getTask()).toEqual(before);
+    expect(console.log).toHaveBeenCalledWith("Undid: update backend api-001");
+  });
+
+  it("should record status changes in the history", async () => {
+    await update(
+      dbConnection,
+      "backend",
+      "api-001",
+      JSON.stringify({ status: "wip" }),
+    );
+
+    const task = await getTask();
+    const events = await getEvents(dbConnection, task.id);
+    expect(events.map((event) => [event.type, event.status])).toEqual([
+      ["upsert", "done"],
+      ["upsert", "wip"],
+      ["status", "wip"],
+    ]);
+  });
+
+  it("should reject status changes the workflow doesn't allow", async () => {
+    const workflow: Workflow = {
+      ...defaultWorkflow,
+      statuses: ["wip", "review", "done"],
+      transitions: { done: ["review"] },
+    };
+
+    await expect(
+      update(
+        dbConnection,
+        "backend",
+        "api-001",
+        JSON.stringify({ name: "Renamed", status: "wip" }),
+        workflow,
+      ),
+    ).rejects.toThrow(
+      "Status transition from 'done' to 'wip' is not allowed (allowed: review)",
+    );
+
+    const task = await getTask();
+    expect([task.name, task.status]).toEqual(["Create API", "done"]);
+  });
+
+  it("should reject unknown tasks without creating them", async () => {
+    await expect(
+      update(dbConnection, "backend", "missing", JSON.stringify({ name: "x" })),
+    ).rejects.toThrow();
+
+    expect(await dbConnection.db.select().from(schema.tasks)).toHaveLength(2);
+  });
+
+  it("should reject patches that aren't objects or change the customId", async () => {
+    await expect(
+      update(dbConnection, "backend", "api-001", "[]"),
+    ).rejects.toThrow("The patch must be a JSON object");
+    await expect(
+      update(
+        dbConnection,
+        "backend",
+        "api-001",
+        JSON.stringify({ customId: "api-002" }),
+      ),
+    ).rejects.toThrow();
+    await expect(
+      update(
+        dbConnection,
+        "backend",
+        "api-001",
+        JSON.stringify({ status: null }),
+      ),
+    ).rejects.toThrow();
+  });
+});
@@ -0,0 +1,71 @@
+import { z } from "zod/v4";
+import type { DatabaseConnection } from "../utils/db";
+import { findTask } from "../utils/lookup";
+import { taskSchema, upsertTasks } from "../utils/upsert";
+import { defaultWorkflow, type Workflow } from "../utils/workflow";
+
+// A JSON Merge Patch (RFC 7396) of a task: given fields replace the current values
+// and null removes them; the customId identifies the task and can't be patched
+const patchSchema = taskSchema
+  .omit({ customId: true })
+  .extend({
+    tags: z.array(z.string()).nullable().optional(),
+    dependsOn: z.array(z.string()).nullable().optional(),
+  })
+  .strict();
+
+/**
+ * Apply a JSON Merge Patch to an existing task, leaving the fields it omits unchanged
+ */
+export async function update(
+  dbConnection: DatabaseConnection,
+  category: string,
+  idOrCustomId: string,
+  patchJson: string,
+  workflow: Workflow = defaultWorkflow,
+) {
+  try {
+    const parsed = JSON.parse(patchJson);
+    if (
+      typeof parsed !== "object" ||
+      parsed === null ||
+      Array.isArray(parsed)
+    ) {
+      throw new Error("The patch must be a JSON object");
+    }
+    const patch = patchSchema.parse(parsed);
+    const task = await findTask(dbConnection, category, idOrCustomId);
+
+    const [change] = await upsertTasks(
+      dbConnection,
+      category,
+      [
+        {
+          ...patch,
+          customId: task.customId,
+          tags: patch.tags === null ? [] : patch.tags,
+          dependsOn: patch.dependsOn === null ? [] : patch.dependsOn,
+        },
+      ],
+      workflow,
+      { mode: "merge", command: `update ${category} ${idOrCustomId}` },
+    );
+
+    if (change.action === "unchanged") {
+      console.log(`Task ${task.customId} unchanged`);
+    } else {
+      console.log(
+        `Task ${task.customId} updated: ${change.fields.map((f) => f.field).join(", ")}`,
+      );
+    }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      console.error("Invalid patch:", error.issues);
+    } else if (error instanceof SyntaxError) {
+      console.error("Invalid JSON:", error.message);
+    } else {
+      console.error("Failed to update task:", error);
+    }
+    throw error;
+  }
+}
@@ -5,6 +5,7 @@ import path from "node:path";
 import { fileURLToPath } from "node:url";
 import { wip } from "./wip";
 import { getTestDb } from "../utils/db";
+import { defaultWorkflow, type Workflow } from "../utils/workflow";
 import { schema } from "../db";
 import type { DatabaseConnection } from "../utils/db";
 
@@ -253,6 +254,26 @@ describe("wip command", () => {
   });
 
   describe("error cases", () => {
+    it("should reject workflows without a wip status", async () => {
+      const consoleErrorSpy = vi
+        .spyOn(console, "error")
+        .mockImplementation(() => {});
+      const workflow: Workflow = {
+        ...defaultWorkflow,
+        statuses: ["todo", "doing", "done"],
+        initial: "todo",
+        actionable: ["todo", "doing"],
+      };
+
+      await expect(
+        wip(dbConnection, "development", "1", undefined, workflow),
+      ).rejects.toThrow(
+        "The workflow has no 'wip' status (use set-status with one of: todo, doing, done)",
+      );
+
+      consoleErrorSpy.mockRestore();
+    });
+
     it("should throw error for non-existent task ID", async () => {
       await expect(
         wip(dbConnection, "development", "999", "Test"),
@@ -666,4 +687,50 @@ describe("wip command", () => {
       consoleSpy.mockRestore();
     });
   });
+
+  describe("subtasks", () => {
+    it("should reopen done ancestors of a reopened subtask", async () => {
+      // task-001 <- task-002 <- already-wip-task, all but the last done
+      await dbConnection.db
+        .update(schema.tasks)
+        .set({ parentId: 1 })
+        .where(eq(schema.tasks.id, 2));
+      await dbConnection.db
+        .update(schema.tasks)
+        .set({ parentId: 2, status: "done" })
+        .where(eq(schema.tasks.id, 4));
+
+      const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+      await wip(dbConnection, "development", "already-wip-task");
+
+      expect(consoleSpy).toHaveBeenCalledWith(
+        "Reopened parent tasks: task-002, task-001",
+      );
+
+      const tasks = await dbConnection.db
+        .select()
+        .from(schema.tasks)
+        .where(eq(schema.tasks.category, "development"));
+      expect(tasks.every((t) => t.status === "wip")).toBe(true);
+
+      consoleSpy.mockRestore();
+    });
+
+    it("should not touch tasks without parents", async () => {
+      const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+      await wip(dbConnection, "development", "task-001");
+
+      expect(consoleSpy).toHaveBeenCalledTimes(1);
+
+      const [task] = await dbConnection.db
+        .select()
+        .from(schema.tasks)
+        .where(eq(schema.tasks.id, 2));
+      expect(task.status).toBe("done");
+
+      consoleSpy.mockRestore();
+    });
+  });
 });
@@ -1,46 +1,41 @@
-import { eq, and, or } from "drizzle-orm";
-import { schema } from "../db";
-import type { DatabaseConnection } from "../utils/db";
+import { type DatabaseConnection, withTransaction } from "../utils/db";
+import { journaled } from "../utils/journal";
+import { changeTaskStatus } from "../utils/transition";
 import { handleCommandError } from "../utils/validation";
+import {
+  defaultWorkflow,
+  validateCommandStatus,
+  type Workflow,
+} from "../utils/workflow";
 
 export async function wip(
   dbConnection: DatabaseConnection,
   category: string,
   idOrCustomId: string,
   comment?: string,
+  workflow: Workflow = defaultWorkflow,
 ) {
-  const { db } = dbConnection;
-
   try {
-    // Try to parse as number for id (only positive integers are considered valid IDs)
-    const id = Number.parseInt(idOrCustomId, 10);
-    const isValidNumericId =
-      !Number.isNaN(id) && id > 0 && /^\d+$/.test(idOrCustomId);
+    validateCommandStatus(workflow, "wip");
 
-    const result = await db
-      .update(schema.tasks)
-      .set({
-        status: "wip",
-        comment: comment || null,
-      })
-      .where(
-        and(
-          eq(schema.tasks.category, category),
-          or(
-            isValidNumericId ? eq(schema.tasks.id, id) : undefined,
-            eq(schema.tasks.customId, idOrCustomId),
-          ),
+    // Reopening the parents is only kept along with the change of status
+    const { reopened } = await withTransaction(dbConnection, () =>
+      journaled(dbConnection, `wip ${category} ${idOrCustomId}`, () =>
+        changeTaskStatus(
+          dbConnection,
+          category,
+          idOrCustomId,
+          "wip",
+          comment,
+          workflow,
         ),
-      );
-
-    if (result.changes === 0) {
-      console.error(
-        `Task not found with ${isValidNumericId ? "id" : "customId"}: ${idOrCustomId} in category '${category}'`,
-      );
-      throw new Error(`Task not found: ${idOrCustomId}`);
-    }
+      ),
+    );
 
     console.log(`Task ${idOrCustomId} marked as work in progress`);
+    if (reopened.length > 0) {
+      console.log(`Reopened parent tasks: ${reopened.join(", ")}`);
+    }
   } catch (error) {
     handleCommandError("mark task as wip", error);
   }
@@ -1,6 +1,9 @@
 import { sql } from "drizzle-orm";
 import {
+  type AnySQLiteColumn,
   integer,
+  primaryKey,
+  real,
   sqliteTable,
   text,
   uniqueIndex,
@@ -14,8 +17,20 @@ export const tasks = sqliteTable(
     category: text("category").notNull(),
     name: text("name"),
     description: text("description"),
-    status: text("status", { enum: ["wip", "done"] }).default("wip"),
+    status: text("status").default("wip"),
     comment: text("comment"),
+    priority: integer("priority").notNull().default(2),
+    startAt: integer("start_at", { mode: "timestamp" }),
+    dueAt: integer("due_at", { mode: "timestamp" }),
+    // Size of the task in points or hours, whichever the project uses
+    estimate: real("estimate"),
+    // Rule for spawning the next occurrence when the task is done (e.g. "weekly")
+    recurrence: text("recurrence"),
+    // Set when the task is archived by remove; archived tasks are hidden from reads
+    archivedAt: integer("archived_at", { mode: "timestamp" }),
+    parentId: integer("parent_id").references((): AnySQLiteColumn => tasks.id, {
+      onDelete: "set null",
+    }),
     createdAt: integer("created_at", { mode: "timestamp" })
       .notNull()
       .default(sql`(unixepoch())`),
@@ -32,5 +47,126 @@ export const tasks = sqliteTable(
   }),
 );
 
+export const taskDependencies = sqliteTable(
+  "task_dependencies",
+  {
+    taskId: integer("task_id")
+      .notNull()
+      .references(() => tasks.id, { onDelete: "cascade" }),
+    dependsOnId: integer("depends_on_id")
+      .notNull()
+      .references(() => tasks.id, { onDelete: "cascade" }),
+  },
+  (table) => ({
+    pk: primaryKey({ columns: [table.taskId, table.dependsOnId] }),
+  }),
+);
+
+export const taskEvents = sqliteTable("task_events", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  taskId: integer("task_id")
+    .notNull()
+    .references(() => tasks.id, { onDelete: "cascade" }),
+  type: text("type", {
+    enum: [
+      "upsert",
+      "status",
+      "comment",
+      "recurrence",
+      "archive",
+      "restore",
+      "undo",
+      "redo",
+    ],
+  }).notNull(),
+  status: text("status"),
+  comment: text("comment"),
+  createdAt: integer("created_at", { mode: "timestamp" })
+    .notNull()
+    .default(sql`(unixepoch())`),
+});
+
+export const tags = sqliteTable("tags", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  name: text("name").notNull().unique(),
+});
+
+export const taskTags = sqliteTable(
+  "task_tags",
+  {
+    taskId: integer("task_id")
+      .notNull()
+      .references(() => tasks.id, { onDelete: "cascade" }),
+    tagId: integer("tag_id")
+      .notNull()
+      .references(() => tags.id, { onDelete: "cascade" }),
+  },
+  (table) => ({
+    pk: primaryKey({ columns: [table.taskId, table.tagId] }),
+  }),
+);
+
+export const timeEntries = sqliteTable("time_entries", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  taskId: integer("task_id")
+    .notNull()
+    .references(() => tasks.id, { onDelete: "cascade" }),
+  startedAt: integer("started_at", { mode: "timestamp" }).notNull(),
+  // Null while the timer is running
+  stoppedAt: integer("stopped_at", { mode: "timestamp" }),
+});
+
+export const journal = sqliteTable("journal", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  // The command line that made the changes, e.g. "done backend api-001"
+  command: text("command").notNull(),
+  changes: text("changes", { mode: "json" }).$type<RowChange[]>().notNull(),
+  createdAt: integer("created_at", { mode: "timestamp" })
+    .notNull()
+    .default(sql`(unixepoch())`),
+  // Set while the operation is undone, so that redo can reapply it
+  undoneAt: integer("undone_at", { mode: "timestamp" }),
+});
+
+export const syncStates = sqliteTable("sync_states", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  // Absolute path of the synced Markdown file
+  path: text("path").notNull().unique(),
+  // The tasks both sides agreed on after the last sync, in their exported form
+  tasks: text("tasks", { mode: "json" })
+    .$type<Record<string, unknown>[]>()
+    .notNull(),
+  syncedAt: integer("synced_at", { mode: "timestamp" }).notNull(),
+});
+
+export const codeReferences = sqliteTable("code_references", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  taskId: integer("task_id")
+    .notNull()
+    .references(() => tasks.id, { onDelete: "cascade" }),
+  // Path of the file relative to the project root
+  path: text("path").notNull(),
+  line: integer("line").notNull(),
+  // TODO, FIXME or HACK
+  kind: text("kind").notNull(),
+  text: text("text").notNull(),
+});
+
+/** A row inserted (before is null), deleted (after is null) or updated by an operation */
+export interface RowChange {
+  table: string;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+}
+
 export type Task = typeof tasks.$inferSelect;
 export type NewTask = typeof tasks.$inferInsert;
+export type TaskDependency = typeof taskDependencies.$inferSelect;
+export type TaskEvent = typeof taskEvents.$inferSelect;
+export type NewTaskEvent = typeof taskEvents.$inferInsert;
+export type Tag = typeof tags.$inferSelect;
+export type TaskTag = typeof taskTags.$inferSelect;
+export type TimeEntry = typeof timeEntries.$inferSelect;
+export type JournalEntry = typeof journal.$inferSelect;
+export type SyncState = typeof syncStates.$inferSelect;
+export type CodeReference = typeof codeReferences.$inferSelect;
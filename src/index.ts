@@ -1,158 +1,942 @@
 #!/usr/bin/env node
+import { createReadStream } from "node:fs";
+import path from "node:path";
 import * as commands from "./commands";
-import { getDb } from "./utils/db";
+import {
+  type CommandSpec,
+  formatCommandHelp,
+  formatUsage,
+  type OptionSpec,
+  type OptionValues,
+  type PositionalSpec,
+  type PositionalValues,
+  parseCommandArgs,
+  UsageError,
+} from "./utils/args";
+import { type Config, loadConfig, upsertModes } from "./utils/config";
+import { parseDateExpression } from "./utils/date";
+import { type DatabaseConnection, getDb, getProjectRoot } from "./utils/db";
+import { allCategories, sortFields, type TaskQuery } from "./utils/query";
+import { syncSides } from "./utils/sync";
+import { formatFromPath, taskFormats } from "./utils/task-formats";
+import { normalizeTags } from "./utils/tags";
 
-async function main() {
-  const args = process.argv.slice(2);
+interface CommandContext {
+  /** Open the database connection (once per run) */
+  db: () => DatabaseConnection;
+  /** Load the project configuration (once per run) */
+  config: () => Config;
+}
 
-  if (args.length === 0) {
-    showHelp();
-    process.exit(0);
+interface CommandDefinition<
+  P extends readonly PositionalSpec[] = readonly PositionalSpec[],
+  O extends Record<string, OptionSpec> = Record<string, OptionSpec>,
+> extends CommandSpec<P, O> {
+  run: (
+    args: { positionals: PositionalValues<P>; options: OptionValues<O> },
+    context: CommandContext,
+  ) => Promise<void>;
+}
+
+/** A command whose arguments are typed by its own spec, once they are parsed */
+interface Command extends CommandSpec {
+  /** Parse the arguments of the command, binding them to its run function */
+  parse: (args: string[]) => {
+    help: boolean;
+    run: (context: CommandContext) => Promise<void>;
+  };
+}
+
+function defineCommand<
+  const P extends readonly PositionalSpec[],
+  const O extends Record<string, OptionSpec> = Record<never, OptionSpec>,
+>(
+  definition: Omit<CommandDefinition<P, O>, "options"> & { options?: O },
+): Command {
+  const { run, options, ...rest } = definition;
+  const spec: CommandSpec<P, O> = { ...rest, options: options ?? ({} as O) };
+
+  return {
+    ...spec,
+    parse: (args) => {
+      const parsed = parseCommandArgs(spec, args);
+      return {
+        help: parsed.help,
+        run: (context) => run(parsed, context),
+      };
+    },
+  };
+}
+
+const category = { name: "category", description: "Task category" } as const;
+const categories = {
+  name: "category",
+  description:
+    "Category, glob (e.g. 'back*') or comma-separated list (default: all)",
+  optional: true,
+} as const;
+const idOrCustomId = {
+  name: "id",
+  description: "Task ID or customId",
+} as const;
+const comment = {
+  name: "comment",
+  description: "Comment to store on the task",
+  optional: true,
+} as const;
+
+const queryOptions = {
+  status: {
+    type: "string",
+    short: "s",
+    multiple: true,
+    placeholder: "status",
+    description: "Only tasks with this status (repeatable)",
+  },
+  createdAfter: {
+    type: "string",
+    placeholder: "date",
+    description: "Only tasks created after this date",
+  },
+  createdBefore: {
+    type: "string",
+    placeholder: "date",
+    description: "Only tasks created before this date",
+  },
+  updatedAfter: {
+    type: "string",
+    placeholder: "date",
+    description: "Only tasks updated after this date",
+  },
+  updatedBefore: {
+    type: "string",
+    placeholder: "date",
+    description: "Only tasks updated before this date",
+  },
+  match: {
+    type: "string",
+    short: "m",
+    placeholder: "text",
+    description: "Only tasks whose customId, name or description contains text",
+  },
+  idFrom: {
+    type: "integer",
+    placeholder: "id",
+    description: "Only tasks with an ID of at least this",
+  },
+  idTo: {
+    type: "integer",
+    placeholder: "id",
+    description: "Only tasks with an ID of at most this",
+  },
+  tag: {
+    type: "string",
+    short: "t",
+    multiple: true,
+    placeholder: "tag",
+    description: "Only tasks with this tag (repeatable)",
+  },
+  archived: {
+    type: "boolean",
+    description: "Include archived tasks",
+  },
+  sort: {
+    type: "string",
+    choices: sortFields,
+    description: "Sort by this field (default: priority, highest first)",
+  },
+  order: {
+    type: "string",
+    choices: ["asc", "desc"],
+    description: "Sort order (default: asc)",
+  },
+  limit: {
+    type: "integer",
+    short: "n",
+    description: "Return at most this many tasks",
+  },
+  offset: {
+    type: "integer",
+    description: "Skip this many tasks",
+  },
+} as const satisfies Record<string, OptionSpec>;
+
+function toTags(values: string[] | undefined): string[] | undefined {
+  if (values === undefined) return undefined;
+  try {
+    return normalizeTags(values);
+  } catch (error) {
+    throw new UsageError(`Option '--tag': ${(error as Error).message}`);
   }
+}
 
-  const [command, ...params] = args;
+function toDate(flag: string, value: string | undefined): Date | undefined {
+  if (value === undefined) return undefined;
+  try {
+    return parseDateExpression(value);
+  } catch {
+    throw new UsageError(`Option '--${flag}' expects a date, got '${value}'`);
+  }
+}
 
-  // Handle init command separately (doesn't require database connection)
-  if (command === "init") {
-    try {
-      if (params.includes("--force")) {
-        await commands.initForce();
-      } else {
-        await commands.init();
-      }
-    } catch (error) {
-      console.error("Initialization failed:", error);
-      process.exit(1);
+function toTaskQuery(options: OptionValues<typeof queryOptions>): TaskQuery {
+  const count = (flag: string, value: number | undefined) => {
+    if (value !== undefined && value < 0) {
+      throw new UsageError(`Option '--${flag}' must not be negative`);
     }
-    return;
-  }
+    return value;
+  };
 
-  const dbConnection = getDb();
+  return {
+    status: options.status,
+    createdAfter: toDate("created-after", options.createdAfter),
+    createdBefore: toDate("created-before", options.createdBefore),
+    updatedAfter: toDate("updated-after", options.updatedAfter),
+    updatedBefore: toDate("updated-before", options.updatedBefore),
+    match: options.match,
+    idFrom: options.idFrom,
+    idTo: options.idTo,
+    tags: toTags(options.tag),
+    archived: options.archived ? "include" : undefined,
+    sort: options.sort,
+    order: options.order,
+    limit: count("limit", options.limit),
+    offset: count("offset", options.offset),
+  };
+}
 
-  try {
-    switch (command) {
-      case "add": {
-        if (params.length !== 2) {
-          console.error("Usage: tdlite add <category> <jsonArray>");
-          process.exit(1);
+const definitions: Command[] = [
+  defineCommand({
+    name: "init",
+    summary: "Initialize the database (required before first use)",
+    positionals: [],
+    options: {
+      force: {
+        type: "boolean",
+        short: "f",
+        description: "Reinitialize the database if it already exists",
+      },
+    },
+    examples: ["tdlite init", "tdlite init --force"],
+    run: async ({ options }) => {
+      try {
+        if (options.force) {
+          await commands.initForce();
+        } else {
+          await commands.init();
         }
-        await commands.add(dbConnection, params[0], params[1]);
-        break;
+      } catch (error) {
+        console.error("Initialization failed:", error);
+        process.exit(1);
       }
-
-      case "get": {
-        if (params.length !== 2) {
-          console.error("Usage: tdlite get <category> <id or customId>");
-          process.exit(1);
-        }
-        await commands.get(dbConnection, params[0], params[1]);
-        break;
+    },
+  }),
+  defineCommand({
+    name: "add",
+    summary: "Upsert tasks to a category",
+    positionals: [
+      category,
+      {
+        name: "tasks",
+        description:
+          "JSON array or JSON Lines of tasks to upsert, or - to read them from stdin",
+        optional: true,
+      },
+    ],
+    options: {
+      file: {
+        type: "string",
+        short: "f",
+        description: "Read the tasks from a file instead",
+        placeholder: "path",
+      },
+      mode: {
+        type: "string",
+        description:
+          "How omitted fields of existing tasks are treated (default: upsertMode from the config, else replace)",
+        choices: upsertModes,
+      },
+      dryRun: {
+        type: "boolean",
+        description: "Show what would be created or updated without writing",
+      },
+    },
+    examples: [
+      `tdlite add backend '[{"customId": "api-001", "name": "Create API"}]'`,
+      `tdlite add backend '[{"customId": "api-002", "dueAt": "+3d"}]'`,
+      `tdlite add backend '[{"customId": "api-001", "priority": "high"}]' --dry-run`,
+      "tdlite add backend --file tasks.jsonl",
+      "cat tasks.json | tdlite add backend -",
+    ],
+    run: async ({ positionals, options }, context) => {
+      const { tasks } = positionals;
+      const { file } = options;
+      if ((tasks === undefined) === (file === undefined)) {
+        throw new UsageError(
+          "Pass the tasks as an argument, - for stdin, or --file <path>",
+        );
       }
+      const input =
+        file !== undefined
+          ? createReadStream(file)
+          : tasks === "-"
+            ? process.stdin
+            : (tasks as string);
 
-      case "search": {
-        if (params.length !== 2) {
-          console.error("Usage: tdlite search <category> <query>");
-          process.exit(1);
-        }
-        await commands.search(dbConnection, params[0], params[1]);
-        break;
+      await commands.add(
+        context.db(),
+        positionals.category,
+        input,
+        context.config().workflow,
+        {
+          mode: options.mode ?? context.config().upsertMode,
+          dryRun: options.dryRun,
+        },
+      );
+    },
+  }),
+  defineCommand({
+    name: "update",
+    summary: "Apply a JSON Merge Patch to a task",
+    positionals: [
+      category,
+      idOrCustomId,
+      {
+        name: "patch",
+        description:
+          "JSON object of fields to change; null clears a field (RFC 7396)",
+      },
+    ],
+    examples: [
+      `tdlite update backend api-001 '{"priority": "high", "dueAt": "+2d"}'`,
+      `tdlite update backend api-001 '{"description": null, "tags": ["auth"]}'`,
+    ],
+    run: async ({ positionals }, context) => {
+      await commands.update(
+        context.db(),
+        positionals.category,
+        positionals.id,
+        positionals.patch,
+        context.config().workflow,
+      );
+    },
+  }),
+  defineCommand({
+    name: "get",
+    summary: "Get a specific task",
+    positionals: [category, idOrCustomId],
+    options: {
+      history: {
+        type: "boolean",
+        description: "Include the history of the task",
+      },
+    },
+    examples: ["tdlite get backend api-001", "tdlite get backend 1 --history"],
+    run: async ({ positionals, options }, context) => {
+      await commands.get(context.db(), positionals.category, positionals.id, {
+        history: options.history,
+      });
+    },
+  }),
+  defineCommand({
+    name: "log",
+    summary: "Display the history of a task",
+    positionals: [category, idOrCustomId],
+    run: async ({ positionals }, context) => {
+      await commands.log(context.db(), positionals.category, positionals.id);
+    },
+  }),
+  defineCommand({
+    name: "search",
+    summary: "Full-text search tasks by customId, name, or description",
+    positionals: [
+      {
+        name: "category",
+        description:
+          "Category, glob (e.g. 'back*') or comma-separated list ('*' for all)",
+      },
+      { name: "query", description: "Text to search" },
+    ],
+    options: {
+      snippets: {
+        type: "boolean",
+        description: "Include a highlighted fragment of the best match",
+      },
+      tag: queryOptions.tag,
+      archived: queryOptions.archived,
+    },
+    examples: [
+      'tdlite search backend "API"',
+      "tdlite search '*' auth",
+      `tdlite search backend '"login page" OR oauth NOT legacy' --snippets`,
+      `tdlite search backend 'status:wip name:"auth" updated:>7d -legacy'`,
+      "tdlite search backend auth --tag security",
+    ],
+    run: async ({ positionals, options }, context) => {
+      await commands.search(
+        context.db(),
+        positionals.category,
+        positionals.query,
+        {
+          snippets: options.snippets,
+          tags: toTags(options.tag),
+          archived: options.archived,
+        },
+      );
+    },
+  }),
+  defineCommand({
+    name: "list",
+    summary: "List tasks in one or more categories",
+    positionals: [categories],
+    options: queryOptions,
+    examples: [
+      "tdlite list backend --status wip --sort updatedAt --order desc",
+      "tdlite list backend --match auth --limit 10",
+      "tdlite list 'front*,backend' --status wip",
+      "tdlite list --tag security --tag api",
+    ],
+    run: async ({ positionals, options }, context) => {
+      await commands.list(
+        context.db(),
+        positionals.category ?? allCategories,
+        toTaskQuery(options),
+      );
+    },
+  }),
+  defineCommand({
+    name: "todo",
+    summary: "List tasks in the workflow's actionable statuses (default: wip)",
+    positionals: [categories],
+    options: queryOptions,
+    examples: ["tdlite todo backend", "tdlite todo"],
+    run: async ({ positionals, options }, context) => {
+      await commands.todo(
+        context.db(),
+        positionals.category ?? allCategories,
+        context.config().workflow,
+        toTaskQuery(options),
+      );
+    },
+  }),
+  defineCommand({
+    name: "next",
+    summary: "Get the next actionable task (exit code 2 if none)",
+    positionals: [category],
+    run: async ({ positionals }, context) => {
+      const task = await commands.next(
+        context.db(),
+        positionals.category,
+        context.config().workflow,
+      );
+      if (!task) {
+        // Distinguish "nothing to do" from failures so scripts can loop on it
+        process.exitCode = 2;
       }
-
-      case "list": {
-        if (params.length !== 1) {
-          console.error("Usage: tdlite list <category>");
-          process.exit(1);
-        }
-        await commands.list(dbConnection, params[0]);
-        break;
+    },
+  }),
+  defineCommand({
+    name: "agenda",
+    summary:
+      "Group scheduled wip tasks into overdue, today, this week and later",
+    positionals: [categories],
+    examples: ["tdlite agenda", "tdlite agenda backend"],
+    run: async ({ positionals }, context) => {
+      await commands.agenda(
+        context.db(),
+        positionals.category ?? allCategories,
+        context.config().workflow,
+      );
+    },
+  }),
+  defineCommand({
+    name: "done",
+    summary: "Mark a task as done",
+    positionals: [category, idOrCustomId, comment],
+    examples: ['tdlite done backend 1 "Completed the API implementation"'],
+    run: async ({ positionals }, context) => {
+      await commands.done(
+        context.db(),
+        positionals.category,
+        positionals.id,
+        positionals.comment,
+        context.config().workflow,
+      );
+    },
+  }),
+  defineCommand({
+    name: "wip",
+    summary: "Mark a task as work in progress",
+    positionals: [category, idOrCustomId, comment],
+    run: async ({ positionals }, context) => {
+      await commands.wip(
+        context.db(),
+        positionals.category,
+        positionals.id,
+        positionals.comment,
+        context.config().workflow,
+      );
+    },
+  }),
+  defineCommand({
+    name: "set-status",
+    summary: "Move a task to any status of the workflow",
+    positionals: [
+      category,
+      idOrCustomId,
+      { name: "status", description: "Target status" },
+      comment,
+    ],
+    run: async ({ positionals }, context) => {
+      await commands.setStatus(
+        context.db(),
+        positionals.category,
+        positionals.id,
+        positionals.status,
+        positionals.comment,
+        context.config().workflow,
+      );
+    },
+  }),
+  defineCommand({
+    name: "remove",
+    summary: "Archive a task, or delete it with --purge",
+    positionals: [category, idOrCustomId],
+    options: {
+      purge: {
+        type: "boolean",
+        description: "Delete the task permanently instead of archiving it",
+      },
+    },
+    examples: [
+      "tdlite remove backend 1",
+      "tdlite remove backend api-001 --purge",
+    ],
+    run: async ({ positionals, options }, context) => {
+      await commands.remove(
+        context.db(),
+        positionals.category,
+        positionals.id,
+        {
+          purge: options.purge,
+        },
+      );
+    },
+  }),
+  defineCommand({
+    name: "restore",
+    summary: "Restore an archived task",
+    positionals: [category, idOrCustomId],
+    examples: ["tdlite restore backend api-001"],
+    run: async ({ positionals }, context) => {
+      await commands.restore(
+        context.db(),
+        positionals.category,
+        positionals.id,
+      );
+    },
+  }),
+  defineCommand({
+    name: "archive",
+    summary: "List archived tasks",
+    positionals: [
+      { name: "action", description: "Action to run (list)" },
+      categories,
+    ],
+    options: queryOptions,
+    examples: ["tdlite archive list", "tdlite archive list backend"],
+    run: async ({ positionals, options }, context) => {
+      if (positionals.action !== "list") {
+        throw new UsageError(
+          `Unknown archive action '${positionals.action}' (expected: list)`,
+        );
       }
-
-      case "todo": {
-        if (params.length !== 1) {
-          console.error("Usage: tdlite todo <category>");
-          process.exit(1);
-        }
-        await commands.todo(dbConnection, params[0]);
-        break;
+      await commands.archiveList(
+        context.db(),
+        positionals.category ?? allCategories,
+        toTaskQuery(options),
+      );
+    },
+  }),
+  defineCommand({
+    name: "export",
+    summary: "Export tasks as JSON, JSON Lines, CSV, Markdown or todo.txt",
+    positionals: [categories],
+    options: {
+      format: {
+        type: "string",
+        description:
+          "Output format (default: from the --output extension, else json)",
+        choices: taskFormats,
+      },
+      output: {
+        type: "string",
+        short: "o",
+        description: "Write to a file instead of stdout",
+        placeholder: "path",
+      },
+    },
+    examples: [
+      "tdlite export",
+      "tdlite export backend --format csv",
+      "tdlite export --output tasks.md",
+    ],
+    run: async ({ positionals, options }, context) => {
+      const format =
+        options.format ??
+        (options.output !== undefined
+          ? formatFromPath(options.output)
+          : undefined) ??
+        "json";
+      await commands.exportTasks(
+        context.db(),
+        positionals.category ?? allCategories,
+        format,
+        context.config().workflow,
+        { output: options.output },
+      );
+    },
+  }),
+  defineCommand({
+    name: "import",
+    summary: "Import tasks from JSON, JSON Lines, CSV, Markdown or todo.txt",
+    positionals: [
+      { name: "file", description: "File to import, or - to read stdin" },
+    ],
+    options: {
+      format: {
+        type: "string",
+        description: "Input format (default: from the file extension)",
+        choices: taskFormats,
+      },
+      category: {
+        type: "string",
+        short: "c",
+        description: "Import every task into this category",
+      },
+      mode: {
+        type: "string",
+        description:
+          "How omitted fields of existing tasks are treated (default: upsertMode from the config, else replace)",
+        choices: upsertModes,
+      },
+      dryRun: {
+        type: "boolean",
+        description: "Show what would be created or updated without writing",
+      },
+    },
+    examples: [
+      "tdlite import tasks.csv",
+      "tdlite import todo.txt --category personal",
+      "cat tasks.jsonl | tdlite import - --format jsonl --dry-run",
+    ],
+    run: async ({ positionals, options }, context) => {
+      const { file } = positionals;
+      const format =
+        options.format ?? (file !== "-" ? formatFromPath(file) : undefined);
+      if (!format) {
+        throw new UsageError(
+          `Can't tell the format of '${file}', pass --format (${taskFormats.join(", ")})`,
+        );
       }
 
-      case "done": {
-        if (params.length < 2 || params.length > 3) {
-          console.error("Usage: tdlite done <category> <id> [comment]");
-          process.exit(1);
-        }
-        await commands.done(dbConnection, params[0], params[1], params[2]);
-        break;
+      await commands.importTasks(
+        context.db(),
+        file === "-" ? process.stdin : createReadStream(file),
+        format,
+        context.config().workflow,
+        {
+          category: options.category,
+          mode: options.mode ?? context.config().upsertMode,
+          dryRun: options.dryRun,
+        },
+      );
+    },
+  }),
+  defineCommand({
+    name: "sync",
+    summary: "Sync a Markdown checklist with the database in both directions",
+    positionals: [
+      {
+        name: "file",
+        description:
+          "Markdown file to sync (default: TASKS.md in the project root)",
+        optional: true,
+      },
+    ],
+    options: {
+      prefer: {
+        type: "string",
+        description:
+          "Resolve tasks changed on both sides by keeping the changes of one side",
+        choices: syncSides,
+      },
+      dryRun: {
+        type: "boolean",
+        description: "Show what would change without writing",
+      },
+    },
+    examples: [
+      "tdlite sync",
+      "tdlite sync docs/TASKS.md --dry-run",
+      "tdlite sync --prefer file",
+    ],
+    run: async ({ positionals, options }, context) => {
+      await commands.sync(
+        context.db(),
+        positionals.file ?? path.join(getProjectRoot(), "TASKS.md"),
+        context.config().workflow,
+        { prefer: options.prefer, dryRun: options.dryRun },
+      );
+    },
+  }),
+  defineCommand({
+    name: "scan",
+    summary: "Turn TODO, FIXME and HACK comments of the project into tasks",
+    positionals: [category],
+    options: {
+      dryRun: {
+        type: "boolean",
+        description:
+          "Show what would be created, updated or done without writing",
+      },
+    },
+    examples: ["tdlite scan todo", "tdlite scan tech-debt --dry-run"],
+    run: async ({ positionals, options }, context) => {
+      await commands.scan(
+        context.db(),
+        positionals.category,
+        getProjectRoot(),
+        context.config().workflow,
+        { dryRun: options.dryRun },
+      );
+    },
+  }),
+  defineCommand({
+    name: "tag",
+    summary: "Add tags to a task",
+    positionals: [
+      category,
+      idOrCustomId,
+      { name: "tags", description: "Comma-separated tags to add" },
+    ],
+    examples: ["tdlite tag backend api-001 security,tech-debt"],
+    run: async ({ positionals }, context) => {
+      await commands.tag(
+        context.db(),
+        positionals.category,
+        positionals.id,
+        positionals.tags,
+      );
+    },
+  }),
+  defineCommand({
+    name: "untag",
+    summary: "Remove tags from a task",
+    positionals: [
+      category,
+      idOrCustomId,
+      { name: "tags", description: "Comma-separated tags to remove" },
+    ],
+    examples: ["tdlite untag backend api-001 tech-debt"],
+    run: async ({ positionals }, context) => {
+      await commands.untag(
+        context.db(),
+        positionals.category,
+        positionals.id,
+        positionals.tags,
+      );
+    },
+  }),
+  defineCommand({
+    name: "undo",
+    summary:
+      "Undo the last add, update, import, sync, scan, done, wip or remove commands",
+    positionals: [
+      {
+        name: "count",
+        description: "Number of commands to undo (default: 1)",
+        optional: true,
+      },
+    ],
+    examples: ["tdlite undo", "tdlite undo 3"],
+    run: async ({ positionals }, context) => {
+      const count = positionals.count ?? "1";
+      if (!/^\d+$/.test(count) || Number(count) < 1) {
+        throw new UsageError(
+          `Argument 'count' must be a positive integer, got '${count}'`,
+        );
       }
+      await commands.undo(context.db(), Number(count));
+    },
+  }),
+  defineCommand({
+    name: "redo",
+    summary: "Redo the last undone command",
+    positionals: [],
+    examples: ["tdlite redo"],
+    run: async (_args, context) => {
+      await commands.redo(context.db());
+    },
+  }),
+  defineCommand({
+    name: "start",
+    summary: "Start a timer on a task",
+    positionals: [category, idOrCustomId],
+    examples: ["tdlite start backend api-001"],
+    run: async ({ positionals }, context) => {
+      await commands.start(context.db(), positionals.category, positionals.id);
+    },
+  }),
+  defineCommand({
+    name: "stop",
+    summary: "Stop the running timer of a task",
+    positionals: [category, idOrCustomId],
+    examples: ["tdlite stop backend api-001"],
+    run: async ({ positionals }, context) => {
+      await commands.stop(context.db(), positionals.category, positionals.id);
+    },
+  }),
+  defineCommand({
+    name: "timesheet",
+    summary: "Display tracked time per day and category",
+    positionals: [categories],
+    options: {
+      since: {
+        type: "string",
+        placeholder: "date",
+        description: "Only count time tracked from this date on",
+      },
+      until: {
+        type: "string",
+        placeholder: "date",
+        description: "Only count time tracked before this date",
+      },
+    },
+    examples: [
+      "tdlite timesheet",
+      "tdlite timesheet backend --since 7d",
+      "tdlite timesheet --since 2025-01-01 --until 2025-02-01",
+    ],
+    run: async ({ positionals, options }, context) => {
+      await commands.timesheet(
+        context.db(),
+        positionals.category ?? allCategories,
+        {
+          since: toDate("since", options.since),
+          until: toDate("until", options.until),
+        },
+      );
+    },
+  }),
+  defineCommand({
+    name: "show",
+    summary: "Display tasks in table format",
+    positionals: [categories],
+    options: queryOptions,
+    examples: [
+      "tdlite show backend --updated-after 2025-01-01 --sort name",
+      "tdlite show --sort category",
+    ],
+    run: async ({ positionals, options }, context) => {
+      await commands.show(
+        context.db(),
+        positionals.category ?? allCategories,
+        context.config().workflow,
+        toTaskQuery(options),
+      );
+    },
+  }),
+  defineCommand({
+    name: "status",
+    summary: "Display task counts by category and status",
+    positionals: [],
+    run: async (_args, context) => {
+      await commands.status(context.db(), context.config().workflow);
+    },
+  }),
+];
 
-      case "wip": {
-        if (params.length < 2 || params.length > 3) {
-          console.error("Usage: tdlite wip <category> <id> [comment]");
-          process.exit(1);
-        }
-        await commands.wip(dbConnection, params[0], params[1], params[2]);
-        break;
-      }
+async function main() {
+  const args = process.argv.slice(2);
 
-      case "remove": {
-        if (params.length !== 2) {
-          console.error("Usage: tdlite remove <category> <id>");
-          process.exit(1);
-        }
-        await commands.remove(dbConnection, params[0], params[1]);
-        break;
-      }
+  if (args.length === 0 || args[0] === "--help" || args[0] === "-h") {
+    showHelp();
+    process.exit(0);
+  }
 
-      case "show": {
-        if (params.length !== 1) {
-          console.error("Usage: tdlite show <category>");
-          process.exit(1);
-        }
-        await commands.show(dbConnection, params[0]);
-        break;
-      }
+  const [command, ...params] = args;
+  const definition = definitions.find((d) => d.name === command);
 
-      case "status": {
-        if (params.length !== 0) {
-          console.error("Usage: tdlite status");
-          process.exit(1);
-        }
-        await commands.status(dbConnection);
-        break;
-      }
+  if (!definition) {
+    console.error(`Unknown command: ${command}`);
+    showHelp();
+    process.exit(1);
+  }
 
-      default: {
-        console.error(`Unknown command: ${command}`);
-        showHelp();
-        process.exit(1);
-      }
+  let parsed: ReturnType<Command["parse"]>;
+  try {
+    parsed = definition.parse(params);
+  } catch (error) {
+    if (error instanceof UsageError) {
+      console.error(`Error: ${error.message}`);
+      console.error(`Usage: tdlite ${formatUsage(definition)}`);
+      console.error(`Run 'tdlite ${definition.name} --help' for details.`);
+      process.exit(1);
     }
+    throw error;
+  }
+
+  if (parsed.help) {
+    console.log(formatCommandHelp(definition));
+    return;
+  }
+
+  let dbConnection: DatabaseConnection | undefined;
+  let config: Config | undefined;
+  const context: CommandContext = {
+    db: () => {
+      dbConnection ??= getDb();
+      return dbConnection;
+    },
+    config: () => {
+      config ??= loadConfig();
+      return config;
+    },
+  };
+
+  try {
+    await parsed.run(context);
   } catch (error) {
+    if (error instanceof UsageError) {
+      console.error(`Error: ${error.message}`);
+      console.error(`Run 'tdlite ${definition.name} --help' for details.`);
+      process.exit(1);
+    }
     console.error("Unexpected error:", error);
     process.exit(1);
   } finally {
-    dbConnection.sqlite.close();
+    dbConnection?.sqlite.close();
   }
 }
 
 function showHelp() {
+  const entries = definitions.map((d) => {
+    const usage = formatUsage(d);
+    return usage.length < 33
+      ? `  ${usage.padEnd(33)}${d.summary}`
+      : `  ${usage}\n  ${" ".repeat(33)}${d.summary}`;
+  });
+
   console.log(`tdlite - A task manager for npm projects
 
 Usage:
-  tdlite <command> [arguments]
+  tdlite <command> [arguments] [options]
 
 Commands:
-  init [--force]                   Initialize the database (required before first use)
-  add <category> <jsonArray>       Upsert tasks to a category
-  get <category> <id|customId>     Get a specific task
-  search <category> <query>        Search tasks by customId, name, or description
-  list <category>                  List all tasks in a category
-  todo <category>                  List tasks with status "wip"
-  done <category> <id> [comment]   Mark a task as done
-  wip <category> <id> [comment]    Mark a task as work in progress
-  remove <category> <id>           Remove a task
-  show <category>                  Display tasks in table format
-  status                           Display task counts by category and status
+${entries.join("\n")}
+
+Run 'tdlite <command> --help' for the arguments and options of a command.
 
 Examples:
   tdlite init                  # Initialize database
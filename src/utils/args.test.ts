@@ -0,0 +1,171 @@
+import { describe, it, expect } from "vitest";
+import {
+  type CommandSpec,
+  formatCommandHelp,
+  formatUsage,
+  parseCommandArgs,
+  UsageError,
+} from "./args";
+
+const spec = {
+  name: "list",
+  summary: "List tasks",
+  positionals: [
+    { name: "category", description: "Task category" },
+    { name: "query", description: "Text to match", optional: true },
+  ],
+  options: {
+    all: { type: "boolean", short: "a", description: "Include everything" },
+    limit: { type: "integer", short: "n", description: "Maximum rows" },
+    ratio: { type: "number", description: "Some ratio" },
+    sortBy: {
+      type: "string",
+      choices: ["id", "name"],
+      description: "Sort field",
+    },
+    tag: { type: "string", multiple: true, description: "Tag filter" },
+  },
+  examples: ["tdlite list backend"],
+} as const satisfies CommandSpec;
+
+describe("parseCommandArgs", () => {
+  describe("positionals", () => {
+    it("should map positionals by name", () => {
+      const { positionals } = parseCommandArgs(spec, ["backend", "api"]);
+
+      expect(positionals).toEqual({ category: "backend", query: "api" });
+    });
+
+    it("should leave optional positionals undefined", () => {
+      const { positionals } = parseCommandArgs(spec, ["backend"]);
+
+      expect(positionals.query).toBeUndefined();
+    });
+
+    it("should reject missing positionals", () => {
+      expect(() => parseCommandArgs(spec, [])).toThrow(
+        new UsageError("Missing argument: <category>"),
+      );
+    });
+
+    it("should reject extra positionals", () => {
+      expect(() => parseCommandArgs(spec, ["a", "b", "c"])).toThrow(
+        "Unexpected argument: c",
+      );
+    });
+
+    it("should accept values starting with a dash after --", () => {
+      const { positionals } = parseCommandArgs(spec, ["backend", "--", "-x"]);
+
+      expect(positionals.query).toBe("-x");
+    });
+  });
+
+  describe("options", () => {
+    it("should apply defaults when options are omitted", () => {
+      const { options } = parseCommandArgs(spec, ["backend"]);
+
+      expect(options).toEqual({
+        all: false,
+        limit: undefined,
+        ratio: undefined,
+        sortBy: undefined,
+        tag: [],
+      });
+    });
+
+    it("should parse long and short flags", () => {
+      const { options } = parseCommandArgs(spec, [
+        "backend",
+        "-a",
+        "--limit",
+        "5",
+        "--ratio=0.5",
+        "--sort-by",
+        "name",
+      ]);
+
+      expect(options).toMatchObject({
+        all: true,
+        limit: 5,
+        ratio: 0.5,
+        sortBy: "name",
+      });
+    });
+
+    it("should collect repeated options", () => {
+      const { options } = parseCommandArgs(spec, [
+        "backend",
+        "--tag",
+        "a",
+        "--tag",
+        "b",
+      ]);
+
+      expect(options.tag).toEqual(["a", "b"]);
+    });
+
+    it("should accept options before positionals", () => {
+      const { positionals, options } = parseCommandArgs(spec, [
+        "-n",
+        "3",
+        "backend",
+      ]);
+
+      expect(positionals.category).toBe("backend");
+      expect(options.limit).toBe(3);
+    });
+
+    it("should reject unknown options", () => {
+      expect(() => parseCommandArgs(spec, ["backend", "--nope"])).toThrow(
+        UsageError,
+      );
+    });
+
+    it("should reject missing option values", () => {
+      expect(() => parseCommandArgs(spec, ["backend", "--limit"])).toThrow(
+        UsageError,
+      );
+    });
+
+    it("should reject invalid integers", () => {
+      expect(() =>
+        parseCommandArgs(spec, ["backend", "--limit", "1.5"]),
+      ).toThrow("Option '--limit' expects an integer, got '1.5'");
+    });
+
+    it("should reject invalid numbers", () => {
+      expect(() =>
+        parseCommandArgs(spec, ["backend", "--ratio", "abc"]),
+      ).toThrow("Option '--ratio' expects a number, got 'abc'");
+    });
+
+    it("should reject values outside the choices", () => {
+      expect(() =>
+        parseCommandArgs(spec, ["backend", "--sort-by", "date"]),
+      ).toThrow("Option '--sort-by' must be one of: id, name (got 'date')");
+    });
+  });
+
+  describe("help", () => {
+    it("should detect --help without requiring positionals", () => {
+      expect(parseCommandArgs(spec, ["--help"]).help).toBe(true);
+      expect(parseCommandArgs(spec, ["-h"]).help).toBe(true);
+    });
+
+    it("should format the usage line", () => {
+      expect(formatUsage(spec)).toBe("list <category> [query] [options]");
+    });
+
+    it("should describe arguments, options and examples", () => {
+      const help = formatCommandHelp(spec);
+
+      expect(help).toContain("Usage: tdlite list <category> [query] [options]");
+      expect(help).toMatch(/ {2}category\s+Task category/);
+      expect(help).toMatch(/-a, --all\s+Include everything/);
+      expect(help).toMatch(/-n, --limit <integer>\s+Maximum rows/);
+      expect(help).toMatch(/--sort-by <id\|name>\s+Sort field/);
+      expect(help).toContain("  tdlite list backend");
+    });
+  });
+});
@@ -0,0 +1,252 @@
+import { parseArgs } from "node:util";
+
+export interface PositionalSpec {
+  name: string;
+  description: string;
+  optional?: boolean;
+}
+
+export interface OptionSpec {
+  type: "string" | "boolean" | "number" | "integer";
+  description: string;
+  short?: string;
+  /** Value placeholder shown in help (default: the type) */
+  placeholder?: string;
+  /** Accept the option several times and collect the values */
+  multiple?: boolean;
+  /** Allowed values for string options */
+  choices?: readonly string[];
+}
+
+type OptionValue<O extends OptionSpec> = O["type"] extends "boolean"
+  ? boolean
+  : O["type"] extends "number" | "integer"
+    ? number
+    : O extends { choices: readonly (infer C extends string)[] }
+      ? C
+      : string;
+
+export type OptionValues<O extends Record<string, OptionSpec>> = {
+  [K in keyof O]: O[K]["multiple"] extends true
+    ? OptionValue<O[K]>[]
+    : O[K]["type"] extends "boolean"
+      ? boolean
+      : OptionValue<O[K]> | undefined;
+};
+
+export type PositionalValues<P extends readonly PositionalSpec[]> = {
+  [K in P[number] as K["name"]]: K["optional"] extends true
+    ? string | undefined
+    : string;
+};
+
+export interface CommandSpec<
+  P extends readonly PositionalSpec[] = readonly PositionalSpec[],
+  O extends Record<string, OptionSpec> = Record<string, OptionSpec>,
+> {
+  name: string;
+  summary: string;
+  description?: string;
+  positionals: P;
+  options: O;
+  examples?: string[];
+}
+
+export interface ParsedArgs<
+  P extends readonly PositionalSpec[],
+  O extends Record<string, OptionSpec>,
+> {
+  positionals: PositionalValues<P>;
+  options: OptionValues<O>;
+  help: boolean;
+}
+
+/**
+ * Error caused by invalid command line arguments
+ */
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+/**
+ * Convert an option key to its flag name (e.g. createdAfter -> created-after)
+ */
+function toFlagName(key: string): string {
+  return key.replace(/[A-Z]/g, (char) => `-${char.toLowerCase()}`);
+}
+
+/**
+ * Parse the arguments of a command according to its spec
+ * @throws UsageError when flags are unknown, values are invalid or positionals are missing
+ */
+export function parseCommandArgs<
+  P extends readonly PositionalSpec[],
+  O extends Record<string, OptionSpec>,
+>(spec: CommandSpec<P, O>, args: string[]): ParsedArgs<P, O> {
+  const parseOptions: Record<
+    string,
+    { type: "string" | "boolean"; short?: string; multiple?: boolean }
+  > = {
+    help: { type: "boolean", short: "h" },
+  };
+  for (const [key, option] of Object.entries(spec.options)) {
+    parseOptions[toFlagName(key)] = {
+      type: option.type === "boolean" ? "boolean" : "string",
+      ...(option.short ? { short: option.short } : {}),
+      ...(option.multiple ? { multiple: true } : {}),
+    };
+  }
+
+  let parsed: ReturnType<typeof parseArgs>;
+  try {
+    parsed = parseArgs({
+      args,
+      options: parseOptions,
+      allowPositionals: true,
+      strict: true,
+    });
+  } catch (error) {
+    // Only report parse failures as usage errors
+    const code = (error as { code?: string }).code;
+    if (error instanceof Error && code?.startsWith("ERR_PARSE_ARGS")) {
+      throw new UsageError(error.message.split("\n")[0]);
+    }
+    throw error;
+  }
+
+  const help = parsed.values.help === true;
+
+  const options: Record<string, unknown> = {};
+  for (const [key, option] of Object.entries(spec.options)) {
+    const flag = toFlagName(key);
+    const raw = parsed.values[flag];
+    const values = raw === undefined ? [] : Array.isArray(raw) ? raw : [raw];
+    const converted = values.map((value) =>
+      convertOptionValue(flag, option, value),
+    );
+
+    if (option.multiple) {
+      options[key] = converted;
+    } else if (option.type === "boolean") {
+      options[key] = converted[0] ?? false;
+    } else {
+      options[key] = converted[0];
+    }
+  }
+
+  const positionals: Record<string, string | undefined> = {};
+  if (!help) {
+    const required = spec.positionals.filter((p) => !p.optional);
+    if (parsed.positionals.length < required.length) {
+      const missing = required.slice(parsed.positionals.length);
+      throw new UsageError(
+        `Missing argument${missing.length > 1 ? "s" : ""}: ${missing.map((p) => `<${p.name}>`).join(" ")}`,
+      );
+    }
+    if (parsed.positionals.length > spec.positionals.length) {
+      throw new UsageError(
+        `Unexpected argument: ${parsed.positionals[spec.positionals.length]}`,
+      );
+    }
+  }
+  spec.positionals.forEach((positional, i) => {
+    positionals[positional.name] = parsed.positionals[i];
+  });
+
+  return {
+    positionals: positionals as PositionalValues<P>,
+    options: options as OptionValues<O>,
+    help,
+  };
+}
+
+function convertOptionValue(
+  flag: string,
+  option: OptionSpec,
+  value: string | boolean,
+): string | number | boolean {
+  if (typeof value === "boolean") {
+    return value;
+  }
+
+  if (option.type === "number" || option.type === "integer") {
+    const number = Number(value);
+    const valid =
+      value.trim() !== "" &&
+      Number.isFinite(number) &&
+      (option.type === "number" || Number.isInteger(number));
+    if (!valid) {
+      throw new UsageError(
+        `Option '--${flag}' expects ${option.type === "integer" ? "an integer" : "a number"}, got '${value}'`,
+      );
+    }
+    return number;
+  }
+
+  if (option.choices && !option.choices.includes(value)) {
+    throw new UsageError(
+      `Option '--${flag}' must be one of: ${option.choices.join(", ")} (got '${value}')`,
+    );
+  }
+
+  return value;
+}
+
+/**
+ * Format the usage line of a command (e.g. "done <category> <id> [comment]")
+ */
+export function formatUsage(spec: CommandSpec): string {
+  const positionals = spec.positionals.map((p) =>
+    p.optional ? `[${p.name}]` : `<${p.name}>`,
+  );
+  const options = Object.keys(spec.options).length > 0 ? ["[options]"] : [];
+  return [spec.name, ...positionals, ...options].join(" ");
+}
+
+/**
+ * Format the help text of a single command
+ */
+export function formatCommandHelp(spec: CommandSpec): string {
+  const lines = [
+    `Usage: tdlite ${formatUsage(spec)}`,
+    "",
+    spec.description ?? spec.summary,
+  ];
+
+  if (spec.positionals.length > 0) {
+    lines.push("", "Arguments:");
+    for (const positional of spec.positionals) {
+      lines.push(formatEntry(positional.name, positional.description));
+    }
+  }
+
+  lines.push("", "Options:");
+  for (const [key, option] of Object.entries(spec.options)) {
+    const flag = `--${toFlagName(key)}`;
+    const names = option.short ? `-${option.short}, ${flag}` : `    ${flag}`;
+    const value =
+      option.type === "boolean"
+        ? ""
+        : ` <${option.placeholder ?? option.choices?.join("|") ?? option.type}>`;
+    lines.push(formatEntry(names + value, option.description));
+  }
+  lines.push(formatEntry("-h, --help", "Show help for this command"));
+
+  if (spec.examples && spec.examples.length > 0) {
+    lines.push("", "Examples:");
+    for (const example of spec.examples) {
+      lines.push(`  ${example}`);
+    }
+  }
+
+  return lines.join("\n");
+}
+
+function formatEntry(name: string, description: string): string {
+  return name.length < 31
+    ? `  ${name.padEnd(31)}${description}`
+    : `  ${name}\n  ${" ".repeat(31)}${description}`;
+}
@@ -0,0 +1,177 @@
+import { createHash } from "node:crypto";
+import { existsSync, readdirSync, readFileSync, statSync } from "node:fs";
+import path from "node:path";
+import { type IgnoreRule, isIgnored, parseGitignore } from "./gitignore";
+
+export const commentKinds = ["TODO", "FIXME", "HACK"] as const;
+
+export type CommentKind = (typeof commentKinds)[number];
+
+/** A TODO, FIXME or HACK comment found in the code */
+export interface CodeComment {
+  /** Path of the file relative to the root, with / separators */
+  path: string;
+  line: number;
+  kind: CommentKind;
+  text: string;
+  /** The task named in parentheses, e.g. TODO(api-001) */
+  customId?: string;
+}
+
+/** Files larger than this are skipped, as they are unlikely to be source code */
+const maxFileSize = 1024 * 1024;
+
+/**
+ * A marker after one of the comment openers,
+ * with an optional task in parentheses and the text of the comment
+ */
+const markerPattern = (openers: string) =>
+  new RegExp(
+    `(?:^|\\s)(?:${openers})\\s*(TODO|FIXME|HACK)(?:\\(([^()\\s]+)\\))?(?=[\\s:]|$):?\\s*(.*?)\\s*(?:\\*\\/|-->)?\\s*$`,
+  );
+
+/** Comments after //, #, /*, *, --, <!-- or ; */
+const commentPattern = markerPattern(String.raw`\/\/+|#+|\/\*+|\*|--|<!--|;+`);
+
+/** Markdown only has HTML comments: # starts a heading and * a list item */
+const markdownCommentPattern = markerPattern("<!--");
+
+const markdownExtensions = new Set([".md", ".markdown", ".mdx"]);
+
+/**
+ * Find the TODO, FIXME and HACK comments of a text
+ */
+export function parseComments(text: string, filePath: string): CodeComment[] {
+  const comments: CodeComment[] = [];
+  const pattern = markdownExtensions.has(path.extname(filePath).toLowerCase())
+    ? markdownCommentPattern
+    : commentPattern;
+
+  for (const [i, line] of text.split(/\r?\n/).entries()) {
+    const match = line.match(pattern);
+    if (!match) continue;
+
+    const [, kind, customId, commentText] = match;
+    comments.push({
+      path: filePath,
+      line: i + 1,
+      kind: kind as CommentKind,
+      text: commentText,
+      ...(customId ? { customId } : {}),
+    });
+  }
+
+  return comments;
+}
+
+/**
+ * Find the comments of every file under a directory, skipping .git
+ * and what the .gitignore files along the way ignore, as well as binary and large files
+ * @returns The comments in path and line order, and the number of files read
+ */
+export function findComments(root: string): {
+  comments: CodeComment[];
+  files: number;
+} {
+  const comments: CodeComment[] = [];
+  let files = 0;
+
+  const walk = (
+    relativeDir: string,
+    ignores: { base: string; rules: IgnoreRule[] }[],
+  ) => {
+    const dir = path.join(root, relativeDir);
+    const gitignore = path.join(dir, ".gitignore");
+    const levels = existsSync(gitignore)
+      ? [
+          ...ignores,
+          {
+            base: relativeDir,
+            rules: parseGitignore(readFileSync(gitignore, "utf-8")),
+          },
+        ]
+      : ignores;
+
+    const entries = readdirSync(dir, { withFileTypes: true }).sort((a, b) =>
+      a.name < b.name ? -1 : a.name > b.name ? 1 : 0,
+    );
+    for (const entry of entries) {
+      if (entry.name === ".git" || entry.isSymbolicLink()) continue;
+      const relativePath = relativeDir
+        ? `${relativeDir}/${entry.name}`
+        : entry.name;
+      const isDirectory = entry.isDirectory();
+
+      // Deeper .gitignore files override the ones above them
+      let ignored = false;
+      for (const { base, rules } of levels) {
+        const pathFromBase = base
+          ? relativePath.slice(base.length + 1)
+          : relativePath;
+        ignored = isIgnored(rules, pathFromBase, isDirectory) ?? ignored;
+      }
+      if (ignored) continue;
+
+      if (isDirectory) {
+        walk(relativePath, levels);
+      } else if (entry.isFile()) {
+        const filePath = path.join(root, relativePath);
+        if (statSync(filePath).size > maxFileSize) continue;
+        const text = readFileSync(filePath, "utf-8");
+        if (text.includes("\0")) continue;
+
+        files++;
+        comments.push(...parseComments(text, relativePath));
+      }
+    }
+  };
+  walk("", []);
+
+  return { comments, files };
+}
+
+/**
+ * The customId of a comment: the task it names, or one derived from its kind, file and text,
+ * which stays the same when the comment moves within its file
+ * (e.g. "todo-3f2a9c1b")
+ */
+export function commentCustomId(comment: CodeComment): string {
+  if (comment.customId) {
+    return comment.customId;
+  }
+
+  const hash = createHash("sha1")
+    .update(`${comment.path}\n${comment.kind}\n${comment.text}`)
+    .digest("hex");
+  return `${comment.kind.toLowerCase()}-${hash.slice(0, 8)}`;
+}
+
+/**
+ * The reference to a comment, e.g. "TODO at src/index.ts:42"
+ */
+export function formatReference(comment: CodeComment): string {
+  return `${comment.kind} at ${comment.path}:${comment.line}`;
+}
+
+const referenceSeparator = " - ";
+
+const reference = `(?:${commentKinds.join("|")}) at [^;]+?:\\d+`;
+
+/** The references ending a description, after what was written before them */
+const trailingReferences = new RegExp(
+  `(?:^|${referenceSeparator})${reference}(?:; ${reference})*$`,
+);
+
+/**
+ * Replace the references at the end of a description with the current ones,
+ * keeping what was written before them
+ * References stay on the same line as the text, so that tables showing the description keep their layout
+ * (e.g. "Planned in the kickoff - TODO at src/api.ts:2; TODO at src/users.ts:1")
+ */
+export function withReferences(
+  description: string | null,
+  references: string[],
+): string {
+  const text = (description ?? "").replace(trailingReferences, "").trimEnd();
+  return [text, references.join("; ")].filter(Boolean).join(referenceSeparator);
+}
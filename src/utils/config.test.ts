@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { loadConfig } from "./config";
+import { defaultWorkflow } from "./workflow";
+
+describe("loadConfig", () => {
+  let dir: string;
+  let configPath: string;
+
+  const writeConfig = (config: unknown) =>
+    writeFileSync(configPath, JSON.stringify(config));
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), "tdlite-config-"));
+    configPath = path.join(dir, "tdlite.config.json");
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should fall back to the defaults without a config file", () => {
+    expect(loadConfig(configPath)).toEqual({
+      workflow: defaultWorkflow,
+      upsertMode: "replace",
+    });
+  });
+
+  it("should derive the initial, done and actionable statuses", () => {
+    writeConfig({
+      workflow: { statuses: ["todo", "wip", "review", "done"] },
+      upsertMode: "merge",
+    });
+
+    expect(loadConfig(configPath)).toEqual({
+      workflow: {
+        statuses: ["todo", "wip", "review", "done"],
+        initial: "todo",
+        done: ["done"],
+        actionable: ["todo", "wip", "review"],
+        transitions: {},
+        labels: defaultWorkflow.labels,
+      },
+      upsertMode: "merge",
+    });
+  });
+
+  it("should keep the statuses and labels given", () => {
+    writeConfig({
+      workflow: {
+        statuses: ["open", "closed", "cancelled"],
+        done: ["closed", "cancelled"],
+        actionable: ["open"],
+        labels: { open: "Open" },
+      },
+    });
+
+    const { workflow } = loadConfig(configPath);
+
+    expect(workflow.done).toEqual(["closed", "cancelled"]);
+    expect(workflow.actionable).toEqual(["open"]);
+    expect(workflow.labels).toEqual({
+      ...defaultWorkflow.labels,
+      open: "Open",
+    });
+  });
+
+  it("should reject unknown statuses in transitions", () => {
+    writeConfig({
+      workflow: {
+        statuses: ["todo", "wip", "done"],
+        transitions: { todo: ["wip", "doing"] },
+      },
+    });
+
+    expect(() => loadConfig(configPath)).toThrow(
+      "Invalid workflow: 'doing' in transitions is not a defined status",
+    );
+  });
+
+  it("should reject unknown statuses in the other settings", () => {
+    writeConfig({ workflow: { statuses: ["todo"], initial: "wip" } });
+
+    expect(() => loadConfig(configPath)).toThrow(
+      "Invalid workflow: 'wip' in initial is not a defined status",
+    );
+  });
+
+  it("should reject unknown settings", () => {
+    writeConfig({ workflows: {} });
+
+    expect(() => loadConfig(configPath)).toThrow();
+  });
+});
@@ -0,0 +1,92 @@
+import { existsSync, readFileSync } from "node:fs";
+import path from "node:path";
+import { z } from "zod/v4";
+import { getProjectRoot } from "./db";
+import { defaultWorkflow, type Workflow } from "./workflow";
+
+const workflowSchema = z
+  .object({
+    statuses: z.array(z.string().min(1)).min(1),
+    initial: z.string().optional(),
+    done: z.array(z.string()).optional(),
+    actionable: z.array(z.string()).optional(),
+    transitions: z.record(z.string(), z.array(z.string())).optional(),
+    labels: z.record(z.string(), z.string()).optional(),
+  })
+  .strict();
+
+export const upsertModes = ["replace", "merge"] as const;
+
+export type UpsertMode = (typeof upsertModes)[number];
+
+const configSchema = z
+  .object({
+    workflow: workflowSchema.optional(),
+    upsertMode: z.enum(upsertModes).optional(),
+  })
+  .strict();
+
+export interface Config {
+  workflow: Workflow;
+  /** How add treats the omitted fields of existing tasks */
+  upsertMode: UpsertMode;
+}
+
+export function getConfigPath(): string {
+  return path.join(getProjectRoot(), "tdlite.config.json");
+}
+
+/**
+ * Load the project configuration from tdlite.config.json
+ * Missing files and settings fall back to the defaults
+ */
+export function loadConfig(configPath = getConfigPath()): Config {
+  if (!existsSync(configPath)) {
+    return { workflow: defaultWorkflow, upsertMode: "replace" };
+  }
+
+  const parsed = configSchema.parse(
+    JSON.parse(readFileSync(configPath, "utf-8")),
+  );
+
+  return {
+    workflow: parsed.workflow
+      ? resolveWorkflow(parsed.workflow)
+      : defaultWorkflow,
+    upsertMode: parsed.upsertMode ?? "replace",
+  };
+}
+
+function resolveWorkflow(input: z.infer<typeof workflowSchema>): Workflow {
+  const { statuses } = input;
+  const initial = input.initial ?? statuses[0];
+  const done = input.done ?? (statuses.includes("done") ? ["done"] : []);
+  const actionable =
+    input.actionable ?? statuses.filter((status) => !done.includes(status));
+  const transitions = input.transitions ?? {};
+
+  const check = (status: string, field: string) => {
+    if (!statuses.includes(status)) {
+      throw new Error(
+        `Invalid workflow: '${status}' in ${field} is not a defined status`,
+      );
+    }
+  };
+
+  check(initial, "initial");
+  for (const status of done) check(status, "done");
+  for (const status of actionable) check(status, "actionable");
+  for (const [from, targets] of Object.entries(transitions)) {
+    check(from, "transitions");
+    for (const status of targets) check(status, "transitions");
+  }
+
+  return {
+    statuses,
+    initial,
+    done,
+    actionable,
+    transitions,
+    labels: { ...defaultWorkflow.labels, ...input.labels },
+  };
+}
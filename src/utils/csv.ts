@@ -0,0 +1,69 @@
+/**
+ * Quote a CSV field when it contains a separator, quote or line break (RFC 4180)
+ */
+function formatField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Format rows as CSV, one line per row
+ */
+export function formatCsv(rows: string[][]): string {
+  return rows.map((row) => row.map(formatField).join(",")).join("\n");
+}
+
+/**
+ * Parse CSV text into rows of fields (RFC 4180), skipping blank lines
+ * @returns Each row with the line it starts on, from 1
+ * @throws When a quoted field isn't closed
+ */
+export function parseCsv(text: string): { fields: string[]; line: number }[] {
+  const rows: { fields: string[]; line: number }[] = [];
+  let fields: string[] = [];
+  let field = "";
+  let quoted = false;
+  let line = 1;
+  let start = 1;
+
+  const endRow = () => {
+    fields.push(field);
+    if (fields.length > 1 || fields[0] !== "") {
+      rows.push({ fields, line: start });
+    }
+    fields = [];
+    field = "";
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === "\n") line++;
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      fields.push(field);
+      field = "";
+    } else if (char === "\n") {
+      endRow();
+      start = line;
+    } else if (char !== "\r") {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw new Error(`Unclosed quoted field starting on line ${start}`);
+  }
+  endRow();
+
+  return rows;
+}
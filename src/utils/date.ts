@@ -0,0 +1,112 @@
+const DAY = 24 * 60 * 60 * 1000;
+
+const units: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: DAY,
+  w: 7 * DAY,
+};
+
+/**
+ * Parse a date given on the command line
+ * Accepts anything Date understands, e.g. ISO dates like 2025-01-31 or 2025-01-31T12:00:00Z
+ */
+export function parseDate(input: string): Date {
+  const date = new Date(input.trim());
+  if (input.trim() === "" || Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid date: ${input}`);
+  }
+  return date;
+}
+
+/**
+ * Local midnight at the start of a date's day
+ */
+export function startOfDay(date: Date): Date {
+  const start = new Date(date);
+  start.setHours(0, 0, 0, 0);
+  return start;
+}
+
+/**
+ * Parse a date that may be relative to now
+ * Besides absolute dates (see parseDate), accepts now, today, yesterday, tomorrow
+ * and offsets such as 7d (7 days ago), -2w (2 weeks ago) or +3d (in 3 days)
+ * with the units m (minutes), h (hours), d (days) and w (weeks)
+ */
+export function parseDateExpression(input: string, now = new Date()): Date {
+  const value = input.trim().toLowerCase();
+
+  switch (value) {
+    case "now":
+      return new Date(now);
+    case "today":
+      return startOfDay(now);
+    case "yesterday":
+      return new Date(startOfDay(now).getTime() - DAY);
+    case "tomorrow":
+      return new Date(startOfDay(now).getTime() + DAY);
+  }
+
+  // Plain dates are local days, like today and tomorrow
+  const day = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (day) {
+    const [, year, month, date] = day.map(Number);
+    return new Date(year, month - 1, date);
+  }
+
+  const offset = value.match(/^([+-]?)(\d+)([mhdw])$/);
+  if (offset) {
+    const [, sign, amount, unit] = offset;
+    const milliseconds = Number(amount) * units[unit];
+    return new Date(now.getTime() + (sign === "+" ? 1 : -1) * milliseconds);
+  }
+
+  return parseDate(input);
+}
+
+/**
+ * Whether a date expression names a whole day (e.g. 2025-01-31 or today)
+ */
+export function isWholeDay(input: string): boolean {
+  return /^(\d{4}-\d{2}-\d{2}|today|yesterday|tomorrow)$/i.test(input.trim());
+}
+
+/**
+ * The end (exclusive) of the day starting at a date
+ */
+export function endOfDay(start: Date): Date {
+  return new Date(start.getTime() + DAY);
+}
+
+/**
+ * The end (exclusive) of the week containing a date, i.e. the next Monday's midnight
+ */
+export function endOfWeek(date: Date): Date {
+  const end = startOfDay(date);
+  const daysUntilMonday = (8 - end.getDay()) % 7 || 7;
+  end.setDate(end.getDate() + daysUntilMonday);
+  return end;
+}
+
+/**
+ * Format a date for tables: the local date, plus the time unless it is midnight
+ */
+export function formatDate(date: Date): string {
+  const pad = (value: number) => value.toString().padStart(2, "0");
+  const day = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  if (date.getTime() === startOfDay(date).getTime()) {
+    return day;
+  }
+  return `${day} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+/**
+ * Format a date so that parseDateExpression reads back the same instant:
+ * the local date for midnight, otherwise the full ISO timestamp
+ */
+export function formatDateExpression(date: Date): string {
+  return date.getTime() === startOfDay(date).getTime()
+    ? formatDate(date)
+    : date.toISOString();
+}
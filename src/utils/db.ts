@@ -5,25 +5,23 @@ import type { BetterSQLite3Database } from "drizzle-orm/better-sqlite3";
 import type Database from "better-sqlite3";
 import type { schema } from "../db";
 
-export function getDbPath(): string {
+export function getProjectRoot(): string {
   // Find the project root by looking for package.json
   let currentDir = process.cwd();
-  let projectRoot = null;
 
   // Search up the directory tree for package.json
   while (currentDir !== path.dirname(currentDir)) {
     if (existsSync(path.join(currentDir, "package.json"))) {
-      projectRoot = currentDir;
-      break;
+      return currentDir;
     }
     currentDir = path.dirname(currentDir);
   }
 
-  if (!projectRoot) {
-    throw new Error("Could not find project root (no package.json found)");
-  }
+  throw new Error("Could not find project root (no package.json found)");
+}
 
-  return path.join(projectRoot, "tasks.db");
+export function getDbPath(): string {
+  return path.join(getProjectRoot(), "tasks.db");
 }
 
 export function getDb(): {
@@ -52,3 +50,32 @@ export type DatabaseConnection = {
   db: BetterSQLite3Database<typeof schema>;
   sqlite: Database.Database;
 };
+
+/**
+ * Run database work in a single transaction: when it throws, none of it is kept
+ * With rollback, the work is discarded even when it succeeds (e.g. to preview its effects)
+ * Within another transaction, the work runs in a savepoint of it
+ */
+export async function withTransaction<T>(
+  dbConnection: DatabaseConnection,
+  run: () => Promise<T>,
+  { rollback = false }: { rollback?: boolean } = {},
+): Promise<T> {
+  const { sqlite } = dbConnection;
+
+  const nested = sqlite.inTransaction;
+  const commit = nested ? "RELEASE work" : "COMMIT";
+  const abort = nested ? "ROLLBACK TO work; RELEASE work" : "ROLLBACK";
+
+  sqlite.exec(nested ? "SAVEPOINT work" : "BEGIN");
+  try {
+    const result = await run();
+    sqlite.exec(rollback ? abort : commit);
+    return result;
+  } catch (error) {
+    if (sqlite.inTransaction) {
+      sqlite.exec(abort);
+    }
+    throw error;
+  }
+}
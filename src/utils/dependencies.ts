@@ -0,0 +1,154 @@
+import { and, eq, inArray, isNull, notInArray, or } from "drizzle-orm";
+import { alias } from "drizzle-orm/sqlite-core";
+import { schema } from "../db";
+import type { Task } from "../db/schema";
+import type { DatabaseConnection } from "./db";
+import { defaultWorkflow, type Workflow } from "./workflow";
+
+export type TaskWithBlockers = Task & {
+  blocked: boolean;
+  blockedBy: string[];
+};
+
+/**
+ * Get the customIds of unfinished prerequisites for each of the given tasks, leaving out archived ones
+ * Tasks without unfinished prerequisites are not included in the result
+ */
+export async function getBlockers(
+  dbConnection: DatabaseConnection,
+  taskIds: number[],
+  workflow: Workflow = defaultWorkflow,
+): Promise<Map<number, string[]>> {
+  const { db } = dbConnection;
+  const blockers = new Map<number, string[]>();
+
+  if (taskIds.length === 0) {
+    return blockers;
+  }
+
+  const prerequisite = alias(schema.tasks, "prerequisite");
+  const rows = await db
+    .select({
+      taskId: schema.taskDependencies.taskId,
+      customId: prerequisite.customId,
+    })
+    .from(schema.taskDependencies)
+    .innerJoin(
+      prerequisite,
+      eq(prerequisite.id, schema.taskDependencies.dependsOnId),
+    )
+    .where(
+      and(
+        inArray(schema.taskDependencies.taskId, taskIds),
+        isNull(prerequisite.archivedAt),
+        or(
+          isNull(prerequisite.status),
+          notInArray(prerequisite.status, workflow.done),
+        ),
+      ),
+    )
+    .orderBy(prerequisite.id);
+
+  for (const row of rows) {
+    const list = blockers.get(row.taskId) ?? [];
+    list.push(row.customId);
+    blockers.set(row.taskId, list);
+  }
+
+  return blockers;
+}
+
+/**
+ * Annotate tasks with whether they are blocked by unfinished prerequisites
+ */
+export async function withBlockers(
+  dbConnection: DatabaseConnection,
+  tasks: Task[],
+  workflow: Workflow = defaultWorkflow,
+): Promise<TaskWithBlockers[]> {
+  const blockers = await getBlockers(
+    dbConnection,
+    tasks.map((t) => t.id),
+    workflow,
+  );
+
+  return tasks.map((task) => {
+    const blockedBy = blockers.get(task.id) ?? [];
+    return { ...task, blocked: blockedBy.length > 0, blockedBy };
+  });
+}
+
+/**
+ * Get the dependency graph of a category as customId -> prerequisite customIds
+ */
+export async function getDependencyGraph(
+  dbConnection: DatabaseConnection,
+  category: string,
+): Promise<Map<string, string[]>> {
+  const { db } = dbConnection;
+  const dependent = alias(schema.tasks, "dependent");
+  const prerequisite = alias(schema.tasks, "prerequisite");
+
+  const rows = await db
+    .select({
+      customId: dependent.customId,
+      dependsOn: prerequisite.customId,
+    })
+    .from(schema.taskDependencies)
+    .innerJoin(dependent, eq(dependent.id, schema.taskDependencies.taskId))
+    .innerJoin(
+      prerequisite,
+      eq(prerequisite.id, schema.taskDependencies.dependsOnId),
+    )
+    .where(eq(dependent.category, category));
+
+  const graph = new Map<string, string[]>();
+  for (const row of rows) {
+    const list = graph.get(row.customId) ?? [];
+    list.push(row.dependsOn);
+    graph.set(row.customId, list);
+  }
+
+  return graph;
+}
+
+/**
+ * Find a cycle in a dependency graph
+ * @returns The customIds forming the cycle (first and last are the same), or null
+ */
+export function findDependencyCycle(
+  graph: Map<string, string[]>,
+): string[] | null {
+  const visited = new Set<string>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+
+  const visit = (node: string): string[] | null => {
+    visited.add(node);
+    stack.push(node);
+    onStack.add(node);
+
+    for (const next of graph.get(node) ?? []) {
+      if (onStack.has(next)) {
+        return [...stack.slice(stack.indexOf(next)), next];
+      }
+      if (!visited.has(next)) {
+        const cycle = visit(next);
+        if (cycle) return cycle;
+      }
+    }
+
+    stack.pop();
+    onStack.delete(node);
+    return null;
+  };
+
+  for (const node of graph.keys()) {
+    if (!visited.has(node)) {
+      const cycle = visit(node);
+      if (cycle) return cycle;
+    }
+  }
+
+  return null;
+}
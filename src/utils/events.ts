@@ -0,0 +1,53 @@
+import { asc, eq } from "drizzle-orm";
+import { schema } from "../db";
+import type { NewTaskEvent, TaskEvent } from "../db/schema";
+import type { DatabaseConnection } from "./db";
+
+/**
+ * Append an entry to the history of a task
+ */
+export async function recordEvent(
+  dbConnection: DatabaseConnection,
+  event: NewTaskEvent,
+) {
+  const { db } = dbConnection;
+  await db.insert(schema.taskEvents).values(event);
+}
+
+/**
+ * Record a status change, or a comment if the status stays the same
+ */
+export async function recordStatusChange(
+  dbConnection: DatabaseConnection,
+  taskId: number,
+  previousStatus: string | null,
+  status: string,
+  comment?: string | null,
+) {
+  if (previousStatus !== status) {
+    await recordEvent(dbConnection, {
+      taskId,
+      type: "status",
+      status,
+      comment: comment || null,
+    });
+  } else if (comment) {
+    await recordEvent(dbConnection, { taskId, type: "comment", comment });
+  }
+}
+
+/**
+ * Get the history of a task, oldest first
+ */
+export async function getEvents(
+  dbConnection: DatabaseConnection,
+  taskId: number,
+): Promise<TaskEvent[]> {
+  const { db } = dbConnection;
+
+  return db
+    .select()
+    .from(schema.taskEvents)
+    .where(eq(schema.taskEvents.taskId, taskId))
+    .orderBy(asc(schema.taskEvents.createdAt), asc(schema.taskEvents.id));
+}
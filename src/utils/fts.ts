@@ -0,0 +1,74 @@
+import { type SQL, sql } from "drizzle-orm";
+import { schema } from "../db";
+
+/** Full-text index over customId, name and description (see drizzle/0005_tasks_fts.sql) */
+const tasksFts = sql.identifier("tasks_fts");
+
+const operators = new Set(["AND", "OR", "NOT"]);
+
+/**
+ * Whether text contains something the FTS tokenizer indexes (letters or digits)
+ */
+function isSearchable(text: string): boolean {
+  return /[\p{L}\p{N}]/u.test(text);
+}
+
+function quote(text: string): string {
+  return `"${text.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Convert a search query into an FTS5 match expression
+ * Words match as prefixes, "quoted phrases" match exactly, and words are combined with AND
+ * unless joined by OR or NOT; parentheses group expressions
+ * @returns null when the query contains nothing searchable
+ */
+export function toFtsQuery(input: string): string | null {
+  const parts: string[] = [];
+  let hasTerm = false;
+
+  for (const [token, phrase] of input.matchAll(/"([^"]*)"?|[()]|[^\s()"]+/g)) {
+    if (phrase !== undefined) {
+      if (!isSearchable(phrase)) continue;
+      parts.push(quote(phrase));
+      hasTerm = true;
+    } else if (token === "(" || token === ")" || operators.has(token)) {
+      parts.push(token);
+    } else {
+      const word = token.replace(/\*+$/, "");
+      if (!isSearchable(word)) continue;
+      parts.push(`${quote(word)}*`);
+      hasTerm = true;
+    }
+  }
+
+  return hasTerm ? parts.join(" ") : null;
+}
+
+/**
+ * Join condition and helpers for selecting tasks through the full-text index
+ */
+export const fts = {
+  table: sql`${tasksFts}`,
+  join: sql`${tasksFts}.rowid = ${schema.tasks.id}`,
+  match: (ftsQuery: string): SQL => sql`${tasksFts} MATCH ${ftsQuery}`,
+  /** Condition on tasks matching a query, for use without joining the index */
+  contains: (ftsQuery: string): SQL =>
+    sql`${schema.tasks.id} IN (SELECT rowid FROM ${tasksFts} WHERE ${tasksFts} MATCH ${ftsQuery})`,
+  /** Relevance (lower is better); customId and name matches weigh more than description */
+  rank: sql<number>`bm25(${tasksFts}, 10.0, 5.0, 1.0)`,
+  /** Best matching fragment with matches wrapped in ** */
+  snippet: sql<string>`snippet(${tasksFts}, -1, '**', '**', '...', 12)`,
+};
+
+/**
+ * Turn FTS5 query syntax errors into readable errors
+ */
+export function toSearchError(query: string, error: unknown): unknown {
+  if (error instanceof Error && error.message.startsWith("fts5:")) {
+    return new Error(
+      `Invalid search query '${query}': ${error.message.replace(/^fts5:\s*/, "")}`,
+    );
+  }
+  return error;
+}
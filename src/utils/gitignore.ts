@@ -0,0 +1,103 @@
+/** A pattern of a .gitignore file */
+export interface IgnoreRule {
+  regex: RegExp;
+  negated: boolean;
+  directoryOnly: boolean;
+}
+
+/**
+ * Convert a gitignore glob to a regular expression source
+ * (* and ? stay within a path segment, ** spans segments)
+ */
+function globToRegex(glob: string): string {
+  let source = "";
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === "*" && glob[i + 1] === "*") {
+      if (glob[i + 2] === "/") {
+        source += "(?:.*/)?";
+        i += 2;
+      } else {
+        source += ".*";
+        i += 1;
+      }
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "[") {
+      const end = glob.indexOf("]", i + 2);
+      if (end < 0) {
+        source += "\\[";
+      } else {
+        source += `[${glob
+          .slice(i + 1, end)
+          .replace(/^!/, "^")
+          .replace(/\\/g, "\\\\")}]`;
+        i = end;
+      }
+    } else if (char === "\\" && i + 1 < glob.length) {
+      source += glob[++i].replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+    } else {
+      source += char.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+    }
+  }
+  return source;
+}
+
+/**
+ * Parse the patterns of a .gitignore file
+ */
+export function parseGitignore(text: string): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    // Trailing spaces are ignored unless escaped
+    let pattern = rawLine.replace(/(?<!\\)\s+$/, "");
+    if (pattern === "" || pattern.startsWith("#")) continue;
+
+    const negated = pattern.startsWith("!");
+    if (negated) pattern = pattern.slice(1);
+    if (pattern.startsWith("\\#") || pattern.startsWith("\\!")) {
+      pattern = pattern.slice(1);
+    }
+
+    const directoryOnly = pattern.endsWith("/");
+    if (directoryOnly) pattern = pattern.slice(0, -1);
+    if (pattern === "") continue;
+
+    // A slash at the start or in the middle anchors the pattern to the .gitignore's directory
+    const anchored = pattern.includes("/");
+    if (pattern.startsWith("/")) pattern = pattern.slice(1);
+
+    rules.push({
+      regex: new RegExp(
+        `${anchored ? "^" : "(?:^|/)"}${globToRegex(pattern)}$`,
+      ),
+      negated,
+      directoryOnly,
+    });
+  }
+
+  return rules;
+}
+
+/**
+ * Whether the rules ignore a path, relative to the directory of their .gitignore
+ * The last matching rule decides, so a negated rule can bring back an ignored path
+ * @returns undefined when no rule matches, leaving the decision to the parent directories
+ */
+export function isIgnored(
+  rules: IgnoreRule[],
+  relativePath: string,
+  isDirectory: boolean,
+): boolean | undefined {
+  let ignored: boolean | undefined;
+  for (const rule of rules) {
+    if (rule.directoryOnly && !isDirectory) continue;
+    if (rule.regex.test(relativePath)) {
+      ignored = !rule.negated;
+    }
+  }
+  return ignored;
+}
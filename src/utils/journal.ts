@@ -0,0 +1,330 @@
+import { asc, desc, getTableName, isNotNull, isNull, lte } from "drizzle-orm";
+import type { SQLiteTable } from "drizzle-orm/sqlite-core";
+import { schema } from "../db";
+import type { JournalEntry, RowChange } from "../db/schema";
+import type { DatabaseConnection } from "./db";
+
+type Row = Record<string, unknown>;
+
+interface JournaledTable {
+  name: string;
+  /** Columns identifying a row */
+  key: string[];
+  /** Writes recorded for the table */
+  events: TableEvent[];
+}
+
+type TableEvent = "INSERT" | "UPDATE" | "DELETE";
+
+function journaledTable(
+  table: SQLiteTable,
+  key: { name: string }[],
+  events: TableEvent[] = ["INSERT", "UPDATE", "DELETE"],
+): JournaledTable {
+  return {
+    name: getTableName(table),
+    key: key.map((column) => column.name),
+    events,
+  };
+}
+
+/**
+ * Tables whose rows operations can change, parents before the rows referencing them
+ * Only deletions of task_events are recorded, so that undoing a purge brings back the history
+ * of the task while undo and redo add to the history instead of rewriting it
+ */
+const journaledTables: JournaledTable[] = [
+  journaledTable(schema.tasks, [schema.tasks.id]),
+  journaledTable(schema.taskEvents, [schema.taskEvents.id], ["DELETE"]),
+  journaledTable(schema.tags, [schema.tags.id]),
+  journaledTable(schema.taskDependencies, [
+    schema.taskDependencies.taskId,
+    schema.taskDependencies.dependsOnId,
+  ]),
+  journaledTable(schema.taskTags, [
+    schema.taskTags.taskId,
+    schema.taskTags.tagId,
+  ]),
+  journaledTable(schema.timeEntries, [schema.timeEntries.id]),
+  journaledTable(schema.codeReferences, [schema.codeReferences.id]),
+];
+
+const tablesByName = new Map(journaledTables.map((t) => [t.name, t]));
+
+/** Number of operations kept in the journal; older ones can no longer be undone */
+export const journalLimit = 100;
+
+/** Temporary table receiving the images of the rows written to the journaled tables */
+const changesTable = "journal_changes";
+
+/** Connections running a journaled operation, which records the changes of the nested ones */
+const recording = new WeakSet<DatabaseConnection["sqlite"]>();
+
+function rowKey(table: JournaledTable, row: Row): string {
+  return JSON.stringify(table.key.map((column) => row[column]));
+}
+
+function keyCondition(table: JournaledTable): string {
+  return table.key.map((column) => `"${column}" = ?`).join(" AND ");
+}
+
+function keyValues(table: JournaledTable, row: Row): unknown[] {
+  return table.key.map((column) => row[column]);
+}
+
+/**
+ * Create the temporary triggers copying every row written to a journaled table,
+ * as it was before and after the write, into the changes table
+ * They last as long as the connection, or until the transaction creating them rolls back
+ */
+function trackChanges(dbConnection: DatabaseConnection) {
+  const { sqlite } = dbConnection;
+
+  const exists = sqlite
+    .prepare("SELECT 1 FROM sqlite_temp_master WHERE name = ?")
+    .get(changesTable);
+  if (exists) return;
+
+  sqlite.exec(
+    `CREATE TEMP TABLE "${changesTable}" ("seq" INTEGER PRIMARY KEY, "table" TEXT NOT NULL, "before" TEXT, "after" TEXT)`,
+  );
+  for (const table of journaledTables) {
+    const columns = (
+      sqlite.pragma(`table_info("${table.name}")`) as { name: string }[]
+    ).map((column) => column.name);
+    const image = (row: "OLD" | "NEW") =>
+      `json_object(${columns.map((c) => `'${c}', ${row}."${c}"`).join(", ")})`;
+
+    const images: Record<TableEvent, [string, string]> = {
+      INSERT: ["NULL", image("NEW")],
+      UPDATE: [image("OLD"), image("NEW")],
+      DELETE: [image("OLD"), "NULL"],
+    };
+    for (const event of table.events) {
+      const [before, after] = images[event];
+      sqlite.exec(
+        `CREATE TEMP TRIGGER "${changesTable}_${table.name}_${event.toLowerCase()}" AFTER ${event} ON "${table.name}" BEGIN INSERT INTO "${changesTable}" ("table", "before", "after") VALUES ('${table.name}', ${before}, ${after}); END`,
+      );
+    }
+  }
+}
+
+function sameRow(a: Row | null, b: Row | null): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Take the rows written since the changes table was emptied,
+ * each with its first image before and last image after, leaving out rows that ended up unchanged
+ */
+function takeChanges(dbConnection: DatabaseConnection): RowChange[] {
+  const { sqlite } = dbConnection;
+
+  const images = sqlite
+    .prepare(
+      `SELECT "table", "before", "after" FROM "${changesTable}" ORDER BY "seq"`,
+    )
+    .all() as { table: string; before: string | null; after: string | null }[];
+  sqlite.prepare(`DELETE FROM "${changesTable}"`).run();
+
+  const changes = new Map<string, RowChange>();
+  for (const image of images) {
+    const table = tablesByName.get(image.table);
+    if (!table) continue;
+    const before = image.before === null ? null : JSON.parse(image.before);
+    const after = image.after === null ? null : JSON.parse(image.after);
+
+    const key = `${table.name}\t${rowKey(table, before ?? after)}`;
+    const change = changes.get(key);
+    if (change) {
+      change.after = after;
+    } else {
+      changes.set(key, { table: table.name, before, after });
+    }
+  }
+
+  return journaledTables.flatMap((table) =>
+    [...changes.values()].filter(
+      (change) =>
+        change.table === table.name && !sameRow(change.before, change.after),
+    ),
+  );
+}
+
+/**
+ * Run a mutating command and record the rows it changed in the journal, so it can be undone
+ * Recording an operation discards the operations that were undone before it,
+ * and the oldest ones beyond the journal limit
+ * A journaled command run by another one is recorded as part of it
+ */
+export async function journaled<T>(
+  dbConnection: DatabaseConnection,
+  command: string,
+  run: () => Promise<T>,
+): Promise<T> {
+  const { db, sqlite } = dbConnection;
+
+  if (recording.has(sqlite)) {
+    return run();
+  }
+
+  trackChanges(dbConnection);
+  // Forget the writes made outside of journaled commands
+  sqlite.prepare(`DELETE FROM "${changesTable}"`).run();
+
+  recording.add(sqlite);
+  let result: T;
+  try {
+    result = await run();
+  } finally {
+    recording.delete(sqlite);
+  }
+  const changes = takeChanges(dbConnection);
+
+  if (changes.length > 0) {
+    await db.delete(schema.journal).where(isNotNull(schema.journal.undoneAt));
+    await db.insert(schema.journal).values({ command, changes });
+
+    const [oldest] = await db
+      .select({ id: schema.journal.id })
+      .from(schema.journal)
+      .orderBy(desc(schema.journal.id))
+      .limit(1)
+      .offset(journalLimit);
+    if (oldest) {
+      await db.delete(schema.journal).where(lte(schema.journal.id, oldest.id));
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Get the most recent operations that can be undone, latest first
+ */
+export async function getUndoableEntries(
+  dbConnection: DatabaseConnection,
+  count: number,
+): Promise<JournalEntry[]> {
+  const { db } = dbConnection;
+
+  return db
+    .select()
+    .from(schema.journal)
+    .where(isNull(schema.journal.undoneAt))
+    .orderBy(desc(schema.journal.id))
+    .limit(count);
+}
+
+/**
+ * Get the earliest undone operation, which redo reapplies first
+ */
+export async function getRedoableEntry(
+  dbConnection: DatabaseConnection,
+): Promise<JournalEntry | undefined> {
+  const { db } = dbConnection;
+
+  const [entry] = await db
+    .select()
+    .from(schema.journal)
+    .where(isNotNull(schema.journal.undoneAt))
+    .orderBy(asc(schema.journal.id))
+    .limit(1);
+  return entry;
+}
+
+/**
+ * Put the rows changed by an operation back to their contents before it (undo)
+ * or after it (redo), and mark the operation accordingly
+ * @throws When a row has been changed since, e.g. by a command that isn't journaled
+ */
+export function applyEntry(
+  dbConnection: DatabaseConnection,
+  entry: JournalEntry,
+  direction: "undo" | "redo",
+) {
+  const { sqlite } = dbConnection;
+
+  const rows = entry.changes.map((change) => ({
+    table: tablesByName.get(change.table),
+    expected: direction === "undo" ? change.after : change.before,
+    target: direction === "undo" ? change.before : change.after,
+  }));
+
+  sqlite.transaction(() => {
+    // Rows may reference each other in any order until the changes are complete
+    sqlite.pragma("defer_foreign_keys = ON");
+
+    for (const { table, expected, target } of rows) {
+      if (!table) {
+        throw new Error(`Unknown table in journal entry ${entry.id}`);
+      }
+      const current =
+        (sqlite
+          .prepare(`SELECT * FROM "${table.name}" WHERE ${keyCondition(table)}`)
+          .get(...keyValues(table, (expected ?? target) as Row)) as
+          | Row
+          | undefined) ?? null;
+      if (!sameRow(current, expected)) {
+        throw new Error(
+          `Can't ${direction} '${entry.command}': ${table.name} rows have changed since`,
+        );
+      }
+    }
+
+    // Insert parents first and delete the rows referencing them first
+    for (const { table, expected, target } of rows) {
+      if (!table || expected !== null || target === null) continue;
+      const columns = Object.keys(target);
+      sqlite
+        .prepare(
+          `INSERT INTO "${table.name}" (${columns.map((c) => `"${c}"`).join(", ")}) VALUES (${columns.map(() => "?").join(", ")})`,
+        )
+        .run(...columns.map((column) => target[column]));
+    }
+    for (const { table, expected, target } of rows) {
+      if (!table || expected === null || target === null) continue;
+      const columns = Object.keys(target);
+      sqlite
+        .prepare(
+          `UPDATE "${table.name}" SET ${columns.map((c) => `"${c}" = ?`).join(", ")} WHERE ${keyCondition(table)}`,
+        )
+        .run(
+          ...columns.map((column) => target[column]),
+          ...keyValues(table, expected),
+        );
+    }
+    for (const { table, expected, target } of [...rows].reverse()) {
+      if (!table || expected === null || target !== null) continue;
+      sqlite
+        .prepare(`DELETE FROM "${table.name}" WHERE ${keyCondition(table)}`)
+        .run(...keyValues(table, expected));
+    }
+
+    // The history of the tasks that are still there tells of the undo or redo
+    const events = schema.taskEvents;
+    const taskIds = new Set(
+      rows.flatMap(({ table, expected, target }) => {
+        const row = (target ?? expected) as Row;
+        if (table?.name === getTableName(schema.tasks)) return [row.id];
+        return events.taskId.name in row ? [row[events.taskId.name]] : [];
+      }),
+    );
+    for (const taskId of taskIds) {
+      sqlite
+        .prepare(
+          `INSERT INTO "${getTableName(events)}" ("${events.taskId.name}", "${events.type.name}", "${events.status.name}", "${events.comment.name}") SELECT "${schema.tasks.id.name}", ?, "${schema.tasks.status.name}", ? FROM "${getTableName(schema.tasks)}" WHERE "${schema.tasks.id.name}" = ?`,
+        )
+        .run(direction, entry.command, taskId);
+    }
+
+    sqlite
+      .prepare(
+        `UPDATE "${getTableName(schema.journal)}" SET "${schema.journal.undoneAt.name}" = ? WHERE "${schema.journal.id.name}" = ?`,
+      )
+      .run(
+        direction === "undo" ? Math.floor(Date.now() / 1000) : null,
+        entry.id,
+      );
+  })();
+}
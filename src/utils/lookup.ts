@@ -0,0 +1,43 @@
+import { and, eq, or } from "drizzle-orm";
+import { schema } from "../db";
+import type { Task } from "../db/schema";
+import type { DatabaseConnection } from "./db";
+
+/**
+ * Find a task of a category by ID or customId
+ * @throws When no task matches
+ */
+export async function findTask(
+  dbConnection: DatabaseConnection,
+  category: string,
+  idOrCustomId: string,
+): Promise<Task> {
+  const { db } = dbConnection;
+
+  // Try to parse as number for id (only positive integers are considered valid IDs)
+  const id = Number.parseInt(idOrCustomId, 10);
+  const isValidNumericId =
+    !Number.isNaN(id) && id > 0 && /^\d+$/.test(idOrCustomId);
+
+  const [task] = await db
+    .select()
+    .from(schema.tasks)
+    .where(
+      and(
+        eq(schema.tasks.category, category),
+        or(
+          isValidNumericId ? eq(schema.tasks.id, id) : undefined,
+          eq(schema.tasks.customId, idOrCustomId),
+        ),
+      ),
+    );
+
+  if (!task) {
+    console.error(
+      `Task not found with ${isValidNumericId ? "id" : "customId"}: ${idOrCustomId} in category '${category}'`,
+    );
+    throw new Error(`Task not found: ${idOrCustomId}`);
+  }
+
+  return task;
+}
@@ -0,0 +1,45 @@
+/** Named priority levels; higher values are more important */
+export const priorityLevels = {
+  low: 1,
+  medium: 2,
+  high: 3,
+  critical: 4,
+} as const;
+
+export type PriorityName = keyof typeof priorityLevels;
+
+export const defaultPriority = priorityLevels.medium;
+
+/**
+ * Convert a priority name or number to its stored value
+ */
+export function parsePriority(value: string | number): number {
+  if (typeof value === "number") {
+    if (!Number.isInteger(value)) {
+      throw new Error(`Invalid priority '${value}' (expected an integer)`);
+    }
+    return value;
+  }
+
+  const name = value.trim().toLowerCase();
+  if (Object.hasOwn(priorityLevels, name)) {
+    return priorityLevels[name as PriorityName];
+  }
+  if (/^-?\d+$/.test(name)) {
+    return Number(name);
+  }
+
+  throw new Error(
+    `Unknown priority '${value}' (expected an integer or one of: ${Object.keys(priorityLevels).join(", ")})`,
+  );
+}
+
+/**
+ * Display name of a priority, e.g. "High" or "7" for values without a name
+ */
+export function getPriorityLabel(priority: number): string {
+  const name = Object.entries(priorityLevels).find(
+    ([, value]) => value === priority,
+  )?.[0];
+  return name ? name.charAt(0).toUpperCase() + name.slice(1) : String(priority);
+}
@@ -0,0 +1,243 @@
+import {
+  and,
+  asc,
+  desc,
+  eq,
+  gt,
+  gte,
+  inArray,
+  isNotNull,
+  isNull,
+  lt,
+  lte,
+  or,
+  type SQL,
+  sql,
+} from "drizzle-orm";
+import type { SQLiteColumn } from "drizzle-orm/sqlite-core";
+import { schema } from "../db";
+import type { Task } from "../db/schema";
+import type { DatabaseConnection } from "./db";
+import { hasTags } from "./tags";
+
+export const sortFields = [
+  "id",
+  "category",
+  "customId",
+  "name",
+  "status",
+  "priority",
+  "startAt",
+  "dueAt",
+  "createdAt",
+  "updatedAt",
+] as const;
+
+export type SortField = (typeof sortFields)[number];
+
+export type ArchivedFilter = "include" | "only";
+
+export interface TaskFilters {
+  status?: string[];
+  createdAfter?: Date;
+  createdBefore?: Date;
+  updatedAfter?: Date;
+  updatedBefore?: Date;
+  /** Text contained in customId, name or description */
+  match?: string;
+  idFrom?: number;
+  idTo?: number;
+  /** Tags every task must have */
+  tags?: string[];
+  /** Whether to include archived tasks or only list those (default: leave them out) */
+  archived?: ArchivedFilter;
+}
+
+export interface TaskQuery extends TaskFilters {
+  sort?: SortField;
+  order?: "asc" | "desc";
+  limit?: number;
+  offset?: number;
+}
+
+const sortColumns = {
+  id: schema.tasks.id,
+  category: schema.tasks.category,
+  customId: schema.tasks.customId,
+  name: schema.tasks.name,
+  status: schema.tasks.status,
+  priority: schema.tasks.priority,
+  startAt: schema.tasks.startAt,
+  dueAt: schema.tasks.dueAt,
+  createdAt: schema.tasks.createdAt,
+  updatedAt: schema.tasks.updatedAt,
+} satisfies Record<SortField, unknown>;
+
+/** Category selector matching every category */
+export const allCategories = "*";
+
+/**
+ * Split a category selector into its patterns
+ * A selector is a category name, a glob (e.g. "back*") or a comma-separated list of either
+ */
+function parseCategorySelector(selector: string): string[] {
+  const patterns = selector
+    .split(",")
+    .map((pattern) => pattern.trim())
+    .filter((pattern) => pattern !== "");
+  // An empty selector is taken literally rather than matching nothing
+  return patterns.length > 0 ? patterns : [selector];
+}
+
+function isGlob(pattern: string): boolean {
+  return /[*?[]/.test(pattern);
+}
+
+/**
+ * Build the condition selecting the categories of a category selector
+ * @returns undefined when the selector matches every category
+ */
+export function categoryCondition(selector: string): SQL | undefined {
+  const patterns = parseCategorySelector(selector);
+  if (patterns.includes(allCategories)) {
+    return undefined;
+  }
+
+  return or(
+    ...patterns.flatMap((pattern) =>
+      // Category names containing glob characters still match literally
+      isGlob(pattern)
+        ? [
+            eq(schema.tasks.category, pattern),
+            sql`${schema.tasks.category} GLOB ${pattern}`,
+          ]
+        : [eq(schema.tasks.category, pattern)],
+    ),
+  );
+}
+
+/**
+ * Describe a category selector for messages (e.g. "category 'backend'")
+ */
+export function describeCategories(selector: string): string {
+  const patterns = parseCategorySelector(selector);
+  if (patterns.includes(allCategories)) {
+    return "any category";
+  }
+  if (patterns.length === 1 && !isGlob(patterns[0])) {
+    return `category '${patterns[0]}'`;
+  }
+  return `categories matching '${patterns.join(",")}'`;
+}
+
+/**
+ * Build the condition selecting archived or unarchived tasks
+ * @returns undefined when archived tasks are included
+ */
+export function archivedCondition(archived?: ArchivedFilter): SQL | undefined {
+  switch (archived) {
+    case "include":
+      return undefined;
+    case "only":
+      return isNotNull(schema.tasks.archivedAt);
+    default:
+      return isNull(schema.tasks.archivedAt);
+  }
+}
+
+/**
+ * Build a LIKE condition matching text anywhere in a column
+ */
+export function containsText(column: SQLiteColumn, text: string): SQL {
+  // Escape SQL LIKE wildcards in the text
+  const escapedText = text.replace(/[%_]/g, "\\$&");
+  return sql`${column} LIKE ${`%${escapedText}%`} ESCAPE '\\'`;
+}
+
+/**
+ * Build a LIKE condition matching text anywhere in customId, name or description
+ */
+export function textMatch(query: string): SQL | undefined {
+  return or(
+    containsText(schema.tasks.customId, query),
+    containsText(schema.tasks.name, query),
+    containsText(schema.tasks.description, query),
+  );
+}
+
+/**
+ * Build the where conditions for task filters
+ */
+export function buildTaskConditions(filters: TaskFilters): SQL[] {
+  const conditions: (SQL | undefined)[] = [archivedCondition(filters.archived)];
+
+  if (filters.status && filters.status.length > 0) {
+    conditions.push(inArray(schema.tasks.status, filters.status));
+  }
+  if (filters.createdAfter) {
+    conditions.push(gt(schema.tasks.createdAt, filters.createdAfter));
+  }
+  if (filters.createdBefore) {
+    conditions.push(lt(schema.tasks.createdAt, filters.createdBefore));
+  }
+  if (filters.updatedAfter) {
+    conditions.push(gt(schema.tasks.updatedAt, filters.updatedAfter));
+  }
+  if (filters.updatedBefore) {
+    conditions.push(lt(schema.tasks.updatedAt, filters.updatedBefore));
+  }
+  if (filters.match !== undefined) {
+    conditions.push(textMatch(filters.match));
+  }
+  if (filters.idFrom !== undefined) {
+    conditions.push(gte(schema.tasks.id, filters.idFrom));
+  }
+  if (filters.idTo !== undefined) {
+    conditions.push(lte(schema.tasks.id, filters.idTo));
+  }
+  if (filters.tags && filters.tags.length > 0) {
+    conditions.push(hasTags(filters.tags));
+  }
+
+  return conditions.filter((c): c is SQL => c !== undefined);
+}
+
+/**
+ * Select tasks matching a base condition and the query's filters, sorted and paginated
+ */
+export async function queryTasks(
+  dbConnection: DatabaseConnection,
+  where: SQL | undefined,
+  query: TaskQuery = {},
+): Promise<Task[]> {
+  const { db } = dbConnection;
+
+  const direction = query.order === "desc" ? desc : asc;
+  const sort = query.sort ?? "priority";
+  // Most important first unless an order is given
+  const sortDirection = sort === "priority" && !query.order ? desc : direction;
+  // Break ties by id so the order is always deterministic
+  const orderBy =
+    sort === "id"
+      ? [direction(schema.tasks.id)]
+      : [sortDirection(sortColumns[sort]), direction(schema.tasks.id)];
+  if (sort === "startAt" || sort === "dueAt") {
+    // Undated tasks come last in either order
+    orderBy.unshift(sql`${sortColumns[sort]} IS NULL`);
+  }
+
+  const select = db
+    .select()
+    .from(schema.tasks)
+    .where(and(where, ...buildTaskConditions(query)))
+    .orderBy(...orderBy)
+    .$dynamic();
+
+  if (query.limit === undefined && query.offset === undefined) {
+    return select;
+  }
+  // SQLite only accepts OFFSET after a LIMIT
+  return select
+    .limit(query.limit ?? Number.MAX_SAFE_INTEGER)
+    .offset(query.offset ?? 0);
+}
@@ -0,0 +1,177 @@
+import { eq } from "drizzle-orm";
+import { schema } from "../db";
+import type { Task } from "../db/schema";
+import { formatDate, startOfDay } from "./date";
+import type { DatabaseConnection } from "./db";
+import { recordEvent } from "./events";
+import { addTaskTags, getTags } from "./tags";
+import { defaultWorkflow, type Workflow } from "./workflow";
+
+export interface Recurrence {
+  unit: "day" | "week" | "month" | "year";
+  count: number;
+}
+
+const namedRules: Record<string, Recurrence> = {
+  daily: { unit: "day", count: 1 },
+  weekly: { unit: "week", count: 1 },
+  monthly: { unit: "month", count: 1 },
+  yearly: { unit: "year", count: 1 },
+};
+
+/**
+ * Parse a recurrence rule: daily, weekly, monthly, yearly,
+ * or an interval such as "every 2 weeks" or "every day"
+ * @throws When the rule is not understood
+ */
+export function parseRecurrence(rule: string): Recurrence {
+  const value = rule.trim().toLowerCase().replace(/\s+/g, " ");
+
+  const named = namedRules[value];
+  if (named) {
+    return named;
+  }
+
+  const match = value.match(/^every (?:(\d+) )?(day|week|month|year)s?$/);
+  const count = match?.[1] === undefined ? 1 : Number(match[1]);
+  if (!match || !Number.isSafeInteger(count) || count < 1) {
+    throw new Error(
+      `Invalid recurrence '${rule}' (expected daily, weekly, monthly, yearly or e.g. every 2 weeks)`,
+    );
+  }
+  return { unit: match[2] as Recurrence["unit"], count };
+}
+
+/**
+ * Normalize a recurrence rule for storage (e.g. "Every 2 Weeks" → "every 2 weeks")
+ * @throws When the rule is not understood
+ */
+export function normalizeRecurrence(rule: string): string {
+  parseRecurrence(rule);
+  return rule.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+/**
+ * Add one interval of a recurrence to a date
+ * Months and years keep the day of month, clamped to the end of shorter months
+ */
+export function addInterval(date: Date, recurrence: Recurrence): Date {
+  const next = new Date(date);
+
+  switch (recurrence.unit) {
+    case "day":
+    case "week":
+      next.setDate(
+        next.getDate() +
+          recurrence.count * (recurrence.unit === "week" ? 7 : 1),
+      );
+      return next;
+
+    case "month":
+    case "year": {
+      const months = recurrence.count * (recurrence.unit === "year" ? 12 : 1);
+      next.setDate(1);
+      next.setMonth(next.getMonth() + months);
+      const lastDay = new Date(
+        next.getFullYear(),
+        next.getMonth() + 1,
+        0,
+      ).getDate();
+      next.setDate(Math.min(date.getDate(), lastDay));
+      return next;
+    }
+  }
+}
+
+/**
+ * The due date of the next occurrence: one interval after the current due date
+ * (or after today without one), skipping occurrences that are already past
+ */
+export function nextDueDate(
+  dueAt: Date | null,
+  recurrence: Recurrence,
+  now = new Date(),
+): Date {
+  let next = addInterval(dueAt ?? startOfDay(now), recurrence);
+  while (next <= now) {
+    next = addInterval(next, recurrence);
+  }
+  return next;
+}
+
+/**
+ * The customId of an occurrence: the customId of the series suffixed with its due date
+ * (e.g. "deps-audit" → "deps-audit-2025-06-18")
+ */
+export function occurrenceId(customId: string, dueAt: Date): string {
+  const base = customId.replace(/-\d{4}-\d{2}-\d{2}$/, "");
+  return `${base}-${formatDate(startOfDay(dueAt))}`;
+}
+
+/**
+ * Create the next occurrence of a recurring task, linking both in their history
+ * @returns The new task, or null when the task doesn't recur or the occurrence already exists
+ */
+export async function spawnNextOccurrence(
+  dbConnection: DatabaseConnection,
+  taskId: number,
+  workflow: Workflow = defaultWorkflow,
+  now = new Date(),
+): Promise<Task | null> {
+  const { db } = dbConnection;
+
+  const [task] = await db
+    .select()
+    .from(schema.tasks)
+    .where(eq(schema.tasks.id, taskId));
+  if (!task?.recurrence) {
+    return null;
+  }
+
+  const dueAt = nextDueDate(task.dueAt, parseRecurrence(task.recurrence), now);
+  // Keep the time between start and due date
+  const startAt =
+    task.startAt && task.dueAt
+      ? new Date(
+          dueAt.getTime() - (task.dueAt.getTime() - task.startAt.getTime()),
+        )
+      : null;
+
+  const [next] = await db
+    .insert(schema.tasks)
+    .values({
+      customId: occurrenceId(task.customId, dueAt),
+      category: task.category,
+      name: task.name,
+      description: task.description,
+      status: workflow.initial,
+      priority: task.priority,
+      estimate: task.estimate,
+      recurrence: task.recurrence,
+      startAt,
+      dueAt,
+      parentId: task.parentId,
+    })
+    .onConflictDoNothing()
+    .returning();
+  if (!next) {
+    return null;
+  }
+
+  const tags = (await getTags(dbConnection, [task.id])).get(task.id);
+  await addTaskTags(dbConnection, next.id, tags ?? []);
+
+  await recordEvent(dbConnection, {
+    taskId: task.id,
+    type: "recurrence",
+    comment: `Next occurrence: ${next.customId}`,
+  });
+  await recordEvent(dbConnection, {
+    taskId: next.id,
+    type: "recurrence",
+    status: next.status,
+    comment: `Previous occurrence: ${task.customId}`,
+  });
+
+  return next;
+}
@@ -0,0 +1,64 @@
+import type { Task } from "../db/schema";
+import { endOfDay, endOfWeek, startOfDay } from "./date";
+import { isDoneStatus, type Workflow } from "./workflow";
+
+export const agendaGroups = ["overdue", "today", "thisWeek", "later"] as const;
+
+export type AgendaGroup = (typeof agendaGroups)[number];
+
+export const agendaGroupLabels: Record<AgendaGroup, string> = {
+  overdue: "Overdue",
+  today: "Today",
+  thisWeek: "This week",
+  later: "Later",
+};
+
+/**
+ * The moment a due date passes; a due date at midnight allows the whole day
+ */
+function getDeadline(dueAt: Date): Date {
+  return dueAt.getTime() === startOfDay(dueAt).getTime()
+    ? endOfDay(dueAt)
+    : dueAt;
+}
+
+/**
+ * Whether an unfinished task is past its due date
+ */
+export function isOverdue(
+  task: Pick<Task, "dueAt" | "status">,
+  workflow: Workflow,
+  now = new Date(),
+): boolean {
+  return (
+    task.dueAt !== null &&
+    getDeadline(task.dueAt) <= now &&
+    !isDoneStatus(workflow, task.status)
+  );
+}
+
+/**
+ * The date a task is scheduled for: its due date, or its start date without one
+ */
+export function getScheduledDate(
+  task: Pick<Task, "dueAt" | "startAt">,
+): Date | null {
+  return task.dueAt ?? task.startAt;
+}
+
+/**
+ * Place a task on the agenda relative to now
+ * @returns null for tasks without due or start date
+ */
+export function getAgendaGroup(
+  task: Pick<Task, "dueAt" | "startAt">,
+  now = new Date(),
+): AgendaGroup | null {
+  const date = getScheduledDate(task);
+  if (date === null) return null;
+
+  if (task.dueAt !== null && getDeadline(task.dueAt) <= now) return "overdue";
+  if (date < endOfDay(startOfDay(now))) return "today";
+  if (date < endOfWeek(now)) return "thisWeek";
+  return "later";
+}
@@ -0,0 +1,180 @@
+import { describe, it, expect } from "vitest";
+import { parseSearchQuery, QuerySyntaxError } from "./search-query";
+
+function syntaxError(query: string): QuerySyntaxError {
+  try {
+    parseSearchQuery(query);
+  } catch (error) {
+    if (error instanceof QuerySyntaxError) return error;
+    throw error;
+  }
+  throw new Error(`Expected '${query}' to be rejected`);
+}
+
+describe("parseSearchQuery", () => {
+  describe("free text", () => {
+    it("should keep text without qualifiers as free text", () => {
+      const { text, conditions } = parseSearchQuery('auth "login page" OR x');
+
+      expect(text).toBe('auth "login page" OR x');
+      expect(conditions).toHaveLength(0);
+    });
+
+    it("should separate qualifiers from free text", () => {
+      const { text, conditions } = parseSearchQuery(
+        'status:wip name:"auth flow" login updated:>7d',
+      );
+
+      expect(text).toBe("login");
+      expect(conditions).toHaveLength(3);
+    });
+
+    it("should turn negated terms into conditions", () => {
+      const { text, conditions } = parseSearchQuery("api -legacy -status:done");
+
+      expect(text).toBe("api");
+      expect(conditions).toHaveLength(2);
+    });
+
+    it("should leave dashes that do not negate anything in the text", () => {
+      const { text, conditions } = parseSearchQuery("a -- b");
+
+      expect(text).toBe("a -- b");
+      expect(conditions).toHaveLength(0);
+    });
+  });
+
+  describe("qualifiers", () => {
+    it.each([
+      "id:3",
+      "id:>=3",
+      "id:1..10",
+      "customId:=api-001",
+      "category:back*",
+      "name:none",
+      "description:cache",
+      "status:wip,review",
+      "comment:none",
+      "priority:high",
+      "priority:>=3",
+      "priority:low..high",
+      "parent:4",
+      "parent:api-001",
+      "parentId:none",
+      "tag:security",
+      "tags:security,tech-debt",
+      "tag:none",
+      "created:2025-01-31",
+      "createdAt:<=today",
+      "updated:>7d",
+      "updated:2025-01-01..2025-01-31",
+      "UPDATED:-2w",
+      "due:<+3d",
+      "dueAt:none",
+      "start:<=today",
+      "estimate:2.5",
+      "estimate:>=1",
+      "estimate:0.5..3",
+      "estimate:none",
+      "recurrence:weekly",
+      'recurrence:"Every 2 Weeks"',
+      "recurrence:none",
+      "archived:yes",
+      "archived:false",
+      "archived:>7d",
+      "archivedAt:2025-01-31",
+    ])("should accept %s", (query) => {
+      expect(parseSearchQuery(query).conditions).toHaveLength(1);
+    });
+
+    it("should tell when a qualifier filters on archiving", () => {
+      expect(parseSearchQuery("api status:wip").archived).toBe(false);
+      expect(parseSearchQuery("api -archived:no").archived).toBe(true);
+    });
+  });
+
+  describe("errors", () => {
+    it("should point at unknown fields", () => {
+      const error = syntaxError("status:wip stat:done");
+
+      expect(error.position).toBe(11);
+      expect(error.message).toBe(
+        [
+          "Unknown field 'stat' (expected one of: id, customId, category, name, description, status, comment, priority, parent, tag, start, due, created, updated, estimate, recurrence, archived) at position 12",
+          "  status:wip stat:done",
+          "             ^^^^",
+        ].join("\n"),
+      );
+    });
+
+    it("should point at negated unknown fields", () => {
+      expect(syntaxError("-foo:bar").position).toBe(1);
+    });
+
+    it("should point at invalid dates", () => {
+      const error = syntaxError("updated:>soon days");
+
+      expect(error.message).toContain("Invalid date 'soon'");
+      expect(error.message).toContain(
+        "\n  updated:>soon days\n           ^^^^",
+      );
+    });
+
+    it("should point at the invalid end of a range", () => {
+      const error = syntaxError("id:1..x");
+
+      expect(error.message).toContain("Invalid number 'x'");
+      expect(error.position).toBe(6);
+    });
+
+    it("should reject customIds in comparisons", () => {
+      expect(syntaxError("parent:>api-001").message).toContain(
+        "Invalid number 'api-001'",
+      );
+    });
+
+    it("should reject invalid estimates", () => {
+      const error = syntaxError("estimate:<2h");
+
+      expect(error.message).toContain("Invalid number '2h'");
+      expect(error.position).toBe(10);
+    });
+
+    it("should reject invalid recurrences", () => {
+      const error = syntaxError("recurrence:fortnightly");
+
+      expect(error.message).toContain("Invalid recurrence 'fortnightly'");
+      expect(error.position).toBe(11);
+    });
+
+    it("should reject unknown priorities", () => {
+      const error = syntaxError("priority:>urgent");
+
+      expect(error.message).toContain("Unknown priority 'urgent'");
+      expect(error.position).toBe(10);
+    });
+
+    it("should reject invalid tags", () => {
+      const error = syntaxError("tag:a,,b");
+
+      expect(error.position).toBe(4);
+      expect(error.message).toContain("Invalid tag ''");
+    });
+
+    it("should reject missing values", () => {
+      expect(syntaxError("name: x").message).toContain(
+        "Missing value for 'name'",
+      );
+      expect(syntaxError('name:""').message).toContain(
+        "Missing value for 'name'",
+      );
+    });
+
+    it("should point at unterminated quotes", () => {
+      const error = syntaxError('name:"auth flow');
+
+      expect(error.message).toContain("Unterminated quote");
+      expect(error.position).toBe(5);
+    });
+  });
+});
@@ -0,0 +1,462 @@
+import {
+  and,
+  eq,
+  gt,
+  gte,
+  inArray,
+  isNotNull,
+  isNull,
+  lt,
+  lte,
+  or,
+  type SQL,
+  sql,
+} from "drizzle-orm";
+import type { SQLiteColumn } from "drizzle-orm/sqlite-core";
+import { schema } from "../db";
+import { endOfDay, isWholeDay, parseDateExpression } from "./date";
+import { fts, toFtsQuery } from "./fts";
+import { parsePriority } from "./priority";
+import { normalizeRecurrence } from "./recurrence";
+import { categoryCondition, containsText, textMatch } from "./query";
+import { hasAnyTag, hasTags, normalizeTags } from "./tags";
+
+/**
+ * Error in a structured search query, pointing at the offending token
+ */
+export class QuerySyntaxError extends Error {
+  /** Offset of the offending token in the query */
+  position: number;
+
+  constructor(message: string, query: string, start: number, end: number) {
+    const marker = " ".repeat(start) + "^".repeat(Math.max(1, end - start));
+    super(`${message} at position ${start + 1}\n  ${query}\n  ${marker}`);
+    this.name = "QuerySyntaxError";
+    this.position = start;
+  }
+}
+
+type FieldKind =
+  | "text"
+  | "status"
+  | "category"
+  | "integer"
+  | "number"
+  | "priority"
+  | "recurrence"
+  | "parent"
+  | "tag"
+  | "date"
+  | "archived";
+
+interface Field {
+  kind: FieldKind;
+  column: SQLiteColumn;
+}
+
+/** Qualifiers for every column of the tasks table */
+const fields: Record<string, Field> = {
+  id: { kind: "integer", column: schema.tasks.id },
+  customId: { kind: "text", column: schema.tasks.customId },
+  category: { kind: "category", column: schema.tasks.category },
+  name: { kind: "text", column: schema.tasks.name },
+  description: { kind: "text", column: schema.tasks.description },
+  status: { kind: "status", column: schema.tasks.status },
+  comment: { kind: "text", column: schema.tasks.comment },
+  priority: { kind: "priority", column: schema.tasks.priority },
+  parent: { kind: "parent", column: schema.tasks.parentId },
+  tag: { kind: "tag", column: schema.tasks.id },
+  start: { kind: "date", column: schema.tasks.startAt },
+  due: { kind: "date", column: schema.tasks.dueAt },
+  created: { kind: "date", column: schema.tasks.createdAt },
+  updated: { kind: "date", column: schema.tasks.updatedAt },
+  estimate: { kind: "number", column: schema.tasks.estimate },
+  recurrence: { kind: "recurrence", column: schema.tasks.recurrence },
+  archived: { kind: "archived", column: schema.tasks.archivedAt },
+};
+
+const aliases: Record<string, string> = {
+  parentId: "parent",
+  tags: "tag",
+  startAt: "start",
+  dueAt: "due",
+  createdAt: "created",
+  updatedAt: "updated",
+  archivedAt: "archived",
+};
+
+const fieldNames = new Map(
+  [...Object.keys(fields), ...Object.keys(aliases)].map((name) => [
+    name.toLowerCase(),
+    aliases[name] ?? name,
+  ]),
+);
+
+export interface SearchQuery {
+  /** Free text left for full-text search */
+  text: string;
+  /** Conditions from field qualifiers and negated terms */
+  conditions: SQL[];
+  /** Whether a qualifier filters on archiving, so archived tasks should not be left out */
+  archived: boolean;
+}
+
+interface Token {
+  text: string;
+  start: number;
+  end: number;
+}
+
+/** A piece of a qualifier value with its position in the query */
+interface Value {
+  text: string;
+  quoted: boolean;
+  start: number;
+  end: number;
+}
+
+/**
+ * Parse a search query mixing free text and field qualifiers
+ *
+ * Qualifiers are written field:value (e.g. status:wip, name:"auth flow", updated:>7d)
+ * and negated with a leading "-", which also excludes free-text terms (e.g. -legacy)
+ * @throws QuerySyntaxError for unknown fields and invalid values
+ */
+export function parseSearchQuery(input: string, now = new Date()): SearchQuery {
+  const text: string[] = [];
+  const conditions: SQL[] = [];
+  let archived = false;
+
+  const fail = (message: string, start: number, end: number): never => {
+    throw new QuerySyntaxError(message, input, start, end);
+  };
+
+  for (const token of tokenize(input, fail)) {
+    const negated = /^-(?=[\p{L}\p{N}"])/u.test(token.text);
+    const body = negated ? token.text.slice(1) : token.text;
+    const bodyStart = token.start + (negated ? 1 : 0);
+
+    const qualifier = body.match(/^([A-Za-z]\w*):/);
+    if (!qualifier) {
+      if (negated) {
+        conditions.push(negate(freeTextCondition(body)));
+      } else {
+        text.push(token.text);
+      }
+      continue;
+    }
+
+    const fieldName = fieldNames.get(qualifier[1].toLowerCase());
+    if (!fieldName) {
+      fail(
+        `Unknown field '${qualifier[1]}' (expected one of: ${Object.keys(fields).join(", ")})`,
+        bodyStart,
+        bodyStart + qualifier[1].length,
+      );
+    }
+    const field = fields[fieldName as string];
+    if (field.kind === "archived") archived = true;
+
+    const raw = body.slice(qualifier[0].length);
+    const valueStart = bodyStart + qualifier[0].length;
+    if (raw === "" || raw === '""') {
+      fail(`Missing value for '${fieldName}'`, bodyStart, token.end);
+    }
+    const value: Value = {
+      text: unquote(raw),
+      quoted: raw.startsWith('"'),
+      start: valueStart,
+      end: token.end,
+    };
+
+    const condition = compileQualifier(field, value, now, fail);
+    conditions.push(negated ? negate(condition) : condition);
+  }
+
+  return { text: text.join(" "), conditions, archived };
+}
+
+/**
+ * Split a query into whitespace-separated tokens, keeping quoted text and parentheses
+ */
+function tokenize(
+  input: string,
+  fail: (message: string, start: number, end: number) => never,
+): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    if (/\s/.test(input[i])) {
+      i++;
+      continue;
+    }
+
+    const start = i;
+    if (input[i] === "(" || input[i] === ")") {
+      tokens.push({ text: input[i], start, end: ++i });
+      continue;
+    }
+
+    while (i < input.length && !/[\s()]/.test(input[i])) {
+      if (input[i] === '"') {
+        const close = input.indexOf('"', i + 1);
+        if (close === -1) {
+          fail("Unterminated quote", i, input.length);
+        }
+        i = close + 1;
+      } else {
+        i++;
+      }
+    }
+    tokens.push({ text: input.slice(start, i), start, end: i });
+  }
+
+  return tokens;
+}
+
+function unquote(text: string): string {
+  return text.length >= 2 && text.startsWith('"') && text.endsWith('"')
+    ? text.slice(1, -1)
+    : text;
+}
+
+/**
+ * Negate a condition, treating NULL (unknown) as not matching
+ */
+function negate(condition: SQL): SQL {
+  return sql`not coalesce(${condition}, 0)`;
+}
+
+function freeTextCondition(text: string): SQL {
+  const ftsQuery = toFtsQuery(text);
+  return ftsQuery === null
+    ? (textMatch(unquote(text)) ?? sql`0`)
+    : fts.contains(ftsQuery);
+}
+
+function compileQualifier(
+  field: Field,
+  value: Value,
+  now: Date,
+  fail: (message: string, start: number, end: number) => never,
+): SQL {
+  const { column } = field;
+
+  // none matches missing values, unless quoted to search for the word itself
+  if (!value.quoted && value.text.toLowerCase() === "none") {
+    return field.kind === "tag" ? negate(hasAnyTag()) : isNull(column);
+  }
+
+  switch (field.kind) {
+    case "text":
+      if (!value.quoted && value.text.startsWith("=")) {
+        return eq(column, value.text.slice(1));
+      }
+      return containsText(column, value.text);
+
+    case "status":
+      return inArray(column, value.text.split(","));
+
+    case "category":
+      return categoryCondition(value.text) ?? sql`1`;
+
+    case "tag":
+      try {
+        // Like status, a comma-separated list matches any of the tags
+        const tags = normalizeTags(value.text.split(","));
+        return or(...tags.map((tag) => hasTags([tag]))) ?? sql`0`;
+      } catch (error) {
+        return fail((error as Error).message, value.start, value.end);
+      }
+
+    case "integer":
+    case "parent":
+      return compileComparison(column, value, (operand) => {
+        const number = Number(operand.text);
+        if (/^\d+$/.test(operand.text) && Number.isSafeInteger(number)) {
+          return { from: number };
+        }
+        if (field.kind === "parent" && operand === value) {
+          // A parent can also be given by customId within the same category
+          return {
+            from: sql`(SELECT "parent"."id" FROM ${schema.tasks} AS "parent" WHERE "parent"."customId" = ${operand.text} AND "parent"."category" = ${schema.tasks.category})`,
+          };
+        }
+        return fail(
+          `Invalid number '${operand.text}'`,
+          operand.start,
+          operand.end,
+        );
+      });
+
+    case "number":
+      return compileComparison(column, value, (operand) => {
+        if (/^\d+(\.\d+)?$/.test(operand.text)) {
+          return { from: Number(operand.text) };
+        }
+        return fail(
+          `Invalid number '${operand.text}'`,
+          operand.start,
+          operand.end,
+        );
+      });
+
+    case "recurrence":
+      try {
+        // Rules are stored normalized, so "Every Week" finds "every week"
+        return eq(column, normalizeRecurrence(value.text));
+      } catch (error) {
+        return fail((error as Error).message, value.start, value.end);
+      }
+
+    case "archived":
+      if (!value.quoted && /^(yes|true)$/i.test(value.text)) {
+        return isNotNull(column);
+      }
+      if (!value.quoted && /^(no|false)$/i.test(value.text)) {
+        return isNull(column);
+      }
+      // Otherwise the time of archiving, like the other timestamps
+      return compileDate(column, value, now, fail);
+
+    case "priority":
+      return compileComparison(column, value, (operand) => {
+        try {
+          return { from: parsePriority(operand.text) };
+        } catch (error) {
+          return fail((error as Error).message, operand.start, operand.end);
+        }
+      });
+
+    case "date":
+      return compileDate(column, value, now, fail);
+  }
+}
+
+function compileDate(
+  column: SQLiteColumn,
+  value: Value,
+  now: Date,
+  fail: (message: string, start: number, end: number) => never,
+): SQL {
+  const [first, ...rest] = parseComparison(value);
+  if (
+    rest.length === 0 &&
+    first.operator === undefined &&
+    !isWholeDay(first.operand.text)
+  ) {
+    // A point in time without operator matches anything since then
+    return gte(column, parseDateOperand(first.operand, now, fail));
+  }
+  return compileComparison(column, value, (operand) => {
+    const date = parseDateOperand(operand, now, fail);
+    return {
+      from: date,
+      to: isWholeDay(operand.text) ? endOfDay(date) : undefined,
+    };
+  });
+}
+
+type Operator = ">" | ">=" | "<" | "<=" | "=";
+
+interface Comparison {
+  operator: Operator | undefined;
+  operand: Value;
+}
+
+/**
+ * Split a value into a comparison (>5, <=2025-01-31) or an inclusive range (1..10)
+ */
+function parseComparison(value: Value): Comparison[] {
+  if (!value.quoted) {
+    const range = value.text.indexOf("..");
+    if (range > 0 && range < value.text.length - 2) {
+      return [
+        {
+          operator: ">=",
+          operand: {
+            text: value.text.slice(0, range),
+            quoted: false,
+            start: value.start,
+            end: value.start + range,
+          },
+        },
+        {
+          operator: "<=",
+          operand: {
+            text: value.text.slice(range + 2),
+            quoted: false,
+            start: value.start + range + 2,
+            end: value.end,
+          },
+        },
+      ];
+    }
+
+    const operator = value.text.match(/^(>=|<=|>|<|=)/)?.[1] as
+      | Operator
+      | undefined;
+    if (operator) {
+      return [
+        {
+          operator,
+          operand: {
+            text: value.text.slice(operator.length),
+            quoted: false,
+            start: value.start + operator.length,
+            end: value.end,
+          },
+        },
+      ];
+    }
+  }
+
+  return [{ operator: undefined, operand: value }];
+}
+
+/** A compared value, spanning from (inclusive) to (exclusive) when it covers a whole day */
+interface Interval {
+  from: number | Date | SQL;
+  to?: Date;
+}
+
+function compileComparison(
+  column: SQLiteColumn,
+  value: Value,
+  convert: (operand: Value) => Interval,
+): SQL {
+  const conditions = parseComparison(value).map(({ operator, operand }) => {
+    const { from, to } = convert(operand);
+    switch (operator) {
+      case ">":
+        return to ? gte(column, to) : gt(column, from);
+      case ">=":
+        return gte(column, from);
+      case "<":
+        return lt(column, from);
+      case "<=":
+        return to ? lt(column, to) : lte(column, from);
+      default:
+        return to ? and(gte(column, from), lt(column, to)) : eq(column, from);
+    }
+  });
+
+  return and(...conditions) ?? sql`1`;
+}
+
+function parseDateOperand(
+  operand: Value,
+  now: Date,
+  fail: (message: string, start: number, end: number) => never,
+): Date {
+  try {
+    return parseDateExpression(operand.text, now);
+  } catch {
+    return fail(
+      `Invalid date '${operand.text}' (expected e.g. 2025-01-31, today or 7d)`,
+      operand.start,
+      operand.end,
+    );
+  }
+}
@@ -0,0 +1,139 @@
+import { and, eq, isNull, notInArray, or } from "drizzle-orm";
+import { schema } from "../db";
+import type { Task } from "../db/schema";
+import type { DatabaseConnection } from "./db";
+import { recordEvent } from "./events";
+import { defaultWorkflow, isDoneStatus, type Workflow } from "./workflow";
+
+export type TaskNode<T extends Task = Task> = T & {
+  children: TaskNode<T>[];
+};
+
+/**
+ * Get the customIds of direct subtasks that are not done yet, leaving out archived ones
+ */
+export async function getUnfinishedSubtasks(
+  dbConnection: DatabaseConnection,
+  taskId: number,
+  workflow: Workflow = defaultWorkflow,
+): Promise<string[]> {
+  const { db } = dbConnection;
+
+  const rows = await db
+    .select({ customId: schema.tasks.customId })
+    .from(schema.tasks)
+    .where(
+      and(
+        eq(schema.tasks.parentId, taskId),
+        isNull(schema.tasks.archivedAt),
+        or(
+          isNull(schema.tasks.status),
+          notInArray(schema.tasks.status, workflow.done),
+        ),
+      ),
+    )
+    .orderBy(schema.tasks.id);
+
+  return rows.map((r) => r.customId);
+}
+
+/**
+ * Set every done ancestor of a task back to the initial status
+ * @returns The customIds of the reopened ancestors
+ */
+export async function reopenAncestors(
+  dbConnection: DatabaseConnection,
+  taskId: number,
+  workflow: Workflow = defaultWorkflow,
+): Promise<string[]> {
+  const { db } = dbConnection;
+  const reopened: string[] = [];
+
+  let [current] = await db
+    .select({ parentId: schema.tasks.parentId })
+    .from(schema.tasks)
+    .where(eq(schema.tasks.id, taskId));
+
+  while (current?.parentId != null) {
+    const [parent] = await db
+      .select()
+      .from(schema.tasks)
+      .where(eq(schema.tasks.id, current.parentId));
+    if (!parent) break;
+
+    if (isDoneStatus(workflow, parent.status)) {
+      await db
+        .update(schema.tasks)
+        .set({ status: workflow.initial })
+        .where(eq(schema.tasks.id, parent.id));
+      await recordEvent(dbConnection, {
+        taskId: parent.id,
+        type: "status",
+        status: workflow.initial,
+      });
+      reopened.push(parent.customId);
+    }
+    current = parent;
+  }
+
+  return reopened;
+}
+
+/**
+ * Find a cycle in a customId -> parent customId map
+ * @returns The customIds forming the cycle (first and last are the same), or null
+ */
+export function findParentCycle(
+  parents: Map<string, string | null>,
+): string[] | null {
+  for (const start of parents.keys()) {
+    const path = [start];
+    let current = parents.get(start);
+
+    while (current) {
+      const index = path.indexOf(current);
+      if (index !== -1) {
+        return [...path.slice(index), current];
+      }
+      path.push(current);
+      current = parents.get(current);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Arrange tasks into trees by their parent
+ * Tasks whose parent is not among the given tasks become roots
+ */
+export function buildTaskTree<T extends Task>(tasks: T[]): TaskNode<T>[] {
+  const nodes = new Map<number, TaskNode<T>>(
+    tasks.map((task) => [task.id, { ...task, children: [] }]),
+  );
+  const roots: TaskNode<T>[] = [];
+
+  for (const node of nodes.values()) {
+    const parent = node.parentId !== null ? nodes.get(node.parentId) : null;
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  }
+
+  return roots;
+}
+
+/**
+ * Flatten trees in depth-first order, keeping the depth of each task
+ */
+export function flattenTaskTree<T extends Task>(
+  roots: TaskNode<T>[],
+  depth = 0,
+): { task: TaskNode<T>; depth: number }[] {
+  return roots.flatMap((task) => [
+    { task, depth },
+    ...flattenTaskTree(task.children, depth + 1),
+  ]);
+}
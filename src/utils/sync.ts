@@ -0,0 +1,174 @@
+import { formatDateExpression } from "./date";
+import { defaultPriority, getPriorityLabel } from "./priority";
+import type { PortableTask } from "./task-formats";
+import { convertTask } from "./upsert";
+import type { Workflow } from "./workflow";
+
+/** The fields compared between the file, the database and the last sync */
+const syncedFields = [
+  "name",
+  "description",
+  "status",
+  "comment",
+  "priority",
+  "startAt",
+  "dueAt",
+  "estimate",
+  "recurrence",
+  "tags",
+  "dependsOn",
+  "parent",
+] as const;
+
+/** A task changed on both sides since the last sync */
+export interface SyncConflict {
+  category: string;
+  customId: string;
+  /** The fields changed differently on both sides, or empty when one side removed the task */
+  fields: string[];
+}
+
+export const syncSides = ["file", "database"] as const;
+
+export type SyncSide = (typeof syncSides)[number];
+
+/**
+ * Bring a task to the form it's exported in, with every field present,
+ * so that tasks from the file and the database compare equal when they hold the same values
+ * @throws When a field is invalid
+ */
+export function normalizeTask(
+  task: PortableTask,
+  workflow: Workflow,
+): PortableTask {
+  const converted = convertTask(task, workflow);
+  const date = (value: Date | null | undefined) =>
+    value ? formatDateExpression(value) : null;
+
+  return {
+    customId: task.customId,
+    category: task.category,
+    name: task.name ?? null,
+    description: task.description ?? null,
+    status: task.status ?? workflow.initial,
+    comment: task.comment ?? null,
+    priority: getPriorityLabel(
+      converted.priority ?? defaultPriority,
+    ).toLowerCase(),
+    startAt: date(converted.startAt),
+    dueAt: date(converted.dueAt),
+    estimate: task.estimate ?? null,
+    recurrence: converted.recurrence ?? null,
+    tags: [...(converted.tags ?? [])].sort(),
+    dependsOn: [...(task.dependsOn ?? [])].sort(),
+    parent: task.parent ?? null,
+  };
+}
+
+/**
+ * What identifies a task on both sides
+ */
+export function syncKey(task: { category?: string; customId: string }): string {
+  return `${task.category}\t${task.customId}`;
+}
+
+function same(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Merge the changes made to the file and to the database since the last sync (three-way merge)
+ * A field changed on one side only takes that side's value; tasks added or removed on one side
+ * are added or removed. Fields changed differently on both sides, and tasks removed on one side
+ * but changed on the other, are conflicts, unless a side is preferred.
+ * @param base The tasks after the last sync (none before the first one)
+ * @returns The tasks both sides should hold, and the conflicts left unresolved
+ */
+export function mergeTasks(
+  base: PortableTask[],
+  file: PortableTask[],
+  database: PortableTask[],
+  prefer?: SyncSide,
+): { tasks: PortableTask[]; conflicts: SyncConflict[] } {
+  const baseTasks = new Map(base.map((task) => [syncKey(task), task]));
+  const fileTasks = new Map(file.map((task) => [syncKey(task), task]));
+  const databaseTasks = new Map(database.map((task) => [syncKey(task), task]));
+
+  const tasks: PortableTask[] = [];
+  const conflicts: SyncConflict[] = [];
+
+  for (const key of new Set([...databaseTasks.keys(), ...fileTasks.keys()])) {
+    const original = baseTasks.get(key);
+    const inFile = fileTasks.get(key);
+    const inDatabase = databaseTasks.get(key);
+
+    if (same(inFile, inDatabase) || same(inFile, original)) {
+      if (inDatabase) tasks.push(inDatabase);
+      continue;
+    }
+    if (same(inDatabase, original)) {
+      if (inFile) tasks.push(inFile);
+      continue;
+    }
+
+    const { category = "", customId } = (inFile ?? inDatabase) as PortableTask;
+    if (!inFile || !inDatabase) {
+      // Removed on one side, changed on the other
+      const kept = prefer === "file" ? inFile : inDatabase;
+      if (!prefer) conflicts.push({ category, customId, fields: [] });
+      else if (kept) tasks.push(kept);
+      continue;
+    }
+
+    const merged: PortableTask = { ...inDatabase };
+    const fields: string[] = [];
+    for (const field of syncedFields) {
+      const before = original?.[field];
+      if (same(inFile[field], inDatabase[field])) continue;
+      if (same(inDatabase[field], before)) {
+        Object.assign(merged, { [field]: inFile[field] });
+      } else if (!same(inFile[field], before)) {
+        fields.push(field);
+        if (prefer === "file")
+          Object.assign(merged, { [field]: inFile[field] });
+      }
+    }
+
+    if (fields.length > 0 && !prefer) {
+      conflicts.push({ category, customId, fields });
+    }
+    tasks.push(merged);
+  }
+
+  return { tasks, conflicts };
+}
+
+/**
+ * The fields that differ between two versions of a task
+ */
+export function changedFields(a: PortableTask, b: PortableTask): string[] {
+  return syncedFields.filter((field) => !same(a[field], b[field]));
+}
+
+/**
+ * Error raised when both sides changed the same tasks, listing them
+ */
+export class SyncConflictError extends Error {
+  conflicts: SyncConflict[];
+
+  constructor(conflicts: SyncConflict[]) {
+    const lines = conflicts.map(
+      ({ category, customId, fields }) =>
+        `  ${category}/${customId}: ${fields.length > 0 ? fields.join(", ") : "removed on one side, changed on the other"}`,
+    );
+    super(
+      [
+        "Both the file and the database changed these tasks since the last sync:",
+        ...lines,
+        "Sync again with --prefer file or --prefer database to keep the changes of one side",
+      ].join("\n"),
+    );
+    this.name = "SyncConflictError";
+    this.conflicts = conflicts;
+  }
+}
@@ -0,0 +1,30 @@
+import { padEnd, stringWidth } from "./string-width";
+
+export interface TableColumn<T> {
+  header: string;
+  value: (row: T) => string;
+}
+
+/**
+ * Render rows as a table with a header and separator line
+ * Column widths are calculated from the header and the actual content
+ * @returns The lines of the table
+ */
+export function renderTable<T>(columns: TableColumn<T>[], rows: T[]): string[] {
+  const cells = rows.map((row) => columns.map((column) => column.value(row)));
+  const widths = columns.map((column, i) =>
+    Math.max(
+      stringWidth(column.header),
+      ...cells.map((rowCells) => stringWidth(rowCells[i])),
+    ),
+  );
+
+  const formatRow = (values: string[]) =>
+    values.map((value, i) => padEnd(value, widths[i])).join(" | ");
+
+  return [
+    formatRow(columns.map((column) => column.header)),
+    widths.map((width) => "-".repeat(width)).join("-+-"),
+    ...cells.map(formatRow),
+  ];
+}
@@ -0,0 +1,181 @@
+import { and, eq, inArray, notInArray, type SQL, sql } from "drizzle-orm";
+import { schema } from "../db";
+import type { Task } from "../db/schema";
+import type { DatabaseConnection } from "./db";
+
+export type TaskWithTags<T extends Task = Task> = T & { tags: string[] };
+
+/**
+ * Normalize tag names (trimmed, lower case, without duplicates)
+ * @throws When a tag is empty or contains whitespace or commas
+ */
+export function normalizeTags(names: string[]): string[] {
+  const tags = new Set<string>();
+  for (const name of names) {
+    const tag = name.trim().toLowerCase();
+    if (tag === "" || /[\s,]/.test(tag)) {
+      throw new Error(
+        `Invalid tag '${name}' (tags can't be empty or contain spaces or commas)`,
+      );
+    }
+    tags.add(tag);
+  }
+  return [...tags];
+}
+
+/**
+ * Parse a comma-separated list of tags (e.g. "security,tech-debt")
+ */
+export function parseTagList(list: string): string[] {
+  return normalizeTags(list.split(","));
+}
+
+/**
+ * Get the tag names of each of the given tasks, sorted by name
+ */
+export async function getTags(
+  dbConnection: DatabaseConnection,
+  taskIds: number[],
+): Promise<Map<number, string[]>> {
+  const { db } = dbConnection;
+  const tags = new Map<number, string[]>();
+
+  if (taskIds.length === 0) {
+    return tags;
+  }
+
+  const rows = await db
+    .select({ taskId: schema.taskTags.taskId, name: schema.tags.name })
+    .from(schema.taskTags)
+    .innerJoin(schema.tags, eq(schema.tags.id, schema.taskTags.tagId))
+    .where(inArray(schema.taskTags.taskId, taskIds))
+    .orderBy(schema.tags.name);
+
+  for (const row of rows) {
+    const list = tags.get(row.taskId) ?? [];
+    list.push(row.name);
+    tags.set(row.taskId, list);
+  }
+
+  return tags;
+}
+
+/**
+ * Annotate tasks with their tag names
+ */
+export async function withTags<T extends Task>(
+  dbConnection: DatabaseConnection,
+  tasks: T[],
+): Promise<TaskWithTags<T>[]> {
+  const tags = await getTags(
+    dbConnection,
+    tasks.map((t) => t.id),
+  );
+  return tasks.map((task) => ({ ...task, tags: tags.get(task.id) ?? [] }));
+}
+
+/**
+ * Add tags to a task, creating tags that don't exist yet
+ */
+export async function addTaskTags(
+  dbConnection: DatabaseConnection,
+  taskId: number,
+  names: string[],
+) {
+  const { db } = dbConnection;
+
+  if (names.length === 0) return;
+
+  await db
+    .insert(schema.tags)
+    .values(names.map((name) => ({ name })))
+    .onConflictDoNothing();
+  const tags = await db
+    .select({ id: schema.tags.id })
+    .from(schema.tags)
+    .where(inArray(schema.tags.name, names));
+  await db
+    .insert(schema.taskTags)
+    .values(tags.map((tag) => ({ taskId, tagId: tag.id })))
+    .onConflictDoNothing();
+}
+
+/**
+ * Remove tags from a task
+ */
+export async function removeTaskTags(
+  dbConnection: DatabaseConnection,
+  taskId: number,
+  names: string[],
+) {
+  const { db } = dbConnection;
+
+  if (names.length === 0) return;
+
+  await db
+    .delete(schema.taskTags)
+    .where(
+      and(
+        eq(schema.taskTags.taskId, taskId),
+        inArray(
+          schema.taskTags.tagId,
+          db
+            .select({ id: schema.tags.id })
+            .from(schema.tags)
+            .where(inArray(schema.tags.name, names)),
+        ),
+      ),
+    );
+  await deleteUnusedTags(dbConnection);
+}
+
+/**
+ * Replace all tags of a task
+ */
+export async function setTaskTags(
+  dbConnection: DatabaseConnection,
+  taskId: number,
+  names: string[],
+) {
+  const { db } = dbConnection;
+
+  await db.delete(schema.taskTags).where(eq(schema.taskTags.taskId, taskId));
+  await addTaskTags(dbConnection, taskId, names);
+  await deleteUnusedTags(dbConnection);
+}
+
+/**
+ * Delete tags no task uses anymore
+ */
+export async function deleteUnusedTags(dbConnection: DatabaseConnection) {
+  const { db } = dbConnection;
+
+  await db
+    .delete(schema.tags)
+    .where(
+      notInArray(
+        schema.tags.id,
+        db.select({ id: schema.taskTags.tagId }).from(schema.taskTags),
+      ),
+    );
+}
+
+/**
+ * Condition matching tasks that have every one of the given tags
+ */
+export function hasTags(names: string[]): SQL {
+  return sql`${schema.tasks.id} IN (
+    SELECT ${schema.taskTags.taskId} FROM ${schema.taskTags}
+    INNER JOIN ${schema.tags} ON ${schema.tags.id} = ${schema.taskTags.tagId}
+    WHERE ${inArray(schema.tags.name, names)}
+    GROUP BY ${schema.taskTags.taskId}
+    HAVING COUNT(*) = ${names.length}
+  )`;
+}
+
+/**
+ * Condition matching tasks that have at least one tag
+ */
+export function hasAnyTag(): SQL {
+  return sql`${schema.tasks.id} IN (SELECT ${schema.taskTags.taskId} FROM ${schema.taskTags})`;
+}
@@ -0,0 +1,613 @@
+import path from "node:path";
+import { z } from "zod/v4";
+import type { Task } from "../db/schema";
+import { formatCsv, parseCsv } from "./csv";
+import { formatDateExpression } from "./date";
+import type { DatabaseConnection } from "./db";
+import { getDependencyGraph } from "./dependencies";
+import { defaultPriority, getPriorityLabel } from "./priority";
+import { getTags } from "./tags";
+import {
+  readRecords,
+  readText,
+  TaskInputError,
+  type TaskSource,
+  validateRecord,
+} from "./task-input";
+import { taskSchema } from "./upsert";
+import { isDoneStatus, type Workflow } from "./workflow";
+
+export const taskFormats = [
+  "json",
+  "jsonl",
+  "csv",
+  "markdown",
+  "todotxt",
+] as const;
+
+export type TaskFormat = (typeof taskFormats)[number];
+
+const extensions: Record<string, TaskFormat> = {
+  ".json": "json",
+  ".jsonl": "jsonl",
+  ".ndjson": "jsonl",
+  ".csv": "csv",
+  ".md": "markdown",
+  ".markdown": "markdown",
+  ".txt": "todotxt",
+};
+
+/**
+ * The format of a file according to its extension, if known
+ */
+export function formatFromPath(filePath: string): TaskFormat | undefined {
+  return extensions[path.extname(filePath).toLowerCase()];
+}
+
+/** A task as exported and imported: the fields accepted by add, with its category */
+export const portableTaskSchema = taskSchema.extend({
+  category: z.string().optional(),
+});
+
+export type PortableTask = z.infer<typeof portableTaskSchema>;
+
+/**
+ * Convert tasks to their portable form
+ * Dependencies and parents are kept only when they are among the given tasks
+ */
+export async function toPortableTasks(
+  dbConnection: DatabaseConnection,
+  tasks: Task[],
+): Promise<PortableTask[]> {
+  const tags = await getTags(
+    dbConnection,
+    tasks.map((task) => task.id),
+  );
+  const customIds = new Map(tasks.map((task) => [task.id, task.customId]));
+
+  const graphs = new Map<string, Map<string, string[]>>();
+  for (const category of new Set(tasks.map((task) => task.category))) {
+    graphs.set(category, await getDependencyGraph(dbConnection, category));
+  }
+  const included = new Set(tasks.map((task) => key(task)));
+
+  const date = (value: Date | null) =>
+    value ? formatDateExpression(value) : null;
+  return tasks.map((task) => ({
+    customId: task.customId,
+    category: task.category,
+    name: task.name,
+    description: task.description,
+    status: task.status ?? undefined,
+    comment: task.comment,
+    priority: getPriorityLabel(task.priority).toLowerCase(),
+    startAt: date(task.startAt),
+    dueAt: date(task.dueAt),
+    estimate: task.estimate,
+    recurrence: task.recurrence,
+    tags: tags.get(task.id) ?? [],
+    dependsOn: (graphs.get(task.category)?.get(task.customId) ?? [])
+      .filter((customId) =>
+        included.has(key({ category: task.category, customId })),
+      )
+      .sort(),
+    parent:
+      task.parentId === null ? null : (customIds.get(task.parentId) ?? null),
+  }));
+}
+
+function key(task: { category: string; customId: string }): string {
+  return `${task.category}\t${task.customId}`;
+}
+
+/**
+ * Format tasks for export
+ */
+export function formatTasks(
+  tasks: PortableTask[],
+  format: TaskFormat,
+  workflow: Workflow,
+): string {
+  switch (format) {
+    case "json":
+      return JSON.stringify(tasks, null, 2);
+    case "jsonl":
+      return tasks.map((task) => JSON.stringify(task)).join("\n");
+    case "csv":
+      return formatCsvTasks(tasks);
+    case "markdown":
+      return formatMarkdownTasks(tasks, workflow);
+    case "todotxt":
+      return tasks.map((task) => formatTodoTxtTask(task, workflow)).join("\n");
+  }
+}
+
+/**
+ * Read and validate the tasks of an import
+ * @param check Further validation of each task, whose errors are reported at the task's position
+ * @throws TaskInputError pointing at the first invalid task
+ */
+export async function readPortableTasks(
+  source: TaskSource,
+  format: TaskFormat,
+  workflow: Workflow,
+  check?: (task: PortableTask) => void,
+): Promise<PortableTask[]> {
+  if (format === "json" || format === "jsonl") {
+    return readRecords(source, portableTaskSchema, check);
+  }
+
+  const text = await readText(source);
+  const records =
+    format === "csv"
+      ? parseCsvTasks(text)
+      : format === "markdown"
+        ? parseMarkdownTasks(text, workflow)
+        : parseTodoTxtTasks(text, workflow);
+
+  return records.map(({ value, line }, index) =>
+    validateRecord(portableTaskSchema, value, index, line, check),
+  );
+}
+
+/** A task parsed from a text format, before validation */
+interface ParsedTask {
+  value: Record<string, unknown>;
+  line: number;
+}
+
+// CSV: one column per field, with lists comma-separated and empty cells for null
+
+const csvColumns = [
+  "customId",
+  "category",
+  "name",
+  "description",
+  "status",
+  "comment",
+  "priority",
+  "startAt",
+  "dueAt",
+  "estimate",
+  "recurrence",
+  "tags",
+  "dependsOn",
+  "parent",
+] as const;
+
+function formatCsvTasks(tasks: PortableTask[]): string {
+  const cell = (value: unknown) =>
+    Array.isArray(value)
+      ? value.join(",")
+      : value === null || value === undefined
+        ? ""
+        : String(value);
+
+  return formatCsv([
+    [...csvColumns],
+    ...tasks.map((task) => csvColumns.map((column) => cell(task[column]))),
+  ]);
+}
+
+function parseCsvTasks(text: string): ParsedTask[] {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) {
+    return [];
+  }
+
+  for (const column of header.fields) {
+    if (!(csvColumns as readonly string[]).includes(column)) {
+      throw new Error(
+        `Unknown CSV column '${column}' (expected: ${csvColumns.join(", ")})`,
+      );
+    }
+  }
+
+  return rows.map(({ fields, line }) => {
+    const value: Record<string, unknown> = {};
+    for (const [i, column] of header.fields.entries()) {
+      const cell = fields[i] ?? "";
+      if (column === "tags" || column === "dependsOn") {
+        value[column] = splitList(cell);
+      } else if (column === "status" || column === "priority") {
+        if (cell !== "") value[column] = cell;
+      } else if (column === "customId" || column === "category") {
+        value[column] = cell;
+      } else if (cell === "") {
+        value[column] = null;
+      } else {
+        value[column] = column === "estimate" ? Number(cell) : cell;
+      }
+    }
+    return { value, line };
+  });
+}
+
+function splitList(value: string): string[] {
+  return value
+    .split(",")
+    .map((item) => item.trim())
+    .filter((item) => item !== "");
+}
+
+// Markdown checklist and todo.txt: fields without a place of their own
+// are written as key:value pairs, with spaces, % and > percent-encoded
+
+function encodeValue(value: string): string {
+  return value.replace(/[%>\s]/g, (char) => encodeURIComponent(char));
+}
+
+function decodeValue(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * The key:value pairs of the fields that have a value, leaving out medium priority
+ */
+function formatFields(
+  task: PortableTask,
+  fields: Record<string, keyof PortableTask>,
+): string[] {
+  return Object.entries(fields).flatMap(([name, field]) => {
+    const value = task[field];
+    if (value === null || value === undefined) return [];
+    if (Array.isArray(value)) {
+      return value.length > 0
+        ? [`${name}:${value.map(encodeValue).join(",")}`]
+        : [];
+    }
+    return [`${name}:${encodeValue(String(value))}`];
+  });
+}
+
+/**
+ * Put a key:value pair in the field it names
+ * @returns Whether the key names a field
+ */
+function parseField(
+  value: Record<string, unknown>,
+  pair: string,
+  fields: Record<string, keyof PortableTask>,
+): boolean {
+  const separator = pair.indexOf(":");
+  const field = fields[pair.slice(0, separator)];
+  if (separator < 0 || !field) {
+    return false;
+  }
+
+  const raw = pair.slice(separator + 1);
+  if (field === "tags" || field === "dependsOn") {
+    value[field] = raw.split(",").filter(Boolean).map(decodeValue);
+  } else if (field === "estimate") {
+    value[field] = Number(raw);
+  } else {
+    value[field] = decodeValue(raw);
+  }
+  return true;
+}
+
+/**
+ * The status a checkbox stands for, unless the recorded status agrees with it
+ */
+function checkboxStatus(
+  done: boolean,
+  status: unknown,
+  workflow: Workflow,
+): string {
+  if (typeof status === "string" && isDoneStatus(workflow, status) === done) {
+    return status;
+  }
+  return done ? (workflow.done[0] ?? "done") : workflow.initial;
+}
+
+// Markdown checklist: a heading per category and nested items for subtasks,
+// with the other fields in an HTML comment after the name
+
+const markdownFields: Record<string, keyof PortableTask> = {
+  id: "customId",
+  status: "status",
+  priority: "priority",
+  start: "startAt",
+  due: "dueAt",
+  estimate: "estimate",
+  rec: "recurrence",
+  tags: "tags",
+  dep: "dependsOn",
+  description: "description",
+  comment: "comment",
+};
+
+function formatMarkdownTasks(
+  tasks: PortableTask[],
+  workflow: Workflow,
+): string {
+  const categories = [
+    ...new Set(tasks.map((task) => task.category ?? "")),
+  ].sort();
+
+  return categories
+    .map((category) => {
+      const inCategory = tasks.filter(
+        (task) => (task.category ?? "") === category,
+      );
+      const customIds = new Set(inCategory.map((task) => task.customId));
+      const children = new Map<string | null, PortableTask[]>();
+      for (const task of inCategory) {
+        const parent =
+          task.parent && customIds.has(task.parent) ? task.parent : null;
+        children.set(parent, [...(children.get(parent) ?? []), task]);
+      }
+
+      const lines: string[] = [`# ${category}`, ""];
+      const addItems = (parent: string | null, depth: number) => {
+        for (const task of children.get(parent) ?? []) {
+          lines.push(formatMarkdownItem(task, depth, workflow));
+          addItems(task.customId, depth + 1);
+        }
+      };
+      addItems(null, 0);
+      return lines.join("\n");
+    })
+    .join("\n\n");
+}
+
+function formatMarkdownItem(
+  task: PortableTask,
+  depth: number,
+  workflow: Workflow,
+): string {
+  const done = isDoneStatus(workflow, task.status ?? null);
+  const fields = formatFields(
+    {
+      ...task,
+      status:
+        task.status === checkboxStatus(done, undefined, workflow)
+          ? undefined
+          : task.status,
+      priority:
+        task.priority === getPriorityLabel(defaultPriority).toLowerCase()
+          ? undefined
+          : task.priority,
+    },
+    markdownFields,
+  );
+
+  return `${"  ".repeat(depth)}- [${done ? "x" : " "}] ${task.name ?? ""} <!-- ${fields.join(" ")} -->`;
+}
+
+/**
+ * A customId derived from the name of a task, e.g. "Set up the DB" → "set-up-the-db"
+ */
+function deriveCustomId(name: unknown): string {
+  const slug = String(name ?? "")
+    .normalize("NFKD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60)
+    .replace(/-+$/, "");
+  return slug === "" ? "task" : slug;
+}
+
+function parseMarkdownTasks(text: string, workflow: Workflow): ParsedTask[] {
+  const tasks: ParsedTask[] = [];
+  let category: string | undefined;
+  // Items that may contain the next item, innermost last
+  const parents: { indent: number; value: Record<string, unknown> }[] = [];
+  const parentOf = new Map<Record<string, unknown>, Record<string, unknown>>();
+
+  let fence: string | undefined;
+
+  for (const [i, line] of text.split(/\r?\n/).entries()) {
+    // Headings and items in code blocks are only examples
+    const marker = line.match(/^\s*(`{3,}|~{3,})/)?.[1];
+    if (marker && (!fence || marker.startsWith(fence))) {
+      fence = fence ? undefined : marker;
+      continue;
+    }
+    if (fence) continue;
+
+    const heading = line.match(/^#{1,6}\s+(.+?)(?:\s+#+)?\s*$/);
+    if (heading) {
+      category = heading[1];
+      parents.length = 0;
+      continue;
+    }
+
+    const item = line.match(/^(\s*)[-*+]\s+\[([ xX])\]\s*(.*)$/);
+    if (!item) continue;
+
+    const [, indent, mark, rest] = item;
+    // The fields are in the last comment, as the name may contain one
+    const comment = rest.match(/^(.*)<!--(.*?)-->\s*$/);
+    const name = (comment ? comment[1] : rest).trim();
+    const value: Record<string, unknown> = { category };
+    if (name !== "") value.name = name;
+
+    for (const pair of (comment?.[2] ?? "").split(/\s+/).filter(Boolean)) {
+      if (!parseField(value, pair, markdownFields)) {
+        throw new TaskInputError(
+          `Unknown field '${pair}'`,
+          tasks.length,
+          i + 1,
+        );
+      }
+    }
+    value.status = checkboxStatus(mark !== " ", value.status, workflow);
+
+    while (
+      parents.length > 0 &&
+      parents[parents.length - 1].indent >= indent.length
+    ) {
+      parents.pop();
+    }
+    const parent = parents[parents.length - 1]?.value;
+    if (parent) parentOf.set(value, parent);
+    parents.push({ indent: indent.length, value });
+
+    tasks.push({ value, line: i + 1 });
+  }
+
+  // Items without an id get one derived from their name, numbered in order of
+  // appearance when names repeat, so importing the same file again finds them
+  const used = new Set(
+    tasks.map(({ value }) => value.customId).filter((id) => id !== undefined),
+  );
+  for (const { value } of tasks) {
+    if (value.customId !== undefined) continue;
+    const base = deriveCustomId(value.name);
+    let customId = base;
+    for (let n = 2; used.has(customId); n++) {
+      customId = `${base}-${n}`;
+    }
+    used.add(customId);
+    value.customId = customId;
+  }
+  for (const { value } of tasks) {
+    value.parent = parentOf.get(value)?.customId ?? null;
+  }
+
+  return tasks;
+}
+
+// todo.txt: x for done tasks, (A) to (D) for priorities, +category and @tags,
+// with the other fields as key:value pairs
+
+const todoTxtFields: Record<string, keyof PortableTask> = {
+  id: "customId",
+  status: "status",
+  pri: "priority",
+  start: "startAt",
+  due: "dueAt",
+  estimate: "estimate",
+  rec: "recurrence",
+  dep: "dependsOn",
+  parent: "parent",
+  description: "description",
+  comment: "comment",
+};
+
+// Priority letters, most important first
+const priorityLetters: Record<string, string> = {
+  A: "critical",
+  B: "high",
+  C: "medium",
+  D: "low",
+};
+
+function formatTodoTxtTask(task: PortableTask, workflow: Workflow): string {
+  const done = isDoneStatus(workflow, task.status ?? null);
+  const letter = Object.entries(priorityLetters).find(
+    ([, name]) => name === task.priority,
+  )?.[0];
+  const withoutDefault = (priority: unknown) =>
+    priority === getPriorityLabel(defaultPriority).toLowerCase()
+      ? undefined
+      : priority;
+
+  const parts = [
+    ...(done ? ["x"] : []),
+    ...(!done && letter && withoutDefault(task.priority)
+      ? [`(${letter})`]
+      : []),
+    ...(task.name ? [encodeTodoTxtName(task.name)] : []),
+    ...(task.category ? [`+${encodeValue(task.category)}`] : []),
+    ...(task.tags ?? []).map((tag) => `@${tag}`),
+    ...formatFields(
+      {
+        ...task,
+        status:
+          task.status === checkboxStatus(done, undefined, workflow)
+            ? undefined
+            : task.status,
+        priority:
+          !done && letter
+            ? undefined
+            : (withoutDefault(task.priority) as string | undefined),
+      },
+      todoTxtFields,
+    ),
+  ];
+  return parts.join(" ");
+}
+
+/**
+ * Percent-encode what would be read back as something other than the name:
+ * %, whitespace other than single spaces between words, +project and @context words,
+ * key:value pairs of known fields, and a leading x, (A) or date
+ */
+function encodeTodoTxtName(name: string): string {
+  const spaced = name.replace(/[%\s]/g, (char, offset: number) =>
+    char === " " &&
+    offset > 0 &&
+    offset < name.length - 1 &&
+    !/\s/.test(name[offset - 1])
+      ? char
+      : encodeURIComponent(char),
+  );
+
+  return spaced
+    .split(" ")
+    .map((word, i) => {
+      if (/^[+@]\S/.test(word)) {
+        return `${encodeURIComponent(word[0])}${word.slice(1)}`;
+      }
+      const separator = word.indexOf(":");
+      if (separator > 0 && todoTxtFields[word.slice(0, separator)]) {
+        return `${word.slice(0, separator)}%3A${word.slice(separator + 1)}`;
+      }
+      if (
+        i === 0 &&
+        (word === "x" ||
+          /^\([A-Z]\)$/.test(word) ||
+          /^\d{4}-\d{2}-\d{2}$/.test(word))
+      ) {
+        return `%${word.charCodeAt(0).toString(16).toUpperCase()}${word.slice(1)}`;
+      }
+      return word;
+    })
+    .join(" ");
+}
+
+function parseTodoTxtTasks(text: string, workflow: Workflow): ParsedTask[] {
+  const tasks: ParsedTask[] = [];
+
+  for (const [i, line] of text.split(/\r?\n/).entries()) {
+    const words = line.trim().split(/\s+/).filter(Boolean);
+    if (words.length === 0) continue;
+
+    const done = words[0] === "x";
+    if (done) words.shift();
+    const letter = words[0]?.match(/^\(([A-Z])\)$/)?.[1];
+    if (letter) words.shift();
+    // Completion and creation dates aren't stored
+    while (/^\d{4}-\d{2}-\d{2}$/.test(words[0] ?? "")) words.shift();
+
+    const value: Record<string, unknown> = { tags: [] };
+    if (letter) value.priority = letter;
+    const name: string[] = [];
+    for (const word of words) {
+      if (/^\+\S/.test(word) && value.category === undefined) {
+        value.category = decodeValue(word.slice(1));
+      } else if (/^@\S/.test(word)) {
+        (value.tags as string[]).push(word.slice(1));
+      } else if (!parseField(value, word, todoTxtFields)) {
+        name.push(decodeValue(word));
+      }
+    }
+    if (name.length > 0) value.name = name.join(" ");
+    if (typeof value.priority === "string" && priorityLetters[value.priority]) {
+      value.priority = priorityLetters[value.priority];
+    }
+    value.status = checkboxStatus(done, value.status, workflow);
+
+    tasks.push({ value, line: i + 1 });
+  }
+
+  return tasks;
+}
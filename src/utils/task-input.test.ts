@@ -0,0 +1,101 @@
+import { describe, it, expect } from "vitest";
+import { Readable } from "node:stream";
+import { readTasks, TaskInputError } from "./task-input";
+
+const ids = (tasks: { customId: string }[]) => tasks.map((t) => t.customId);
+
+describe("readTasks", () => {
+  it("should read a JSON array", async () => {
+    const tasks = await readTasks(
+      '[{"customId": "a", "tags": ["x", "y"]}, {"customId": "b", "name": "[b], {c}"}]',
+    );
+
+    expect(tasks).toEqual([
+      { customId: "a", tags: ["x", "y"] },
+      { customId: "b", name: "[b], {c}" },
+    ]);
+  });
+
+  it("should read JSON Lines, skipping blank lines", async () => {
+    const tasks = await readTasks(
+      '{"customId": "a"}\n\n{"customId": "b"}\r\n{"customId": "c"}',
+    );
+
+    expect(ids(tasks)).toEqual(["a", "b", "c"]);
+  });
+
+  it("should accept an empty array", async () => {
+    expect(await readTasks(" [ ] ")).toEqual([]);
+  });
+
+  it("should read input split across chunks anywhere", async () => {
+    const text =
+      '[{"customId": "é-1", "name": "a \\" ] b"},\n{"customId": "ü-2"}]';
+    const bytes = Buffer.from(text);
+    // One byte at a time splits multi-byte characters and escapes
+    const chunks = [...bytes].map((byte) => Uint8Array.of(byte));
+
+    const tasks = await readTasks(Readable.from(chunks));
+
+    expect(tasks).toEqual([
+      { customId: "é-1", name: 'a " ] b' },
+      { customId: "ü-2" },
+    ]);
+  });
+
+  it("should not drop a character left incomplete by the last chunk", async () => {
+    // The first byte of "é" with nothing after it
+    const chunks = [Buffer.from('{"customId": "a"}'), Uint8Array.of(0xc3)];
+
+    const error = await readTasks(Readable.from(chunks)).catch((e) => e);
+
+    expect(error).toBeInstanceOf(TaskInputError);
+    expect(error).toMatchObject({ index: 0, line: 1 });
+  });
+
+  it("should report the index and line of an invalid task", async () => {
+    const input = '[\n  {"customId": "a"},\n  {"name": "no id"}\n]';
+
+    await expect(readTasks(input)).rejects.toThrow(
+      "Invalid task (customId: Invalid input: expected string, received undefined) at index 1 (line 3)",
+    );
+  });
+
+  it("should report the line of invalid JSON Lines", async () => {
+    const input = '{"customId": "a"}\n\n{"customId": }\n';
+
+    const error = await readTasks(input).catch((e) => e);
+
+    expect(error).toBeInstanceOf(TaskInputError);
+    expect(error).toMatchObject({ index: 1, line: 3 });
+    expect(error.message).toMatch(
+      /^Invalid JSON \(.+\) at index 1 \(line 3\)$/,
+    );
+  });
+
+  it("should report errors of the extra check at the task's position", async () => {
+    const input = '{"customId": "a"}\n{"customId": "b", "status": "x"}';
+
+    await expect(
+      readTasks(input, (task) => {
+        if (task.status === "x") throw new Error("Unknown status 'x'");
+      }),
+    ).rejects.toThrow("Unknown status 'x' at index 1 (line 2)");
+  });
+
+  it("should reject malformed arrays", async () => {
+    await expect(readTasks('[{"customId": "a"},]')).rejects.toThrow(
+      "Missing task at index 1 (line 1)",
+    );
+    await expect(readTasks('[{"customId": "a"}')).rejects.toThrow(
+      "Unexpected end of input: the array isn't closed at index 0 (line 1)",
+    );
+    await expect(readTasks('[{"customId": "a"}]\n[]')).rejects.toThrow(
+      "Unexpected content after the array at index 1 (line 2)",
+    );
+  });
+
+  it("should reject empty input", async () => {
+    await expect(readTasks("  \n")).rejects.toThrow("No tasks in the input");
+  });
+});
@@ -0,0 +1,236 @@
+import type { z } from "zod/v4";
+import { type TaskInput, taskSchema } from "./upsert";
+
+/**
+ * Where tasks are read from: the text itself, or chunks of it such as stdin or a file stream
+ */
+export type TaskSource = string | AsyncIterable<string | Uint8Array>;
+
+/**
+ * Error in a task of the input, pointing at its position
+ */
+export class TaskInputError extends Error {
+  /** Position of the task in the input, from 0 */
+  index: number;
+  /** Line the task starts on, from 1 */
+  line: number;
+
+  constructor(message: string, index: number, line: number) {
+    super(`${message} at index ${index} (line ${line})`);
+    this.name = "TaskInputError";
+    this.index = index;
+    this.line = line;
+  }
+}
+
+/**
+ * Decode the chunks of an input as they arrive, keeping multi-byte characters split
+ * across chunks whole and flushing what the last chunk left incomplete
+ */
+async function* decodeChunks(source: TaskSource): AsyncGenerator<string> {
+  if (typeof source === "string") {
+    yield source;
+    return;
+  }
+
+  const decoder = new TextDecoder();
+  for await (const chunk of source) {
+    yield typeof chunk === "string"
+      ? chunk
+      : decoder.decode(chunk, { stream: true });
+  }
+  yield decoder.decode();
+}
+
+interface RawTask {
+  text: string;
+  index: number;
+  line: number;
+}
+
+/**
+ * Split the input into the JSON text of each task as it arrives,
+ * from either a JSON array or JSON Lines (one task per line)
+ * Only the text of the current task is kept in memory
+ */
+async function* splitTasks(source: TaskSource): AsyncGenerator<RawTask> {
+  let format: "array" | "lines" | undefined;
+  let line = 1;
+  let index = 0;
+
+  // The text of the current task and the line it starts on
+  let text = "";
+  let start = 0;
+  // Position within the JSON array
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let closed = false;
+
+  const take = (): RawTask => {
+    const task = { text, index: index++, line: start };
+    text = "";
+    start = 0;
+    return task;
+  };
+
+  for await (const decoded of decodeChunks(source)) {
+    for (const char of decoded) {
+      const blank = /\s/.test(char);
+      format ??= blank ? undefined : char === "[" ? "array" : "lines";
+
+      if (format === "lines") {
+        if (char === "\n") {
+          if (text.trim() !== "") yield take();
+          text = "";
+        } else {
+          if (!blank && start === 0) start = line;
+          text += char;
+        }
+      } else if (format === "array") {
+        if (closed) {
+          if (!blank) {
+            throw new TaskInputError(
+              "Unexpected content after the array",
+              index,
+              line,
+            );
+          }
+        } else if (inString) {
+          text += char;
+          if (escaped) {
+            escaped = false;
+          } else if (char === "\\") {
+            escaped = true;
+          } else if (char === '"') {
+            inString = false;
+          }
+        } else if ((char === "," || char === "]") && depth === 1) {
+          // An element ends; only an empty array may have no elements at all
+          if (text.trim() !== "") {
+            yield take();
+          } else if (char === "," || index > 0) {
+            throw new TaskInputError("Missing task", index, line);
+          }
+          if (char === "]") {
+            depth = 0;
+            closed = true;
+          }
+        } else {
+          if (char === "[" || char === "{") depth++;
+          if (char === "]" || char === "}") depth--;
+          if (char === '"') inString = true;
+          // The brackets of the array itself aren't part of a task
+          if (depth > 1 || (depth === 1 && char !== "[")) {
+            if (!blank && start === 0) start = line;
+            text += char;
+          }
+        }
+      }
+
+      if (char === "\n") line++;
+    }
+  }
+
+  if (format === "lines" && text.trim() !== "") {
+    yield take();
+  }
+  if (format === "array" && !closed) {
+    throw new TaskInputError(
+      "Unexpected end of input: the array isn't closed",
+      index,
+      line,
+    );
+  }
+  if (format === undefined) {
+    throw new Error("No tasks in the input");
+  }
+}
+
+/**
+ * Read and validate the tasks of a JSON array or JSON Lines input
+ * @param check Further validation of each task, whose errors are reported at the task's position
+ * @throws TaskInputError pointing at the first invalid task
+ */
+export async function readTasks(
+  source: TaskSource,
+  check?: (task: TaskInput) => void,
+): Promise<TaskInput[]> {
+  return readRecords(source, taskSchema, check);
+}
+
+/**
+ * Read the tasks of a JSON array or JSON Lines input with another schema (see readTasks)
+ */
+export async function readRecords<T>(
+  source: TaskSource,
+  schema: z.ZodType<T>,
+  check?: (task: T) => void,
+): Promise<T[]> {
+  const tasks: T[] = [];
+
+  for await (const { text, index, line } of splitTasks(source)) {
+    let value: unknown;
+    try {
+      value = JSON.parse(text);
+    } catch (error) {
+      throw new TaskInputError(
+        `Invalid JSON (${(error as Error).message})`,
+        index,
+        line,
+      );
+    }
+
+    tasks.push(validateRecord(schema, value, index, line, check));
+  }
+
+  return tasks;
+}
+
+/**
+ * Validate one task of an input against a schema and an optional further check
+ * @throws TaskInputError pointing at the task
+ */
+export function validateRecord<T>(
+  schema: z.ZodType<T>,
+  value: unknown,
+  index: number,
+  line: number,
+  check?: (task: T) => void,
+): T {
+  const result = schema.safeParse(value);
+  if (!result.success) {
+    const issues = result.error.issues.map((issue) =>
+      issue.path.length > 0
+        ? `${issue.path.join(".")}: ${issue.message}`
+        : issue.message,
+    );
+    throw new TaskInputError(
+      `Invalid task (${issues.join("; ")})`,
+      index,
+      line,
+    );
+  }
+
+  try {
+    check?.(result.data);
+  } catch (error) {
+    throw new TaskInputError((error as Error).message, index, line);
+  }
+  return result.data;
+}
+
+/**
+ * Read a whole input as text
+ */
+export async function readText(source: TaskSource): Promise<string> {
+  if (typeof source === "string") {
+    return source;
+  }
+
+  let text = "";
+  for await (const decoded of decodeChunks(source)) {
+    text += decoded;
+  }
+  return text;
+}
@@ -0,0 +1,150 @@
+import {
+  and,
+  eq,
+  gt,
+  inArray,
+  isNull,
+  lt,
+  or,
+  type SQL,
+  sql,
+} from "drizzle-orm";
+import { schema } from "../db";
+import type { Task, TimeEntry } from "../db/schema";
+import { startOfDay } from "./date";
+import type { DatabaseConnection } from "./db";
+
+export type TaskWithTrackedTime<T extends Task = Task> = T & {
+  /** Total time tracked on the task, including a running timer */
+  trackedSeconds: number;
+};
+
+/**
+ * Format a duration for tables and messages (e.g. "2h 05m", "45m", "30s")
+ */
+export function formatDuration(seconds: number): string {
+  if (seconds < 60) {
+    return `${seconds}s`;
+  }
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  if (hours === 0) {
+    return `${minutes}m`;
+  }
+  return `${hours}h ${minutes.toString().padStart(2, "0")}m`;
+}
+
+/**
+ * Get the running time entry of a task, if any
+ */
+export async function getRunningEntry(
+  dbConnection: DatabaseConnection,
+  taskId: number,
+): Promise<TimeEntry | undefined> {
+  const { db } = dbConnection;
+
+  const [entry] = await db
+    .select()
+    .from(schema.timeEntries)
+    .where(
+      and(
+        eq(schema.timeEntries.taskId, taskId),
+        isNull(schema.timeEntries.stoppedAt),
+      ),
+    );
+  return entry;
+}
+
+/**
+ * Get the total tracked time of each of the given tasks in seconds
+ * Running timers count up to now
+ */
+export async function getTrackedSeconds(
+  dbConnection: DatabaseConnection,
+  taskIds: number[],
+  now = new Date(),
+): Promise<Map<number, number>> {
+  const { db } = dbConnection;
+  const totals = new Map<number, number>();
+
+  if (taskIds.length === 0) {
+    return totals;
+  }
+
+  // Timestamps are stored as unix seconds
+  const nowSeconds = Math.floor(now.getTime() / 1000);
+  const rows = await db
+    .select({
+      taskId: schema.timeEntries.taskId,
+      seconds: sql<number>`SUM(coalesce(${schema.timeEntries.stoppedAt}, ${nowSeconds}) - ${schema.timeEntries.startedAt})`,
+    })
+    .from(schema.timeEntries)
+    .where(inArray(schema.timeEntries.taskId, taskIds))
+    .groupBy(schema.timeEntries.taskId);
+
+  for (const row of rows) {
+    totals.set(row.taskId, Math.max(0, row.seconds));
+  }
+
+  return totals;
+}
+
+/**
+ * Annotate tasks with their total tracked time
+ */
+export async function withTrackedTime<T extends Task>(
+  dbConnection: DatabaseConnection,
+  tasks: T[],
+  now = new Date(),
+): Promise<TaskWithTrackedTime<T>[]> {
+  const totals = await getTrackedSeconds(
+    dbConnection,
+    tasks.map((t) => t.id),
+    now,
+  );
+  return tasks.map((task) => ({
+    ...task,
+    trackedSeconds: totals.get(task.id) ?? 0,
+  }));
+}
+
+/**
+ * Condition matching time entries that overlap a period
+ */
+export function overlapsPeriod(since?: Date, until?: Date): SQL | undefined {
+  return and(
+    since
+      ? or(
+          isNull(schema.timeEntries.stoppedAt),
+          gt(schema.timeEntries.stoppedAt, since),
+        )
+      : undefined,
+    until ? lt(schema.timeEntries.startedAt, until) : undefined,
+  );
+}
+
+/**
+ * Split the time between two dates into the local days it falls on
+ * @returns The start of each day with the seconds spent in it
+ */
+export function splitByDay(
+  start: Date,
+  end: Date,
+): { day: Date; seconds: number }[] {
+  const days: { day: Date; seconds: number }[] = [];
+
+  let from = start;
+  while (from < end) {
+    const day = startOfDay(from);
+    const nextDay = new Date(day);
+    nextDay.setDate(nextDay.getDate() + 1);
+    const to = end < nextDay ? end : nextDay;
+    days.push({
+      day,
+      seconds: Math.round((to.getTime() - from.getTime()) / 1000),
+    });
+    from = to;
+  }
+
+  return days;
+}
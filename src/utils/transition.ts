@@ -0,0 +1,67 @@
+import { eq } from "drizzle-orm";
+import { schema } from "../db";
+import type { DatabaseConnection } from "./db";
+import { recordStatusChange } from "./events";
+import { findTask } from "./lookup";
+import { getUnfinishedSubtasks, reopenAncestors } from "./subtasks";
+import {
+  defaultWorkflow,
+  isDoneStatus,
+  validateStatus,
+  validateTransition,
+  type Workflow,
+} from "./workflow";
+
+/**
+ * Move a task to another status, enforcing the workflow rules
+ * @returns The task's ID and previous status, and the customIds of parents reopened by the change
+ */
+export async function changeTaskStatus(
+  dbConnection: DatabaseConnection,
+  category: string,
+  idOrCustomId: string,
+  status: string,
+  comment?: string,
+  workflow: Workflow = defaultWorkflow,
+): Promise<{
+  taskId: number;
+  previousStatus: string | null;
+  reopened: string[];
+}> {
+  const { db } = dbConnection;
+
+  validateStatus(workflow, status);
+
+  const task = await findTask(dbConnection, category, idOrCustomId);
+
+  validateTransition(workflow, task.status, status);
+
+  // A parent can't be done while any of its subtasks are not
+  if (isDoneStatus(workflow, status)) {
+    const unfinished = await getUnfinishedSubtasks(
+      dbConnection,
+      task.id,
+      workflow,
+    );
+    if (unfinished.length > 0) {
+      console.error(
+        `Task ${idOrCustomId} has unfinished subtasks: ${unfinished.join(", ")}`,
+      );
+      throw new Error(`Task has unfinished subtasks: ${idOrCustomId}`);
+    }
+  }
+
+  await db
+    .update(schema.tasks)
+    .set({ status, comment: comment || null })
+    .where(eq(schema.tasks.id, task.id));
+
+  await recordStatusChange(dbConnection, task.id, task.status, status, comment);
+
+  // Keep parents consistent: a reopened subtask reopens its done ancestors
+  const reopened = isDoneStatus(workflow, status)
+    ? []
+    : await reopenAncestors(dbConnection, task.id, workflow);
+
+  return { taskId: task.id, previousStatus: task.status, reopened };
+}
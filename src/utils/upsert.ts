@@ -0,0 +1,544 @@
+import { and, eq } from "drizzle-orm";
+import { z } from "zod/v4";
+import { schema } from "../db";
+import type { UpsertMode } from "./config";
+import { formatDate, parseDateExpression } from "./date";
+import { type DatabaseConnection, withTransaction } from "./db";
+import { findDependencyCycle, getDependencyGraph } from "./dependencies";
+import { recordEvent } from "./events";
+import { journaled } from "./journal";
+import { getPriorityLabel, parsePriority } from "./priority";
+import { normalizeRecurrence } from "./recurrence";
+import { findParentCycle } from "./subtasks";
+import { getTags, normalizeTags, setTaskTags } from "./tags";
+import {
+  isDoneStatus,
+  validateStatus,
+  validateTransition,
+  type Workflow,
+} from "./workflow";
+
+export const taskSchema = z.object({
+  customId: z.string(),
+  name: z.string().nullable().optional(),
+  description: z.string().nullable().optional(),
+  status: z.string().optional(),
+  comment: z.string().nullable().optional(),
+  priority: z.union([z.string(), z.number().int()]).optional(),
+  startAt: z.string().nullable().optional(),
+  dueAt: z.string().nullable().optional(),
+  estimate: z.number().nonnegative().nullable().optional(),
+  recurrence: z.string().nullable().optional(),
+  tags: z.array(z.string()).optional(),
+  dependsOn: z.array(z.string()).optional(),
+  parent: z.string().nullable().optional(),
+});
+
+export type TaskInput = z.infer<typeof taskSchema>;
+
+export interface UpsertOptions {
+  /**
+   * How omitted fields of existing tasks are treated:
+   * replace resets the status to the initial one and restores archived tasks,
+   * merge only changes the fields that are given
+   */
+  mode?: UpsertMode;
+  /** Work out the changes without writing anything */
+  dryRun?: boolean;
+  /** The command recorded in the undo journal, unless the caller records the changes itself */
+  command?: string;
+}
+
+/** The fields of a task that an upsert can change, as compared for the summary */
+type TaskFields = Record<(typeof comparedFields)[number], unknown>;
+
+const comparedFields = [
+  "name",
+  "description",
+  "status",
+  "comment",
+  "priority",
+  "startAt",
+  "dueAt",
+  "estimate",
+  "recurrence",
+  "tags",
+  "dependsOn",
+  "parent",
+  "archived",
+] as const;
+
+export interface TaskChange {
+  customId: string;
+  action: "create" | "update" | "unchanged";
+  fields: { field: string; before: unknown; after: unknown }[];
+}
+
+/**
+ * Upsert tasks of a category by customId
+ * The whole batch is written in one transaction, so a failing task leaves the database untouched
+ * @returns What happened to each task, in the order they were first given
+ */
+export async function upsertTasks(
+  dbConnection: DatabaseConnection,
+  category: string,
+  tasks: TaskInput[],
+  workflow: Workflow,
+  { mode = "replace", dryRun, command }: UpsertOptions,
+): Promise<TaskChange[]> {
+  const { db } = dbConnection;
+
+  // Convert every task up front so invalid values fail before writing
+  const converted = tasks.map((task) => convertTask(task, workflow));
+
+  // Validate status transitions, dependencies and subtasks before writing anything
+  await validateTransitions(dbConnection, category, tasks, workflow, mode);
+  await validateDependencies(dbConnection, category, tasks);
+  await validateSubtasks(dbConnection, category, tasks, workflow, mode);
+
+  const customIds = [...new Set(tasks.map((task) => task.customId))];
+  return withTransaction(
+    dbConnection,
+    async () => {
+      const before = await getTaskFields(dbConnection, category, customIds);
+      const write = async () => {
+        for (const [i, task] of tasks.entries()) {
+          const { tags, ...fields } = converted[i];
+          const [previous] = await db
+            .select({ status: schema.tasks.status })
+            .from(schema.tasks)
+            .where(
+              and(
+                eq(schema.tasks.category, category),
+                eq(schema.tasks.customId, task.customId),
+              ),
+            );
+          const [saved] = await db
+            .insert(schema.tasks)
+            .values({
+              customId: task.customId,
+              category,
+              name: task.name,
+              description: task.description,
+              status: task.status || workflow.initial,
+              comment: task.comment,
+              estimate: task.estimate,
+              ...fields,
+            })
+            .onConflictDoUpdate({
+              target: [schema.tasks.customId, schema.tasks.category],
+              set: {
+                name: task.name,
+                description: task.description,
+                status:
+                  mode === "merge"
+                    ? task.status
+                    : task.status || workflow.initial,
+                comment: task.comment,
+                estimate: task.estimate,
+                // Upserting an archived task brings it back, unless merging
+                archivedAt: mode === "merge" ? undefined : null,
+                ...fields,
+                // Touch the task even when merging no fields at all
+                updatedAt: new Date(),
+              },
+            })
+            .returning({ id: schema.tasks.id, status: schema.tasks.status });
+
+          await recordEvent(dbConnection, {
+            taskId: saved.id,
+            type: "upsert",
+            status: saved.status,
+            comment: task.comment,
+          });
+          // Status changes of existing tasks show up in their history like set-status ones
+          if (previous && previous.status !== saved.status) {
+            await recordEvent(dbConnection, {
+              taskId: saved.id,
+              type: "status",
+              status: saved.status,
+            });
+          }
+
+          // Providing tags replaces them, omitting them keeps the current ones
+          if (tags !== undefined) {
+            await setTaskTags(dbConnection, saved.id, tags);
+          }
+        }
+
+        await saveDependencies(dbConnection, category, tasks);
+        await saveParents(dbConnection, category, tasks);
+      };
+      if (command) {
+        await journaled(dbConnection, command, write);
+      } else {
+        await write();
+      }
+      const after = await getTaskFields(dbConnection, category, customIds);
+
+      return customIds.map((customId) =>
+        compareTask(customId, before.get(customId), after.get(customId)),
+      );
+    },
+    { rollback: dryRun },
+  );
+}
+
+/**
+ * Count the tasks per action
+ */
+export function countChanges(
+  changes: TaskChange[],
+): Record<TaskChange["action"], number> {
+  const counts = { create: 0, update: 0, unchanged: 0 };
+  for (const change of changes) {
+    counts[change.action]++;
+  }
+  return counts;
+}
+
+/**
+ * Describe what happens to each task, with the fields that change (e.g. for dry runs)
+ */
+export function describeChanges(changes: TaskChange[]): string[] {
+  return changes.flatMap((change) => [
+    `${change.action} ${change.customId}`,
+    ...change.fields.map(
+      ({ field, before, after }) =>
+        `  ${field}: ${JSON.stringify(before)} -> ${JSON.stringify(after)}`,
+    ),
+  ]);
+}
+
+/**
+ * Check the fields of a task that don't depend on other tasks,
+ * converting priorities, dates, recurrences and tags to their stored form
+ * @throws When a field is invalid
+ */
+export function convertTask(task: TaskInput, workflow: Workflow) {
+  if (task.status !== undefined) validateStatus(workflow, task.status);
+
+  return {
+    priority:
+      task.priority === undefined ? undefined : parsePriority(task.priority),
+    startAt: parseTaskDate(task, "startAt"),
+    dueAt: parseTaskDate(task, "dueAt"),
+    recurrence: parseTaskRecurrence(task),
+    tags: task.tags === undefined ? undefined : normalizeTags(task.tags),
+  };
+}
+
+/**
+ * Read the fields of the given tasks that an upsert can change, with readable values
+ */
+async function getTaskFields(
+  dbConnection: DatabaseConnection,
+  category: string,
+  customIds: string[],
+): Promise<Map<string, TaskFields>> {
+  const { db } = dbConnection;
+
+  const rows = await db
+    .select()
+    .from(schema.tasks)
+    .where(eq(schema.tasks.category, category));
+  const customIdsById = new Map(rows.map((row) => [row.id, row.customId]));
+  const wanted = new Set(customIds);
+  const tasks = rows.filter((row) => wanted.has(row.customId));
+  const tags = await getTags(
+    dbConnection,
+    tasks.map((task) => task.id),
+  );
+  const dependencies = await getDependencyGraph(dbConnection, category);
+
+  const date = (value: Date | null) => (value ? formatDate(value) : null);
+  return new Map(
+    tasks.map((task) => [
+      task.customId,
+      {
+        name: task.name,
+        description: task.description,
+        status: task.status,
+        comment: task.comment,
+        priority: getPriorityLabel(task.priority),
+        startAt: date(task.startAt),
+        dueAt: date(task.dueAt),
+        estimate: task.estimate,
+        recurrence: task.recurrence,
+        tags: tags.get(task.id) ?? [],
+        dependsOn: [...(dependencies.get(task.customId) ?? [])].sort(),
+        parent:
+          task.parentId === null
+            ? null
+            : (customIdsById.get(task.parentId) ?? null),
+        archived: task.archivedAt !== null,
+      },
+    ]),
+  );
+}
+
+function compareTask(
+  customId: string,
+  before: TaskFields | undefined,
+  after: TaskFields | undefined,
+): TaskChange {
+  if (!before || !after) {
+    return { customId, action: "create", fields: [] };
+  }
+
+  const fields = comparedFields
+    .filter(
+      (field) => JSON.stringify(before[field]) !== JSON.stringify(after[field]),
+    )
+    .map((field) => ({ field, before: before[field], after: after[field] }));
+  return {
+    customId,
+    action: fields.length > 0 ? "update" : "unchanged",
+    fields,
+  };
+}
+
+/**
+ * Parse a date field of a task; null clears the date and undefined keeps it
+ */
+function parseTaskDate(
+  task: TaskInput,
+  field: "startAt" | "dueAt",
+): Date | null | undefined {
+  const value = task[field];
+  if (value === undefined || value === null) return value;
+
+  try {
+    return parseDateExpression(value);
+  } catch {
+    throw new Error(
+      `Invalid ${field} '${value}' for task '${task.customId}' (expected e.g. 2025-01-31, tomorrow or +3d)`,
+    );
+  }
+}
+
+/**
+ * Validate the recurrence rule of a task; null stops the recurrence and undefined keeps it
+ */
+function parseTaskRecurrence(task: TaskInput): string | null | undefined {
+  const value = task.recurrence;
+  if (value === undefined || value === null) return value;
+
+  try {
+    return normalizeRecurrence(value);
+  } catch {
+    throw new Error(
+      `Invalid recurrence '${value}' for task '${task.customId}' (expected daily, weekly, monthly, yearly or e.g. every 2 weeks)`,
+    );
+  }
+}
+
+async function validateTransitions(
+  dbConnection: DatabaseConnection,
+  category: string,
+  tasks: TaskInput[],
+  workflow: Workflow,
+  mode: UpsertMode,
+) {
+  const { db } = dbConnection;
+
+  const existing = await db
+    .select({ customId: schema.tasks.customId, status: schema.tasks.status })
+    .from(schema.tasks)
+    .where(eq(schema.tasks.category, category));
+  const statuses = new Map(existing.map((t) => [t.customId, t.status]));
+
+  // A task given twice moves from the status it got the first time
+  for (const task of tasks) {
+    const status =
+      mode === "merge" && statuses.has(task.customId)
+        ? task.status
+        : task.status || workflow.initial;
+    if (status === undefined) continue;
+
+    if (statuses.has(task.customId)) {
+      validateTransition(workflow, statuses.get(task.customId) ?? null, status);
+    }
+    statuses.set(task.customId, status);
+  }
+}
+
+async function validateDependencies(
+  dbConnection: DatabaseConnection,
+  category: string,
+  tasks: TaskInput[],
+) {
+  const { db } = dbConnection;
+
+  const existing = await db
+    .select({ customId: schema.tasks.customId })
+    .from(schema.tasks)
+    .where(eq(schema.tasks.category, category));
+  const knownIds = new Set([
+    ...existing.map((t) => t.customId),
+    ...tasks.map((t) => t.customId),
+  ]);
+
+  // Replace the edges of the given tasks in the current graph
+  const graph = await getDependencyGraph(dbConnection, category);
+  for (const task of tasks) {
+    if (!task.dependsOn) continue;
+
+    for (const dependsOn of task.dependsOn) {
+      if (!knownIds.has(dependsOn)) {
+        throw new Error(
+          `Unknown dependency '${dependsOn}' for task '${task.customId}' in category '${category}'`,
+        );
+      }
+    }
+    graph.set(task.customId, [...new Set(task.dependsOn)]);
+  }
+
+  const cycle = findDependencyCycle(graph);
+  if (cycle) {
+    throw new Error(`Dependency cycle detected: ${cycle.join(" -> ")}`);
+  }
+}
+
+async function saveDependencies(
+  dbConnection: DatabaseConnection,
+  category: string,
+  tasks: TaskInput[],
+) {
+  const { db } = dbConnection;
+
+  const rows = await db
+    .select({ id: schema.tasks.id, customId: schema.tasks.customId })
+    .from(schema.tasks)
+    .where(eq(schema.tasks.category, category));
+  const idMap = new Map(rows.map((r) => [r.customId, r.id]));
+
+  for (const task of tasks) {
+    if (!task.dependsOn) continue;
+
+    const taskId = idMap.get(task.customId);
+    if (taskId === undefined) continue;
+
+    await db
+      .delete(schema.taskDependencies)
+      .where(eq(schema.taskDependencies.taskId, taskId));
+
+    const values = [...new Set(task.dependsOn)].flatMap((customId) => {
+      const dependsOnId = idMap.get(customId);
+      return dependsOnId === undefined ? [] : [{ taskId, dependsOnId }];
+    });
+    if (values.length > 0) {
+      await db.insert(schema.taskDependencies).values(values);
+    }
+  }
+}
+
+async function validateSubtasks(
+  dbConnection: DatabaseConnection,
+  category: string,
+  tasks: TaskInput[],
+  workflow: Workflow,
+  mode: UpsertMode,
+) {
+  const { db } = dbConnection;
+
+  const existing = await db
+    .select({
+      id: schema.tasks.id,
+      customId: schema.tasks.customId,
+      parentId: schema.tasks.parentId,
+      status: schema.tasks.status,
+      archivedAt: schema.tasks.archivedAt,
+    })
+    .from(schema.tasks)
+    .where(eq(schema.tasks.category, category));
+  const customIds = new Map(existing.map((t) => [t.id, t.customId]));
+
+  // Archived subtasks don't hold back their parent, unless the upsert brings them back
+  const archived = new Set(
+    existing.filter((t) => t.archivedAt !== null).map((t) => t.customId),
+  );
+  if (mode === "replace") {
+    for (const task of tasks) archived.delete(task.customId);
+  }
+
+  // Build the parent and status maps as they will be after the upsert
+  const parents = new Map<string, string | null>();
+  const statuses = new Map<string, string | null>();
+  for (const task of existing) {
+    parents.set(
+      task.customId,
+      task.parentId !== null ? (customIds.get(task.parentId) ?? null) : null,
+    );
+    statuses.set(task.customId, task.status);
+  }
+  for (const task of tasks) {
+    if (task.parent !== undefined) {
+      parents.set(task.customId, task.parent);
+    } else if (!parents.has(task.customId)) {
+      parents.set(task.customId, null);
+    }
+    // Merging keeps the status of existing tasks unless one is given
+    if (task.status || mode === "replace" || !statuses.has(task.customId)) {
+      statuses.set(task.customId, task.status || workflow.initial);
+    }
+  }
+
+  for (const task of tasks) {
+    if (task.parent && !parents.has(task.parent)) {
+      throw new Error(
+        `Unknown parent '${task.parent}' for task '${task.customId}' in category '${category}'`,
+      );
+    }
+  }
+
+  const cycle = findParentCycle(parents);
+  if (cycle) {
+    throw new Error(`Subtask cycle detected: ${cycle.join(" -> ")}`);
+  }
+
+  // A parent can't be done while any of its subtasks are not
+  const touched = new Set(tasks.map((t) => t.customId));
+  for (const [customId, parent] of parents) {
+    if (!parent || !isDoneStatus(workflow, statuses.get(parent) ?? null)) {
+      continue;
+    }
+    if (isDoneStatus(workflow, statuses.get(customId) ?? null)) continue;
+    if (archived.has(customId)) continue;
+    if (!touched.has(customId) && !touched.has(parent)) continue;
+
+    throw new Error(
+      `Task '${parent}' cannot be done while subtask '${customId}' is not done`,
+    );
+  }
+}
+
+async function saveParents(
+  dbConnection: DatabaseConnection,
+  category: string,
+  tasks: TaskInput[],
+) {
+  const { db } = dbConnection;
+
+  const rows = await db
+    .select({ id: schema.tasks.id, customId: schema.tasks.customId })
+    .from(schema.tasks)
+    .where(eq(schema.tasks.category, category));
+  const idMap = new Map(rows.map((r) => [r.customId, r.id]));
+
+  for (const task of tasks) {
+    if (task.parent === undefined) continue;
+
+    await db
+      .update(schema.tasks)
+      .set({
+        parentId: task.parent !== null ? idMap.get(task.parent) : null,
+      })
+      .where(
+        and(
+          eq(schema.tasks.category, category),
+          eq(schema.tasks.customId, task.customId),
+        ),
+      );
+  }
+}
@@ -0,0 +1,75 @@
+export interface Workflow {
+  /** All statuses, in display order */
+  statuses: string[];
+  /** Status given to new tasks and to reopened parents */
+  initial: string;
+  /** Statuses that count as finished (for dependencies and subtasks) */
+  done: string[];
+  /** Statuses that `todo` lists and `next` picks from */
+  actionable: string[];
+  /** Allowed target statuses per status; statuses not listed allow any */
+  transitions: Record<string, string[]>;
+  /** Column headers used by `status` */
+  labels: Record<string, string>;
+}
+
+export const defaultWorkflow: Workflow = {
+  statuses: ["wip", "done"],
+  initial: "wip",
+  done: ["done"],
+  actionable: ["wip"],
+  transitions: {},
+  labels: { wip: "WIP", done: "Done" },
+};
+
+export function isDoneStatus(
+  workflow: Workflow,
+  status: string | null,
+): boolean {
+  return status !== null && workflow.done.includes(status);
+}
+
+export function getStatusLabel(workflow: Workflow, status: string): string {
+  return workflow.labels[status] ?? status;
+}
+
+/**
+ * Throw if a status is not part of the workflow
+ */
+export function validateStatus(workflow: Workflow, status: string) {
+  if (!workflow.statuses.includes(status)) {
+    throw new Error(
+      `Unknown status '${status}' (expected one of: ${workflow.statuses.join(", ")})`,
+    );
+  }
+}
+
+/**
+ * Throw if a command moving tasks to a fixed status (e.g. wip) can't be used with the workflow
+ */
+export function validateCommandStatus(workflow: Workflow, status: string) {
+  if (!workflow.statuses.includes(status)) {
+    throw new Error(
+      `The workflow has no '${status}' status (use set-status with one of: ${workflow.statuses.join(", ")})`,
+    );
+  }
+}
+
+/**
+ * Throw if the workflow does not allow moving from one status to another
+ * Staying in the same status is always allowed
+ */
+export function validateTransition(
+  workflow: Workflow,
+  from: string | null,
+  to: string,
+) {
+  if (from === null || from === to) return;
+
+  const allowed = workflow.transitions[from];
+  if (allowed && !allowed.includes(to)) {
+    throw new Error(
+      `Status transition from '${from}' to '${to}' is not allowed (allowed: ${allowed.join(", ") || "none"})`,
+    );
+  }
+}